@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { codecMappedListFactory } from './codec-mapped-list-factory.js';
+import { type MappedListCodec } from './mapped-list-codecs.js';
+import {
+  MappedListDecodeError,
+  MappedListImmutableError,
+  MappedListInvalidValueError,
+  MappedListMissingKeyError,
+} from './mapped-list-errors.js';
+
+const bigintCodec: MappedListCodec<bigint> = {
+  name: 'bigint',
+  decode: (value: string): bigint => BigInt(value),
+  encode: (value: bigint): string => value.toString(),
+};
+
+const QueryList = codecMappedListFactory({
+  validateKey: (key: string): string => key.toLowerCase(),
+  codecs: {
+    bigint: bigintCodec,
+  },
+});
+
+describe('codecMappedListFactory', () => {
+  it('should support no options (use defaults)', () => {
+    const instance = new (codecMappedListFactory())([['a', '1']]);
+
+    expect(instance.getNumber('a')).toBe(1);
+    expect(instance.set('b', 'c').get('b')).toBe('c');
+  });
+
+  describe('named getters and setters', () => {
+    it('should decode and encode numbers', () => {
+      const instance = new QueryList([['page', '2']]);
+
+      const page: number = instance.getNumber('PAGE');
+      expect(page).toBe(2);
+      expect(instance.getOptionalNumber('size')).toBeUndefined();
+      expect(instance.setNumber('size', 20).get('size')).toBe('20');
+    });
+
+    it('should decode and encode booleans', () => {
+      const instance = new QueryList([['debug', '1']]);
+
+      expect(instance.getBoolean('debug')).toBe(true);
+      expect(instance.getOptionalBoolean('verbose')).toBeUndefined();
+      expect(instance.setBoolean('debug', false).get('debug')).toBe('false');
+    });
+
+    it('should decode and encode dates', () => {
+      const instance = new QueryList([['since', '2024-01-02T00:00:00.000Z']]);
+
+      expect(instance.getDate('since')).toEqual(new Date(Date.UTC(2024, 0, 2)));
+      expect(instance.getOptionalDate('until')).toBeUndefined();
+      expect(instance.setDate('until', new Date(Date.UTC(2024, 0, 3))).get('until')).toBe(
+        '2024-01-03T00:00:00.000Z',
+      );
+    });
+
+    it('should decode and encode JSON values', () => {
+      const instance = new QueryList([['filter', '{"status":"open"}']]);
+
+      expect(instance.getJSON<{ status: string }>('filter').status).toBe('open');
+      expect(instance.getOptionalJSON('sort')).toBeUndefined();
+      expect(instance.setJSON('sort', ['a', 'b']).get('sort')).toBe('["a","b"]');
+    });
+
+    it('should support the options of set', () => {
+      const instance = new QueryList([
+        ['page', '1'],
+        ['size', '10'],
+      ]);
+
+      instance.setNumber('page', 2, { keepPosition: true });
+      expect(Array.from(instance)).toEqual([
+        ['page', '2'],
+        ['size', '10'],
+      ]);
+    });
+  });
+
+  describe('codecs', () => {
+    it('should use the registered codecs', () => {
+      const instance = new QueryList([
+        ['id', '9007199254740993'],
+        ['id', '1'],
+      ]);
+
+      const id: bigint = instance.getAs('id', 'bigint');
+      expect(id).toBe(9007199254740993n);
+      expect(instance.getAllAs('id', 'bigint')).toEqual([9007199254740993n, 1n]);
+      expect(instance.getOptionalAs('other', 'bigint')).toBeUndefined();
+
+      instance.appendAs('id', 'bigint', 2n).setAs('max', 'bigint', 3n);
+      expect(instance.getAll('id')).toEqual(['9007199254740993', '1', '2']);
+      expect(instance.get('max')).toBe('3');
+    });
+
+    it('should use the default codecs by name', () => {
+      const instance = new QueryList([['tags', 'a, b']]);
+
+      const tags: string[] = instance.getAs('tags', 'list');
+      expect(tags).toEqual(['a', 'b']);
+    });
+
+    it('should accept codecs', () => {
+      const instance = new QueryList([['id', '1']]);
+
+      const id: bigint = instance.getAs('id', bigintCodec);
+      expect(id).toBe(1n);
+    });
+
+    it('should throw on unknown codecs', () => {
+      const instance = new QueryList([['id', '1']]);
+
+      // @ts-expect-error - `uuid` is not a codec of the list
+      expect(() => instance.getAs('id', 'uuid')).toThrow('Unknown codec: uuid');
+      expect(() => instance.getAs('id', 'constructor' as 'bigint')).toThrow(
+        'Unknown codec: constructor',
+      );
+    });
+  });
+
+  describe('errors', () => {
+    it('should report the key and raw value of the values that cannot be decoded', () => {
+      const instance = new QueryList([
+        ['page', 'abc'],
+        ['id', '1.5'],
+      ]);
+
+      expect(() => instance.getNumber('page')).toThrow('Invalid number: page="abc"');
+      expect(() => instance.getOptionalNumber('page')).toThrow(MappedListDecodeError);
+      expect(() => instance.getAllAs('id', 'bigint')).toThrow(
+        expect.objectContaining({
+          constructor: MappedListDecodeError,
+          key: 'id',
+          value: '1.5',
+          codec: 'bigint',
+          operation: 'getAllAs',
+          cause: expect.any(SyntaxError),
+        }),
+      );
+    });
+
+    it('should throw if the key is missing', () => {
+      expect(() => new QueryList().getNumber('page')).toThrow(MappedListMissingKeyError);
+    });
+
+    it('should throw if a value cannot be encoded', () => {
+      const instance = new QueryList();
+
+      expect(() => instance.setNumber('page', Number.NaN)).toThrow(
+        expect.objectContaining({
+          constructor: MappedListInvalidValueError,
+          key: 'page',
+          value: Number.NaN,
+          operation: 'setNumber',
+        }),
+      );
+      expect(instance.has('page')).toBe(false);
+      expect(() => instance.setAs('tags', 'list', ['a,b'])).toThrow(MappedListInvalidValueError);
+      expect(instance.has('tags')).toBe(false);
+    });
+
+    it('should throw if the list is immutable', () => {
+      const instance = new QueryList().makeImmutable();
+
+      expect(() => instance.setNumber('page', Number.NaN)).toThrow(MappedListImmutableError);
+      expect(() => instance.appendAs('id', 'bigint', 1n)).toThrow(MappedListImmutableError);
+    });
+  });
+});
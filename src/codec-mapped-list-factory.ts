@@ -0,0 +1,197 @@
+import { type CodecMappedListConstructor, type MappedListCodecs } from './codec-mapped-list.js';
+import {
+  booleanCodec,
+  dateCodec,
+  DEFAULT_MAPPED_LIST_CODECS,
+  jsonCodec,
+  type MappedListCodec,
+  numberCodec,
+} from './mapped-list-codecs.js';
+import { MappedListDecodeError, MappedListInvalidValueError } from './mapped-list-errors.js';
+import { type MappedListSetOptions } from './mapped-list.js';
+import { mappedListFactory, type MappedListFactoryOptions } from './parameter-list-factory.js';
+
+/* TYPES */
+
+export interface CodecMappedListFactoryOptions<
+  GCodecs extends MappedListCodecs,
+> extends MappedListFactoryOptions<string> {
+  /**
+   * The codecs available by name, in addition to the default ones (`number`, `boolean`, `date`, `json` and `list`).
+   */
+  readonly codecs?: GCodecs;
+}
+
+/* FACTORY */
+
+/**
+ * Creates a `MappedList` class of strings, with getters decoding its values (ex: `.getNumber(key)`),
+ * and setters encoding them (ex: `.setNumber(key, value)`).
+ *
+ * @example
+ * const QueryList = codecMappedListFactory({
+ *   codecs: {
+ *     bigint: { name: 'bigint', decode: BigInt, encode: String },
+ *   },
+ * });
+ *
+ * const query = new QueryList([['page', '2'], ['id', '9007199254740993']]);
+ * query.getNumber('page'); // 2
+ * query.getAs('id', 'bigint'); // typed as `bigint`
+ */
+export function codecMappedListFactory<GCodecs extends MappedListCodecs = Record<never, never>>({
+  codecs,
+  ...options
+}: CodecMappedListFactoryOptions<GCodecs> = {}): CodecMappedListConstructor<GCodecs> {
+  // a `Map` prevents the names from matching the properties inherited by `codecs` (ex: `constructor`)
+  const registry: ReadonlyMap<string, MappedListCodec<unknown>> = new Map(
+    Object.entries({ ...DEFAULT_MAPPED_LIST_CODECS, ...codecs }),
+  );
+
+  const toCodec = (codec: string | MappedListCodec<unknown>): MappedListCodec<unknown> => {
+    if (typeof codec !== 'string') {
+      return codec;
+    }
+
+    const registered: MappedListCodec<unknown> | undefined = registry.get(codec);
+
+    if (registered === undefined) {
+      throw new Error(`Unknown codec: ${codec}`);
+    }
+
+    return registered;
+  };
+
+  const decode = <GValue>(
+    key: string,
+    value: string,
+    codec: MappedListCodec<GValue>,
+    operation: string,
+  ): GValue => {
+    try {
+      return codec.decode(value);
+    } catch (error: unknown) {
+      throw new MappedListDecodeError(key, value, codec.name, { operation, cause: error });
+    }
+  };
+
+  const encode = <GValue>(
+    key: string,
+    value: GValue,
+    codec: MappedListCodec<GValue>,
+    operation: string,
+  ): string => {
+    try {
+      return codec.encode(value);
+    } catch (error: unknown) {
+      throw new MappedListInvalidValueError(key, value, { operation, cause: error });
+    }
+  };
+
+  return class extends mappedListFactory<string>(options) {
+    getAs(key: string, codec: string | MappedListCodec<unknown>): unknown {
+      return this.#getAs(key, toCodec(codec), 'getAs');
+    }
+
+    #getAs<GValue>(key: string, codec: MappedListCodec<GValue>, operation: string): GValue {
+      return decode(key, this.get(key), codec, operation);
+    }
+
+    getOptionalAs(key: string, codec: string | MappedListCodec<unknown>): unknown {
+      return this.#getOptionalAs(key, toCodec(codec), 'getOptionalAs');
+    }
+
+    #getOptionalAs<GValue>(
+      key: string,
+      codec: MappedListCodec<GValue>,
+      operation: string,
+    ): GValue | undefined {
+      const value: string | undefined = this.getOptional(key);
+
+      return value === undefined ? undefined : decode(key, value, codec, operation);
+    }
+
+    getAllAs(key: string, codec: string | MappedListCodec<unknown>): unknown[] {
+      const _codec: MappedListCodec<unknown> = toCodec(codec);
+
+      return this.getAll(key).map((value: string): unknown =>
+        decode(key, value, _codec, 'getAllAs'),
+      );
+    }
+
+    setAs(
+      key: string,
+      codec: string | MappedListCodec<unknown>,
+      value: unknown,
+      options?: MappedListSetOptions,
+    ): this {
+      return this.#setAs(key, toCodec(codec), value, 'setAs', options);
+    }
+
+    #setAs<GValue>(
+      key: string,
+      codec: MappedListCodec<GValue>,
+      value: GValue,
+      operation: string,
+      options?: MappedListSetOptions,
+    ): this {
+      this.throwIfImmutable(operation);
+
+      return this.set(key, encode(key, value, codec, operation), options);
+    }
+
+    appendAs(key: string, codec: string | MappedListCodec<unknown>, value: unknown): this {
+      this.throwIfImmutable('appendAs');
+
+      return this.append(key, encode(key, value, toCodec(codec), 'appendAs'));
+    }
+
+    getNumber(key: string): number {
+      return this.#getAs(key, numberCodec, 'getNumber');
+    }
+
+    getOptionalNumber(key: string): number | undefined {
+      return this.#getOptionalAs(key, numberCodec, 'getOptionalNumber');
+    }
+
+    setNumber(key: string, value: number, options?: MappedListSetOptions): this {
+      return this.#setAs(key, numberCodec, value, 'setNumber', options);
+    }
+
+    getBoolean(key: string): boolean {
+      return this.#getAs(key, booleanCodec, 'getBoolean');
+    }
+
+    getOptionalBoolean(key: string): boolean | undefined {
+      return this.#getOptionalAs(key, booleanCodec, 'getOptionalBoolean');
+    }
+
+    setBoolean(key: string, value: boolean, options?: MappedListSetOptions): this {
+      return this.#setAs(key, booleanCodec, value, 'setBoolean', options);
+    }
+
+    getDate(key: string): Date {
+      return this.#getAs(key, dateCodec, 'getDate');
+    }
+
+    getOptionalDate(key: string): Date | undefined {
+      return this.#getOptionalAs(key, dateCodec, 'getOptionalDate');
+    }
+
+    setDate(key: string, value: Date, options?: MappedListSetOptions): this {
+      return this.#setAs(key, dateCodec, value, 'setDate', options);
+    }
+
+    getJSON<GValue = unknown>(key: string): GValue {
+      return this.#getAs(key, jsonCodec, 'getJSON') as GValue;
+    }
+
+    getOptionalJSON<GValue = unknown>(key: string): GValue | undefined {
+      return this.#getOptionalAs(key, jsonCodec, 'getOptionalJSON') as GValue | undefined;
+    }
+
+    setJSON(key: string, value: unknown, options?: MappedListSetOptions): this {
+      return this.#setAs(key, jsonCodec, value, 'setJSON', options);
+    }
+  } as CodecMappedListConstructor<GCodecs>;
+}
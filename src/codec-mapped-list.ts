@@ -0,0 +1,176 @@
+import {
+  type MappedListCodec,
+  type MappedListCodecValue,
+  type MappedListDefaultCodecs,
+} from './mapped-list-codecs.js';
+import { type MappedListGroupedInit, type MappedListInit } from './mapped-list-constructor.js';
+import { type MappedList, type MappedListSetOptions } from './mapped-list.js';
+
+/* TYPES */
+
+/**
+ * The codecs registered in a list, by name.
+ */
+export type MappedListCodecs = Readonly<Record<string, MappedListCodec<unknown>>>;
+
+/**
+ * The codecs available in a list: the default ones, and the ones registered by the factory (which may override them).
+ */
+export type CodecMappedListCodecs<GCodecs extends MappedListCodecs> = Omit<
+  MappedListDefaultCodecs,
+  keyof GCodecs
+> &
+  GCodecs;
+
+/**
+ * A codec given to the methods of a list: the name of an available codec, or a codec.
+ */
+export type CodecMappedListCodec<GCodecs extends MappedListCodecs> =
+  (keyof CodecMappedListCodecs<GCodecs> & string) | MappedListCodec<unknown>;
+
+/**
+ * The type of the values decoded by `GCodec`.
+ */
+export type CodecMappedListValue<
+  GCodecs extends MappedListCodecs,
+  GCodec extends CodecMappedListCodec<GCodecs>,
+> = GCodec extends keyof CodecMappedListCodecs<GCodecs>
+  ? MappedListCodecValue<CodecMappedListCodecs<GCodecs>[GCodec]>
+  : MappedListCodecValue<GCodec>;
+
+/* CLASS */
+
+/**
+ * A `MappedList` of strings, with getters decoding its values into typed ones, and setters encoding them.
+ *
+ * The getters throw a `MappedListDecodeError` if a value can't be decoded,
+ * and the setters throw a `MappedListInvalidValueError` if a value can't be encoded.
+ *
+ * @template GCodecs The codecs registered by the factory, by name.
+ */
+export interface CodecMappedList<
+  GCodecs extends MappedListCodecs = Record<never, never>,
+> extends MappedList<string> {
+  /**
+   * Returns the first value associated with the specified key, decoded with `codec`.
+   *
+   * @param {string} key - The key identifying the entry to retrieve.
+   * @param {GCodec} codec - The name of a codec of this list, or a codec.
+   * @return {CodecMappedListValue<GCodecs, GCodec>} The decoded value.
+   */
+  getAs<GCodec extends CodecMappedListCodec<GCodecs>>(
+    key: string,
+    codec: GCodec,
+  ): CodecMappedListValue<GCodecs, GCodec>;
+
+  /**
+   * Like `.getAs(key, codec)`, but returns `undefined` if the key is missing (an invalid value still throws).
+   */
+  getOptionalAs<GCodec extends CodecMappedListCodec<GCodecs>>(
+    key: string,
+    codec: GCodec,
+  ): CodecMappedListValue<GCodecs, GCodec> | undefined;
+
+  /**
+   * Returns all the values associated with the specified key, decoded with `codec`.
+   */
+  getAllAs<GCodec extends CodecMappedListCodec<GCodecs>>(
+    key: string,
+    codec: GCodec,
+  ): CodecMappedListValue<GCodecs, GCodec>[];
+
+  /**
+   * Like `.set(key, value)`, with the value encoded by `codec`.
+   */
+  setAs<GCodec extends CodecMappedListCodec<GCodecs>>(
+    key: string,
+    codec: GCodec,
+    value: CodecMappedListValue<GCodecs, GCodec>,
+    options?: MappedListSetOptions,
+  ): this;
+
+  /**
+   * Like `.append(key, value)`, with the value encoded by `codec`.
+   */
+  appendAs<GCodec extends CodecMappedListCodec<GCodecs>>(
+    key: string,
+    codec: GCodec,
+    value: CodecMappedListValue<GCodecs, GCodec>,
+  ): this;
+
+  /**
+   * Alias of `.getAs(key, 'number')`.
+   */
+  getNumber(key: string): number;
+
+  /**
+   * Alias of `.getOptionalAs(key, 'number')`.
+   */
+  getOptionalNumber(key: string): number | undefined;
+
+  /**
+   * Alias of `.setAs(key, 'number', value)`.
+   */
+  setNumber(key: string, value: number, options?: MappedListSetOptions): this;
+
+  /**
+   * Alias of `.getAs(key, 'boolean')`.
+   */
+  getBoolean(key: string): boolean;
+
+  /**
+   * Alias of `.getOptionalAs(key, 'boolean')`.
+   */
+  getOptionalBoolean(key: string): boolean | undefined;
+
+  /**
+   * Alias of `.setAs(key, 'boolean', value)`.
+   */
+  setBoolean(key: string, value: boolean, options?: MappedListSetOptions): this;
+
+  /**
+   * Alias of `.getAs(key, 'date')`.
+   */
+  getDate(key: string): Date;
+
+  /**
+   * Alias of `.getOptionalAs(key, 'date')`.
+   */
+  getOptionalDate(key: string): Date | undefined;
+
+  /**
+   * Alias of `.setAs(key, 'date', value)`.
+   */
+  setDate(key: string, value: Date, options?: MappedListSetOptions): this;
+
+  /**
+   * Alias of `.getAs(key, 'json')`. The decoded value is NOT checked against `GValue`.
+   */
+  getJSON<GValue = unknown>(key: string): GValue;
+
+  /**
+   * Alias of `.getOptionalAs(key, 'json')`. The decoded value is NOT checked against `GValue`.
+   */
+  getOptionalJSON<GValue = unknown>(key: string): GValue | undefined;
+
+  /**
+   * Alias of `.setAs(key, 'json', value)`.
+   */
+  setJSON(key: string, value: unknown, options?: MappedListSetOptions): this;
+}
+
+/* CONSTRUCTOR */
+
+export interface CodecMappedListConstructor<
+  GCodecs extends MappedListCodecs = Record<never, never>,
+> {
+  new (init?: MappedListInit<string>): CodecMappedList<GCodecs>;
+
+  /**
+   * Like `MappedListConstructor.fromGrouped`.
+   */
+  fromGrouped<GInstance>(
+    this: new (init: MappedListInit<string>) => GInstance,
+    grouped: MappedListGroupedInit<string>,
+  ): GInstance;
+}
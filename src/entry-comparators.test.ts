@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import {
+  compareKeys,
+  compareKeysNaturally,
+  localeKeyComparator,
+  valueComparator,
+} from './entry-comparators.js';
+import { type MappedListCompare, type MappedListTuple } from './mapped-list.js';
+
+function sortKeys(keys: readonly string[], compare: MappedListCompare<unknown>): string[] {
+  return keys
+    .map((key: string): MappedListTuple<unknown> => [key, undefined])
+    .sort(compare)
+    .map(([key]: MappedListTuple<unknown>): string => key);
+}
+
+describe('entry comparators', () => {
+  describe('compareKeys', () => {
+    it('should order by UTF-16 code units', () => {
+      expect(sortKeys(['b', 'a', 'B', 'é', 'a'], compareKeys)).toEqual(['B', 'a', 'a', 'b', 'é']);
+    });
+  });
+
+  describe('localeKeyComparator', () => {
+    it('should order using Intl.Collator', () => {
+      expect(sortKeys(['b', 'é', 'a', 'B'], localeKeyComparator('en'))).toEqual([
+        'a',
+        'b',
+        'B',
+        'é',
+      ]);
+    });
+
+    it('should support collator options', () => {
+      expect(
+        sortKeys(['item10', 'item2', 'Item1'], localeKeyComparator('en', { numeric: true })),
+      ).toEqual(['Item1', 'item2', 'item10']);
+    });
+  });
+
+  describe('compareKeysNaturally', () => {
+    it('should order the digits by numeric value', () => {
+      expect(
+        sortKeys(
+          ['item10', 'item2', 'item1', 'item', 'item2b', 'item2a', 'b'],
+          compareKeysNaturally,
+        ),
+      ).toEqual(['b', 'item', 'item1', 'item2', 'item2a', 'item2b', 'item10']);
+    });
+
+    it('should support large numbers and leading zeros', () => {
+      expect(
+        sortKeys(
+          ['v99999999999999999999', 'v100000000000000000000', 'v01', 'v1', 'v001', 'v9', ''],
+          compareKeysNaturally,
+        ),
+      ).toEqual(['', 'v001', 'v01', 'v1', 'v9', 'v99999999999999999999', 'v100000000000000000000']);
+    });
+
+    it('should compare digits and other characters by code units', () => {
+      expect(sortKeys(['a-1', 'a1', 'a_1'], compareKeysNaturally)).toEqual(['a1', 'a-1', 'a_1']);
+    });
+  });
+
+  describe('valueComparator', () => {
+    it('should order by value', () => {
+      const entries: MappedListTuple<number>[] = [
+        ['a', 3],
+        ['b', 1],
+        ['c', 2],
+        ['d', 1],
+      ];
+
+      expect(entries.sort(valueComparator())).toEqual([
+        ['b', 1],
+        ['d', 1],
+        ['c', 2],
+        ['a', 3],
+      ]);
+    });
+
+    it('should support a custom value comparison', () => {
+      const entries: MappedListTuple<string>[] = [
+        ['a', 'aa'],
+        ['b', 'c'],
+        ['c', 'bbb'],
+      ];
+
+      expect(
+        entries.sort(valueComparator((a: string, b: string): number => b.length - a.length)),
+      ).toEqual([
+        ['c', 'bbb'],
+        ['a', 'aa'],
+        ['b', 'c'],
+      ]);
+    });
+
+    it('should require a value comparison for the values not supporting the operators', () => {
+      // @ts-expect-error the objects can't be compared with `<` and `>`
+      valueComparator<{ x: number }>();
+
+      const entries: MappedListTuple<{ x: number }>[] = [
+        ['a', { x: 2 }],
+        ['b', { x: 1 }],
+      ];
+
+      expect(
+        entries.sort(valueComparator((a: { x: number }, b: { x: number }): number => a.x - b.x)),
+      ).toEqual([
+        ['b', { x: 1 }],
+        ['a', { x: 2 }],
+      ]);
+    });
+  });
+});
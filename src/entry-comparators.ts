@@ -0,0 +1,132 @@
+import { type MappedListCompare, type MappedListTuple } from './mapped-list.js';
+
+/* KEYS */
+
+/**
+ * Compares two entries by key, according to the UTF-16 code units of the keys.
+ * This is the default ordering of `MappedList.sort`.
+ *
+ * @param {MappedListTuple<unknown>} a - The first entry.
+ * @param {MappedListTuple<unknown>} b - The second entry.
+ * @return {number} A negative number if `a` comes first, a positive number if `b` comes first, otherwise 0.
+ */
+export function compareKeys(
+  [keyA]: MappedListTuple<unknown>,
+  [keyB]: MappedListTuple<unknown>,
+): number {
+  return compareCodeUnits(keyA, keyB);
+}
+
+/**
+ * Creates a function comparing two entries by key, using locale-aware collation (`Intl.Collator`).
+ *
+ * @example
+ * list.sort(localeKeyComparator('de', { sensitivity: 'base' }));
+ *
+ * @param {Intl.LocalesArgument} [locales] - The locales passed to `Intl.Collator`.
+ * @param {Intl.CollatorOptions} [options] - The options passed to `Intl.Collator`.
+ * @return {MappedListCompare<unknown>} The comparison function.
+ */
+export function localeKeyComparator(
+  locales?: Intl.LocalesArgument,
+  options?: Intl.CollatorOptions,
+): MappedListCompare<unknown> {
+  const collator: Intl.Collator = new Intl.Collator(locales, options);
+
+  return ([keyA]: MappedListTuple<unknown>, [keyB]: MappedListTuple<unknown>): number => {
+    return collator.compare(keyA, keyB);
+  };
+}
+
+const NATURAL_CHUNKS_REGEXP: RegExp = /[0-9]+|[^0-9]+/g;
+
+/**
+ * Compares two entries by key, using a natural ordering: sequences of digits are compared by numeric value
+ * (ex: `item2` comes before `item10`), and the other characters by UTF-16 code units.
+ * Keys with the same natural value (ex: `a1` and `a01`) are ordered by UTF-16 code units.
+ *
+ * @param {MappedListTuple<unknown>} a - The first entry.
+ * @param {MappedListTuple<unknown>} b - The second entry.
+ * @return {number} A negative number if `a` comes first, a positive number if `b` comes first, otherwise 0.
+ */
+export function compareKeysNaturally(
+  [keyA]: MappedListTuple<unknown>,
+  [keyB]: MappedListTuple<unknown>,
+): number {
+  const chunksA: string[] = keyA.match(NATURAL_CHUNKS_REGEXP) ?? [];
+  const chunksB: string[] = keyB.match(NATURAL_CHUNKS_REGEXP) ?? [];
+  const length: number = Math.min(chunksA.length, chunksB.length);
+
+  for (let i: number = 0; i < length; i++) {
+    const result: number =
+      isDigit(chunksA[i]) && isDigit(chunksB[i])
+        ? compareDigits(chunksA[i], chunksB[i])
+        : compareCodeUnits(chunksA[i], chunksB[i]);
+
+    if (result !== 0) {
+      return result;
+    }
+  }
+
+  return chunksA.length - chunksB.length || compareCodeUnits(keyA, keyB);
+}
+
+/* VALUES */
+
+/**
+ * Creates a function comparing two entries by value, with the `<` and `>` operators.
+ *
+ * @return {MappedListCompare<GValue>} The comparison function.
+ */
+export function valueComparator<
+  GValue extends string | number | bigint,
+>(): MappedListCompare<GValue>;
+/**
+ * Creates a function comparing two entries by value.
+ *
+ * @param {(a: GValue, b: GValue) => number} compareValues - The function used to compare the values.
+ * @return {MappedListCompare<GValue>} The comparison function.
+ */
+export function valueComparator<GValue>(
+  compareValues: (a: GValue, b: GValue) => number,
+): MappedListCompare<GValue>;
+export function valueComparator(
+  compareValues: (a: never, b: never) => number = compareWithOperators,
+): MappedListCompare<never> {
+  return ([, valueA]: MappedListTuple<never>, [, valueB]: MappedListTuple<never>): number => {
+    return compareValues(valueA, valueB);
+  };
+}
+
+/* HELPERS */
+
+function compareWithOperators<GOperand extends string | number | bigint>(
+  a: GOperand,
+  b: GOperand,
+): number {
+  if (a < b) {
+    return -1;
+  } else if (a > b) {
+    return 1;
+  } else {
+    return 0;
+  }
+}
+
+function compareCodeUnits(a: string, b: string): number {
+  return compareWithOperators(a, b);
+}
+
+function isDigit(chunk: string): boolean {
+  return chunk[0] >= '0' && chunk[0] <= '9';
+}
+
+/**
+ * Compares two sequences of digits by numeric value, without loss of precision.
+ */
+function compareDigits(a: string, b: string): number {
+  a = a.replace(/^0+/, '');
+  b = b.replace(/^0+/, '');
+
+  return a.length - b.length || compareCodeUnits(a, b);
+}
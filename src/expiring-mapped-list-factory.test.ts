@@ -0,0 +1,243 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { expiringMappedListFactory } from './expiring-mapped-list-factory.js';
+import { MappedListImmutableError, MappedListMissingKeyError } from './mapped-list-errors.js';
+
+describe('expiringMappedListFactory', () => {
+  let now: number;
+
+  const TestClass = expiringMappedListFactory<string>({
+    validateKey: (key: string): string => key.toLowerCase(),
+    clock: (): number => now,
+    history: 10,
+  });
+
+  beforeEach(() => {
+    now = 1000;
+  });
+
+  it('should use Date.now by default', () => {
+    const instance = new (expiringMappedListFactory<string>())();
+
+    instance.append('a', 'a1', { ttl: 60_000 }).append('b', 'b1', { expiresAt: new Date(0) });
+    expect(Array.from(instance)).toEqual([['a', 'a1']]);
+  });
+
+  it('should hide the expired entries', () => {
+    const instance = new TestClass([['a', 'a0']]);
+
+    instance.append('A', 'a1', { ttl: 100 }).append('b', 'b1', { ttl: 200 }).append('a', 'a2');
+    expect(instance.size).toBe(4);
+
+    now = 1100;
+    expect(instance.size).toBe(3);
+    expect(Array.from(instance)).toEqual([
+      ['a', 'a0'],
+      ['b', 'b1'],
+      ['a', 'a2'],
+    ]);
+    expect(instance.getAll('a')).toEqual(['a0', 'a2']);
+    expect(instance.count('a')).toBe(2);
+    expect(instance.hasEntry('a', 'a1')).toBe(false);
+    expect(instance.at(1)).toEqual(['b', 'b1']);
+    expect(instance.indexOf('a', 'a2')).toBe(2);
+    expect(instance.toObject({ keep: 'last' })).toEqual({ a: 'a2', b: 'b1' });
+
+    now = 1200;
+    expect(instance.has('b')).toBe(false);
+    expect(instance.getOptional('b')).toBe(undefined);
+    expect(() => instance.get('b')).toThrow(MappedListMissingKeyError);
+    expect(Array.from(instance.uniqueKeys())).toEqual(['a']);
+    expect(instance.filter((): boolean => true)).toEqual([
+      ['a', 'a0'],
+      ['a', 'a2'],
+    ]);
+  });
+
+  it('should only count the entries not expired when deleting', () => {
+    const instance = new TestClass();
+
+    instance.append('a', 'a1', { ttl: 100 }).append('b', 'b1', { ttl: 100 }).append('b', 'b2');
+
+    now = 1100;
+    expect(instance.has('a')).toBe(false);
+    expect(instance.delete('a')).toBe(0);
+    expect(instance.delete('b')).toBe(1);
+    expect(instance.size).toBe(0);
+
+    instance.append('c', 'c1', { ttl: 100 }).append('c', 'c1');
+
+    now = 1200;
+    expect(instance.deleteEntry('c', 'c1')).toBe(1);
+    expect(instance.size).toBe(0);
+  });
+
+  describe('bulk deletions', () => {
+    function create(): InstanceType<typeof TestClass> {
+      const instance = new TestClass();
+
+      now = 1000;
+
+      instance
+        .append('x.a', '1', { ttl: 100 })
+        .append('a', '1', { ttl: 100 })
+        .append('a', '2')
+        .append('b', '1', { ttl: 100 })
+        .append('b', '2');
+
+      now = 1100;
+
+      return instance;
+    }
+
+    it('should only pass the entries not expired to the predicates', () => {
+      const instance = create();
+      const predicate = vi.fn((): boolean => true);
+
+      expect(instance.deleteWhere(predicate)).toBe(2);
+      expect(predicate.mock.calls).toEqual([
+        ['2', 'a'],
+        ['2', 'b'],
+      ]);
+      expect(instance.size).toBe(0);
+    });
+
+    it('should only count the entries not expired', () => {
+      let instance = create();
+      let size: number = instance.size;
+      let deleted: number = instance.deleteWhere((value: string): boolean => value !== '2');
+      expect(deleted).toBe(0);
+      expect(size - instance.size).toBe(deleted);
+
+      instance = create();
+      size = instance.size;
+      deleted = instance.retainWhere((_value: string, key: string): boolean => key === 'b');
+      expect(deleted).toBe(1);
+      expect(size - instance.size).toBe(deleted);
+
+      instance = create();
+      size = instance.size;
+      deleted = instance.deleteMatching({ prefix: 'x.' });
+      expect(deleted).toBe(0);
+      expect(size - instance.size).toBe(deleted);
+
+      instance = create();
+      size = instance.size;
+      deleted = instance.deleteKeys(['a', 'x.a']);
+      expect(deleted).toBe(1);
+      expect(size - instance.size).toBe(deleted);
+    });
+
+    it('should not notify the deletions of expired entries only', () => {
+      const instance = create();
+      const observer = vi.fn();
+      instance.observe(observer);
+
+      instance.deleteMatching({ prefix: 'x.' });
+      instance.deleteWhere((value: string): boolean => value === '1');
+      expect(observer).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should support absolute deadlines', () => {
+    const instance = new TestClass();
+
+    instance
+      .append('a', 'a1', { expiresAt: 1500 })
+      .append('b', 'b1', { expiresAt: new Date(2000) });
+
+    now = 1500;
+    expect(Array.from(instance.keys())).toEqual(['b']);
+    now = 2000;
+    expect(instance.size).toBe(0);
+  });
+
+  it('should set an entry with a lifetime', () => {
+    const instance = new TestClass([
+      ['a', 'a1'],
+      ['b', 'b1'],
+    ]);
+
+    instance.set('a', 'a2', { ttl: 100, keepPosition: true });
+    expect(Array.from(instance)).toEqual([
+      ['a', 'a2'],
+      ['b', 'b1'],
+    ]);
+
+    now = 1100;
+    expect(instance.has('a')).toBe(false);
+    instance.set('a', 'a3');
+    expect(instance.get('a')).toBe('a3');
+  });
+
+  it('should reject invalid lifetimes', () => {
+    const instance = new TestClass();
+
+    expect(() => instance.append('a', 'a1', { ttl: Number.NaN })).toThrow(RangeError);
+    expect(() => instance.set('a', 'a1', { expiresAt: new Date(Number.NaN) })).toThrow(
+      'Invalid expiry',
+    );
+    expect(instance.size).toBe(0);
+  });
+
+  it('should prune the expired entries', () => {
+    const spy = vi.fn();
+    const instance = new TestClass();
+
+    instance.append('a', 'a1', { ttl: 100 }).append('b', 'b1').append('c', 'c1', { ttl: 100 });
+    instance.observe(spy);
+    expect(instance.prune()).toBe(0);
+
+    now = 1100;
+    expect(instance.prune()).toBe(2);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(spy).toHaveBeenNthCalledWith(1, {
+      type: 'prune',
+      added: [],
+      removed: [
+        { key: 'a', value: 'a1', index: 0, expiresAt: 1100 },
+        { key: 'c', value: 'c1', index: 2, expiresAt: 1100 },
+      ],
+      moved: [],
+      size: 1,
+    });
+    expect(instance.prune()).toBe(0);
+
+    // the deadlines are restored with the entries
+    instance.undo();
+    expect(instance.size).toBe(1);
+    now = 1000;
+    expect(instance.size).toBe(3);
+  });
+
+  it('should prune the list before changing positions', () => {
+    const instance = new TestClass();
+
+    instance.append('a', 'a1', { ttl: 100 }).append('b', 'b1').append('c', 'c1');
+
+    now = 1100;
+    instance.insertAt(1, 'd', 'd1').move(0, -1);
+    expect(Array.from(instance)).toEqual([
+      ['d', 'd1'],
+      ['c', 'c1'],
+      ['b', 'b1'],
+    ]);
+    expect(instance.splice(0, 1)).toEqual([['d', 'd1']]);
+    instance.replaceAt(-1, 'e', 'e1');
+    expect(Array.from(instance.keys())).toEqual(['c', 'e']);
+
+    // the pruning is undone with the change it applies to
+    instance.undo();
+    instance.undo();
+    instance.undo();
+    expect(instance.undo()).toBe(true);
+    now = 1000;
+    expect(Array.from(instance.keys())).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should throw if the list is immutable', () => {
+    const instance = new TestClass().makeImmutable();
+
+    expect(() => instance.prune()).toThrow(MappedListImmutableError);
+    expect(() => instance.append('a', 'a1', { ttl: 100 })).toThrow(MappedListImmutableError);
+  });
+});
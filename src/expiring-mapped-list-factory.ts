@@ -0,0 +1,38 @@
+import {
+  type ExpiringMappedListConstructor,
+  type MappedListClock,
+} from './expiring-mapped-list.js';
+import { mappedListFactory, type MappedListFactoryOptions } from './parameter-list-factory.js';
+
+/* TYPES */
+
+export interface ExpiringMappedListFactoryOptions<GValue> extends MappedListFactoryOptions<GValue> {
+  /**
+   * The clock measuring the lifetime of the entries (ex: a fake clock in the tests).
+   * Defaults to `Date.now`.
+   */
+  readonly clock?: MappedListClock;
+}
+
+/* FACTORY */
+
+/**
+ * Creates a `MappedList` class whose entries may expire (see `ExpiringMappedList`).
+ * The time is only read from the `clock`: no timer is involved.
+ *
+ * @example
+ * const AltSvcList = expiringMappedListFactory<string>();
+ *
+ * const altSvc = new AltSvcList();
+ * altSvc.append('h3', ':443', { ttl: 86_400_000 });
+ * altSvc.get('h3'); // ':443', for a day
+ */
+export function expiringMappedListFactory<GValue>({
+  clock = Date.now,
+  ...options
+}: ExpiringMappedListFactoryOptions<GValue> = {}): ExpiringMappedListConstructor<GValue> {
+  return mappedListFactory<GValue>({
+    ...options,
+    clock,
+  }) as ExpiringMappedListConstructor<GValue>;
+}
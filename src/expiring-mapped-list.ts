@@ -0,0 +1,85 @@
+import { type MappedListGroupedInit, type MappedListInit } from './mapped-list-constructor.js';
+import { type MappedList, type MappedListSetOptions } from './mapped-list.js';
+
+/* TYPES */
+
+/**
+ * Returns the current time, in milliseconds (ex: `Date.now`).
+ */
+export interface MappedListClock {
+  (): number;
+}
+
+/**
+ * The lifetime of an entry: either a `ttl`, or an absolute `expiresAt` deadline.
+ * The entry expires once the clock of the list reaches its deadline.
+ */
+export interface MappedListExpiry {
+  /**
+   * The time to live of the entry, in milliseconds from now.
+   */
+  readonly ttl?: number;
+  /**
+   * The time at which the entry expires, measured like the clock of the list (ignored if `ttl` is set).
+   */
+  readonly expiresAt?: number | Date;
+}
+
+export interface ExpiringMappedListSetOptions extends MappedListSetOptions, MappedListExpiry {}
+
+/* CLASS */
+
+/**
+ * A `MappedList` whose entries may expire: the expired entries are invisible to the read operations
+ * (ex: `.get()`, `.has()`, `.size` and the iterators), until they are removed by `.prune()`.
+ *
+ * The entries added without an expiry (ex: by the constructor or `.merge()`) never expire.
+ * The mutations changing the entries at some positions (`.insertAt()`, `.replaceAt()`, `.move()` and `.splice()`)
+ * prune the list first, so that the positions only count the visible entries.
+ * The other mutations ignore the expiry: the expired entries still count towards the limits of the list
+ * (ex: its `capacity`), and in the positions reported to the observers, until they are pruned.
+ *
+ * @template GValue The type of the values stored in the mapped list.
+ */
+export interface ExpiringMappedList<GValue> extends MappedList<GValue> {
+  /**
+   * Appends a specified key/value pair in this list, with an optional lifetime.
+   *
+   * @param {string} key - The key to add to the list.
+   * @param {GValue} value - The value associated with this key.
+   * @param {MappedListExpiry} [expiry] - Optional. The lifetime of the entry. By default, it never expires.
+   * @return {this} The current instance for method chaining.
+   */
+  append(key: string, value: GValue, expiry?: MappedListExpiry): this;
+
+  /**
+   * Like `MappedList.set`, with an optional lifetime for the new entry.
+   *
+   * @param {string} key - The key to set the value with.
+   * @param {GValue} value - The value associated with this key.
+   * @param {ExpiringMappedListSetOptions} [options] - Optional. The options of `MappedList.set`, and the lifetime of the entry.
+   * @return {this} The current instance for method chaining.
+   */
+  set(key: string, value: GValue, options?: ExpiringMappedListSetOptions): this;
+
+  /**
+   * Removes the expired entries from this list.
+   *
+   * @return {number} The number of entries removed as a result of the operation.
+   */
+  prune(): number;
+}
+
+/* CONSTRUCTOR */
+
+export interface ExpiringMappedListConstructor<GValue> {
+  new (init?: MappedListInit<GValue>): ExpiringMappedList<GValue>;
+
+  /**
+   * Like `MappedListConstructor.fromGrouped`.
+   */
+  fromGrouped<GInstance>(
+    this: new (init: MappedListInit<GValue>) => GInstance,
+    grouped: MappedListGroupedInit<GValue>,
+  ): GInstance;
+}
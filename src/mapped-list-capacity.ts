@@ -0,0 +1,55 @@
+/* TYPES */
+
+/**
+ * A limit on the capacity of a list:
+ * - `maxEntries`: the number of entries
+ * - `maxEntriesPerKey`: the number of entries of a single key
+ * - `maxSize`: the total size of the entries, measured by the `sizer`
+ */
+export type MappedListCapacityLimit = 'maxEntries' | 'maxEntriesPerKey' | 'maxSize';
+
+/**
+ * Defines what happens when a mutation would exceed the capacity of a list:
+ * - `reject`: the mutation throws a `MappedListCapacityError`, and the list is left unchanged
+ * - `evictOldest`: the first entries of the list are removed to make room (for `maxEntriesPerKey`, the first entries of the key)
+ * - `evictOldestOfKey`: the first entries sharing a key with the new entries are removed to make room
+ *
+ * The entries are evicted in list order: the oldest ones come first, unless the list was reordered (ex: by `.sort()`).
+ * The new entries are never evicted: if they exceed the capacity by themselves,
+ * or if there are not enough entries to evict, the mutation throws a `MappedListCapacityError`.
+ */
+export type MappedListOverflow = 'reject' | 'evictOldest' | 'evictOldestOfKey';
+
+/**
+ * Returns the size of an entry (ex: its number of bytes).
+ */
+export interface MappedListSizer<GValue> {
+  (key: string, value: GValue): number;
+}
+
+/**
+ * The limits of a list, enforced by all the mutations, and by the constructor while it consumes its input.
+ */
+export interface MappedListCapacity<GValue> {
+  /**
+   * The maximum number of entries.
+   */
+  readonly maxEntries?: number;
+  /**
+   * The maximum number of entries of any key (after `validateKey`).
+   */
+  readonly maxEntriesPerKey?: number;
+  /**
+   * The maximum sum of the sizes of the entries, measured by `sizer`.
+   */
+  readonly maxSize?: number;
+  /**
+   * The function measuring the size of an entry, called once per entry with its key (after `validateKey`) and value.
+   * Defaults to the length of the key, plus the length of the value converted to a string.
+   */
+  readonly sizer?: MappedListSizer<GValue>;
+  /**
+   * Defaults to `reject`.
+   */
+  readonly overflow?: MappedListOverflow;
+}
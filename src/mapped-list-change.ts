@@ -0,0 +1,92 @@
+/* TYPES */
+
+export type MappedListChangeType =
+  | 'append'
+  | 'delete'
+  | 'set'
+  | 'clear'
+  | 'sort'
+  | 'insertAt'
+  | 'replaceAt'
+  | 'move'
+  | 'splice'
+  | 'merge'
+  | 'appendAll'
+  | 'setAll'
+  | 'deleteWhere'
+  | 'retainWhere'
+  | 'deleteKeys'
+  | 'deleteMatching'
+  | 'extractMatching'
+  | 'evict'
+  | 'prune'
+  | 'undo'
+  | 'redo';
+
+/**
+ * An entry added to or removed from a list.
+ */
+export interface MappedListChangedEntry<GValue> {
+  readonly key: string;
+  readonly value: GValue;
+  /**
+   * The position of the entry: after the change for added entries, before the change for removed entries.
+   */
+  readonly index: number;
+  /**
+   * The key as supplied, if the list preserves the raw keys and it differs from `key`.
+   */
+  readonly rawKey?: string;
+  /**
+   * The deadline of the entry, if it expires (see `ExpiringMappedList`).
+   */
+  readonly expiresAt?: number;
+}
+
+/**
+ * An entry whose position changed in a list.
+ */
+export interface MappedListMovedEntry<GValue> {
+  readonly key: string;
+  readonly value: GValue;
+  readonly from: number;
+  readonly to: number;
+}
+
+/**
+ * Describes a change applied to a list.
+ *
+ * @template GValue The type of the values stored in the mapped list.
+ */
+export interface MappedListChange<GValue> {
+  /**
+   * The kind of change, named after the method that applied it.
+   */
+  readonly type: MappedListChangeType;
+  /**
+   * The entries added to the list, ordered by position.
+   */
+  readonly added: readonly MappedListChangedEntry<GValue>[];
+  /**
+   * The entries removed from the list, ordered by position.
+   */
+  readonly removed: readonly MappedListChangedEntry<GValue>[];
+  /**
+   * The entries whose position changed, ordered by their new position.
+   */
+  readonly moved: readonly MappedListMovedEntry<GValue>[];
+  /**
+   * The size of the list after the change.
+   */
+  readonly size: number;
+}
+
+/* OBSERVER */
+
+export interface MappedListObserver<GValue> {
+  (change: MappedListChange<GValue>): void;
+}
+
+export interface MappedListUnobserve {
+  (): void;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  booleanCodec,
+  commaSeparatedCodec,
+  dateCodec,
+  jsonCodec,
+  numberCodec,
+} from './mapped-list-codecs.js';
+
+describe('numberCodec', () => {
+  it.each([
+    ['1', 1],
+    [' -1.5 ', -1.5],
+    ['0xff', 255],
+    ['1e3', 1000],
+  ])('should decode %j', (input: string, expected: number) => {
+    expect(numberCodec.decode(input)).toBe(expected);
+  });
+
+  it.each(['', ' ', 'a', '1a', 'NaN', 'Infinity'])('should reject %j', (input: string) => {
+    expect(() => numberCodec.decode(input)).toThrow(TypeError);
+  });
+
+  it('should encode finite numbers only', () => {
+    expect(numberCodec.encode(-1.5)).toBe('-1.5');
+    expect(() => numberCodec.encode(Number.NaN)).toThrow(TypeError);
+    expect(() => numberCodec.encode(Number.POSITIVE_INFINITY)).toThrow(TypeError);
+  });
+});
+
+describe('booleanCodec', () => {
+  it('should decode booleans', () => {
+    expect(booleanCodec.decode('true')).toBe(true);
+    expect(booleanCodec.decode('TRUE')).toBe(true);
+    expect(booleanCodec.decode('1')).toBe(true);
+    expect(booleanCodec.decode('false')).toBe(false);
+    expect(booleanCodec.decode('0')).toBe(false);
+    expect(() => booleanCodec.decode('yes')).toThrow(TypeError);
+  });
+
+  it('should encode booleans', () => {
+    expect(booleanCodec.encode(true)).toBe('true');
+    expect(booleanCodec.encode(false)).toBe('false');
+  });
+});
+
+describe('dateCodec', () => {
+  it('should decode dates', () => {
+    expect(dateCodec.decode('2024-01-02T03:04:05.000Z').getTime()).toBe(
+      Date.UTC(2024, 0, 2, 3, 4, 5),
+    );
+    expect(dateCodec.decode('Tue, 02 Jan 2024 03:04:05 GMT').getTime()).toBe(
+      Date.UTC(2024, 0, 2, 3, 4, 5),
+    );
+    expect(() => dateCodec.decode('tomorrow')).toThrow(TypeError);
+  });
+
+  it('should encode dates in ISO 8601', () => {
+    expect(dateCodec.encode(new Date(Date.UTC(2024, 0, 2)))).toBe('2024-01-02T00:00:00.000Z');
+    expect(() => dateCodec.encode(new Date(Number.NaN))).toThrow(TypeError);
+  });
+});
+
+describe('jsonCodec', () => {
+  it('should decode and encode JSON values', () => {
+    expect(jsonCodec.decode('{"a":[1]}')).toEqual({ a: [1] });
+    expect(() => jsonCodec.decode('{')).toThrow(SyntaxError);
+    expect(jsonCodec.encode({ a: [1] })).toBe('{"a":[1]}');
+    expect(() => jsonCodec.encode(undefined)).toThrow(TypeError);
+  });
+});
+
+describe('commaSeparatedCodec', () => {
+  it('should decode and encode comma-separated lists', () => {
+    expect(commaSeparatedCodec.decode(' a, b,,c ')).toEqual(['a', 'b', 'c']);
+    expect(commaSeparatedCodec.decode('')).toEqual([]);
+    expect(commaSeparatedCodec.encode(['a', 'b'])).toBe('a, b');
+  });
+
+  it('should only encode the items that decode back to themselves', () => {
+    const items: string[] = ['a', 'b c', 'd'];
+
+    expect(commaSeparatedCodec.decode(commaSeparatedCodec.encode(items))).toEqual(items);
+    expect(() => commaSeparatedCodec.encode(['a,b'])).toThrow(TypeError);
+    expect(() => commaSeparatedCodec.encode([' a'])).toThrow(TypeError);
+    expect(() => commaSeparatedCodec.encode(['a', ''])).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,148 @@
+/* TYPES */
+
+/**
+ * Converts the string values of a list to typed values, and back.
+ * Both functions throw if they receive an invalid value.
+ *
+ * @template GValue The type of the decoded values.
+ */
+export interface MappedListCodec<GValue> {
+  /**
+   * The name of the decoded type (ex: `number`), used in the error messages.
+   */
+  readonly name: string;
+  decode(value: string): GValue;
+  encode(value: GValue): string;
+}
+
+/**
+ * The type of the values decoded by `GCodec`.
+ */
+export type MappedListCodecValue<GCodec> =
+  GCodec extends MappedListCodec<infer GValue> ? GValue : never;
+
+/* CODECS */
+
+/**
+ * Decodes finite numbers written in decimal (ex: `-1.5`), hexadecimal (ex: `0xff`) or exponent (ex: `1e3`) notation.
+ * Unlike `Number(value)`, empty strings are rejected.
+ */
+export const numberCodec: MappedListCodec<number> = {
+  name: 'number',
+  decode: (value: string): number => {
+    const number: number = value.trim() === '' ? Number.NaN : Number(value);
+
+    if (!Number.isFinite(number)) {
+      throw new TypeError(`Invalid number: ${value}`);
+    }
+
+    return number;
+  },
+  encode: (value: number): string => {
+    if (!Number.isFinite(value)) {
+      throw new TypeError(`Invalid number: ${value}`);
+    }
+
+    return String(value);
+  },
+};
+
+/**
+ * Decodes `true`/`1` and `false`/`0` (case-insensitive), and encodes `true` and `false`.
+ */
+export const booleanCodec: MappedListCodec<boolean> = {
+  name: 'boolean',
+  decode: (value: string): boolean => {
+    switch (value.toLowerCase()) {
+      case 'true':
+      case '1':
+        return true;
+      case 'false':
+      case '0':
+        return false;
+      default:
+        throw new TypeError(`Invalid boolean: ${value}`);
+    }
+  },
+  encode: (value: boolean): string => {
+    return value ? 'true' : 'false';
+  },
+};
+
+/**
+ * Decodes the dates supported by `Date.parse` (ex: ISO 8601, or the HTTP date format), and encodes them in ISO 8601.
+ */
+export const dateCodec: MappedListCodec<Date> = {
+  name: 'date',
+  decode: (value: string): Date => {
+    const time: number = Date.parse(value);
+
+    if (Number.isNaN(time)) {
+      throw new TypeError(`Invalid date: ${value}`);
+    }
+
+    return new Date(time);
+  },
+  encode: (value: Date): string => {
+    if (Number.isNaN(value.getTime())) {
+      throw new TypeError('Invalid date');
+    }
+
+    return value.toISOString();
+  },
+};
+
+/**
+ * Decodes and encodes JSON values.
+ */
+export const jsonCodec: MappedListCodec<unknown> = {
+  name: 'json',
+  decode: (value: string): unknown => {
+    return JSON.parse(value);
+  },
+  encode: (value: unknown): string => {
+    const json: string | undefined = JSON.stringify(value);
+
+    if (json === undefined) {
+      throw new TypeError(`Invalid JSON value: ${String(value)}`);
+    }
+
+    return json;
+  },
+};
+
+/**
+ * Decodes comma-separated lists (ex: `a, b,c`), ignoring the whitespace around the items and the empty items.
+ * The items that wouldn't decode back to themselves (empty, containing a comma, or surrounded by whitespace) can't be encoded.
+ */
+export const commaSeparatedCodec: MappedListCodec<string[]> = {
+  name: 'comma-separated list',
+  decode: (value: string): string[] => {
+    return value
+      .split(',')
+      .map((item: string): string => item.trim())
+      .filter((item: string): boolean => item !== '');
+  },
+  encode: (value: readonly string[]): string => {
+    for (const item of value) {
+      if (item === '' || item.includes(',') || item.trim() !== item) {
+        throw new TypeError(`Invalid list item: ${JSON.stringify(item)}`);
+      }
+    }
+
+    return value.join(', ');
+  },
+};
+
+/**
+ * The codecs available in every list created by `codecMappedListFactory`.
+ */
+export const DEFAULT_MAPPED_LIST_CODECS = {
+  number: numberCodec,
+  boolean: booleanCodec,
+  date: dateCodec,
+  json: jsonCodec,
+  list: commaSeparatedCodec,
+} as const;
+
+export type MappedListDefaultCodecs = typeof DEFAULT_MAPPED_LIST_CODECS;
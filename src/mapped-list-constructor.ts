@@ -4,8 +4,26 @@ import { type MappedList, type MappedListTuple } from './mapped-list.js';
 
 export type MappedListInit<GValue> = Iterable<MappedListTuple<GValue>> | Record<string, GValue>;
 
+/**
+ * The values of a list grouped by key (ex: `{ a: [1, 2] }`, or a `Map<string, GValue[]>`).
+ */
+export type MappedListGroupedInit<GValue> =
+  Iterable<readonly [key: string, values: readonly GValue[]]> | Record<string, readonly GValue[]>;
+
 /* CONSTRUCTOR */
 
 export interface MappedListConstructor<GValue> {
   new (init?: MappedListInit<GValue>): MappedList<GValue>;
+
+  /**
+   * Creates a list from values grouped by key: each value becomes an entry (ex: `{ a: [1, 2] }` gives `a=1` and `a=2`).
+   * The entries follow the order of the groups, then the order of the values within each group.
+   *
+   * @param {MappedListGroupedInit<GValue>} grouped - The values grouped by key.
+   * @return {GInstance} The new list.
+   */
+  fromGrouped<GInstance>(
+    this: new (init: MappedListInit<GValue>) => GInstance,
+    grouped: MappedListGroupedInit<GValue>,
+  ): GInstance;
 }
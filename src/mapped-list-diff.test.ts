@@ -0,0 +1,262 @@
+import { describe, expect, it } from 'vitest';
+import { applyMappedListPatch, diffMappedLists, type MappedListPatch } from './mapped-list-diff.js';
+import { MappedListPatchConflictError } from './mapped-list-errors.js';
+import { type MappedListTuple } from './mapped-list.js';
+import { mappedListFactory } from './parameter-list-factory.js';
+import { deepEqual } from './value-equality.js';
+
+const TestClass = mappedListFactory<string>();
+
+function roundTrip(
+  a: readonly MappedListTuple<string>[],
+  b: readonly MappedListTuple<string>[],
+  ordered: boolean,
+): MappedListPatch<string> {
+  const patch: MappedListPatch<string> = diffMappedLists(new TestClass(a), new TestClass(b), {
+    ordered,
+  });
+  const patched = applyMappedListPatch(
+    new TestClass(a),
+    JSON.parse(JSON.stringify(patch)) as MappedListPatch<string>,
+  );
+
+  expect(Array.from(patched.entries())).toEqual(b);
+
+  return patch;
+}
+
+/**
+ * Deterministic pseudo-random generator (mulberry32).
+ */
+function random(seed: number): () => number {
+  return (): number => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t: number = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomEntries(next: () => number): MappedListTuple<string>[] {
+  return Array.from({ length: Math.floor(next() * 8) }, (): MappedListTuple<string> => [
+    'abc'[Math.floor(next() * 3)],
+    String(Math.floor(next() * 3)),
+  ]);
+}
+
+describe('diffMappedLists', () => {
+  describe('ordered', () => {
+    it('should return an empty patch for equal lists', () => {
+      expect(
+        roundTrip(
+          [
+            ['a', '1'],
+            ['b', '2'],
+          ],
+          [
+            ['a', '1'],
+            ['b', '2'],
+          ],
+          true,
+        ),
+      ).toEqual([]);
+    });
+
+    it('should report insertions, removals and replacements', () => {
+      expect(
+        roundTrip(
+          [
+            ['a', '1'],
+            ['b', '2'],
+            ['c', '3'],
+            ['d', '4'],
+          ],
+          [
+            ['a', '1'],
+            ['b', '5'],
+            ['e', '6'],
+            ['d', '4'],
+            ['f', '7'],
+          ],
+          true,
+        ),
+      ).toEqual([
+        { op: 'replace', index: 1, key: 'b', value: '5' },
+        { op: 'remove', index: 2, key: 'c', value: '3' },
+        { op: 'insert', index: 2, key: 'e', value: '6' },
+        { op: 'insert', index: 4, key: 'f', value: '7' },
+      ]);
+    });
+
+    it('should handle multiple values per key', () => {
+      expect(
+        roundTrip(
+          [
+            ['a', '1'],
+            ['a', '2'],
+          ],
+          [
+            ['a', '2'],
+            ['a', '1'],
+            ['a', '1'],
+          ],
+          true,
+        ),
+      ).toEqual([
+        { op: 'remove', index: 0, key: 'a', value: '1' },
+        { op: 'insert', index: 1, key: 'a', value: '1' },
+        { op: 'insert', index: 2, key: 'a', value: '1' },
+      ]);
+    });
+
+    it('should not compute the longest common subsequence of large lists', () => {
+      const entries = (length: number): MappedListTuple<string>[] =>
+        Array.from({ length }, (_: unknown, i: number): MappedListTuple<string> => [`k${i}`, 'v']);
+      const surround = (middle: MappedListTuple<string>[]): MappedListTuple<string>[] => [
+        ['first', 'v'],
+        ...middle,
+        ['last', 'v'],
+      ];
+
+      expect(roundTrip(entries(100), surround(entries(100)), true)).toHaveLength(2);
+
+      // the entries between the common prefix and suffix are removed and inserted again
+      expect(roundTrip(entries(3000), surround(entries(3000)), true)).toHaveLength(6002);
+    });
+  });
+
+  describe('unordered', () => {
+    it('should report moved entries', () => {
+      expect(
+        roundTrip(
+          [
+            ['a', '1'],
+            ['b', '2'],
+            ['c', '3'],
+            ['d', '4'],
+          ],
+          [
+            ['b', '2'],
+            ['c', '3'],
+            ['d', '4'],
+            ['a', '1'],
+          ],
+          false,
+        ),
+      ).toEqual([{ op: 'move', from: 0, to: 3, key: 'a', value: '1' }]);
+    });
+
+    it('should report insertions, removals and replacements', () => {
+      expect(
+        roundTrip(
+          [
+            ['a', '1'],
+            ['b', '2'],
+            ['c', '3'],
+          ],
+          [
+            ['c', '3'],
+            ['b', '5'],
+            ['d', '4'],
+          ],
+          false,
+        ),
+      ).toEqual([
+        { op: 'remove', index: 0, key: 'a', value: '1' },
+        { op: 'replace', index: 0, key: 'b', value: '5' },
+        { op: 'move', from: 0, to: 1, key: 'b', value: '5' },
+        { op: 'insert', index: 2, key: 'd', value: '4' },
+      ]);
+    });
+
+    it('should match the values of a key regardless of their order', () => {
+      expect(
+        roundTrip(
+          [
+            ['a', '1'],
+            ['a', '2'],
+            ['a', '3'],
+          ],
+          [
+            ['a', '3'],
+            ['a', '1'],
+            ['a', '2'],
+          ],
+          false,
+        ),
+      ).toEqual([{ op: 'move', from: 2, to: 0, key: 'a', value: '3' }]);
+    });
+  });
+
+  it('should use the equals option', () => {
+    const TestObjectClass = mappedListFactory<object>();
+
+    expect(
+      diffMappedLists(
+        new TestObjectClass([['a', { id: 1 }]]),
+        new TestObjectClass([['a', { id: 1 }]]),
+        {
+          equals: deepEqual,
+        },
+      ),
+    ).toEqual([]);
+    expect(
+      diffMappedLists(
+        new TestObjectClass([['a', { id: 1 }]]),
+        new TestObjectClass([['a', { id: 1 }]]),
+      ),
+    ).toEqual([{ op: 'replace', index: 0, key: 'a', value: { id: 1 } }]);
+  });
+
+  it('should always reproduce the updated list', () => {
+    const next: () => number = random(42);
+
+    for (let i: number = 0; i < 500; i++) {
+      const a: MappedListTuple<string>[] = randomEntries(next);
+      const b: MappedListTuple<string>[] = randomEntries(next);
+
+      roundTrip(a, b, true);
+      roundTrip(a, b, false);
+    }
+  });
+});
+
+describe('applyMappedListPatch', () => {
+  it('should validate the entries', () => {
+    const instance = new (mappedListFactory<string>({
+      validateKey: (key: string): string => key.toLowerCase(),
+    }))();
+
+    applyMappedListPatch(instance, [{ op: 'insert', index: 0, key: 'A', value: '1' }]);
+    expect(Array.from(instance)).toEqual([['a', '1']]);
+  });
+
+  it('should throw on conflicts', () => {
+    const instance = new TestClass([['a', '1']]);
+
+    expect(() =>
+      applyMappedListPatch(instance, [{ op: 'remove', index: 0, key: 'b', value: '1' }]),
+    ).toThrow(
+      expect.objectContaining({
+        constructor: MappedListPatchConflictError,
+        message: 'Conflict: expected b at 0',
+        index: 0,
+        key: 'b',
+        entry: ['a', '1'],
+      }),
+    );
+    expect(() =>
+      applyMappedListPatch(instance, [{ op: 'replace', index: 1, key: 'a', value: '2' }]),
+    ).toThrow(
+      expect.objectContaining({
+        constructor: MappedListPatchConflictError,
+        index: 1,
+        key: 'a',
+        entry: undefined,
+      }),
+    );
+    expect(() =>
+      applyMappedListPatch(instance, [{ op: 'move', from: 0, to: 0, key: 'b', value: '1' }]),
+    ).toThrow(MappedListPatchConflictError);
+  });
+});
@@ -0,0 +1,386 @@
+import { MappedListPatchConflictError } from './mapped-list-errors.js';
+import { type MappedList, type MappedListTuple } from './mapped-list.js';
+import { type MappedListEquals } from './parameter-list-factory.js';
+import { type ReadonlyMappedList } from './readonly-mapped-list.js';
+import { strictEqual } from './value-equality.js';
+
+/* TYPES */
+
+export interface MappedListInsertOperation<GValue> {
+  readonly op: 'insert';
+  readonly index: number;
+  readonly key: string;
+  readonly value: GValue;
+}
+
+export interface MappedListRemoveOperation<GValue> {
+  readonly op: 'remove';
+  readonly index: number;
+  readonly key: string;
+  readonly value: GValue;
+}
+
+/**
+ * Replaces the value of the entry at `index`, keeping its key.
+ */
+export interface MappedListReplaceOperation<GValue> {
+  readonly op: 'replace';
+  readonly index: number;
+  readonly key: string;
+  readonly value: GValue;
+}
+
+export interface MappedListMoveOperation<GValue> {
+  readonly op: 'move';
+  readonly from: number;
+  readonly to: number;
+  readonly key: string;
+  readonly value: GValue;
+}
+
+export type MappedListPatchOperation<GValue> =
+  | MappedListInsertOperation<GValue>
+  | MappedListRemoveOperation<GValue>
+  | MappedListReplaceOperation<GValue>
+  | MappedListMoveOperation<GValue>;
+
+/**
+ * A list of operations to apply in order.
+ * The positions of an operation refer to the list as left by the previous operations.
+ *
+ * A patch is a plain array of plain objects: it may be serialized (ex: with `JSON.stringify`) if its values can be.
+ */
+export type MappedListPatch<GValue> = readonly MappedListPatchOperation<GValue>[];
+
+export interface MappedListDiffOptions<GValue> {
+  /**
+   * When `true` (default), the entries are compared by position: an entry that changed position is removed and inserted again.
+   * When `false`, the entries are matched regardless of their position: an entry that changed position is moved.
+   *
+   * In both modes, applying the patch reproduces the order of the entries of `b`.
+   */
+  readonly ordered?: boolean;
+  /**
+   * The function used to compare values. Defaults to strict equality (`===`).
+   */
+  readonly equals?: MappedListEquals<GValue>;
+}
+
+/* DIFF */
+
+/**
+ * Computes the operations transforming the list `a` into the list `b`.
+ * Applying the returned patch to a copy of `a` (see `applyMappedListPatch`) gives a list with the same entries as `b`, in the same order.
+ *
+ * @param {ReadonlyMappedList<GValue>} a - The original list.
+ * @param {ReadonlyMappedList<GValue>} b - The updated list.
+ * @param {MappedListDiffOptions<GValue>} [options] - Optional. How the entries are compared.
+ * @return {MappedListPatch<GValue>} The patch transforming `a` into `b`.
+ */
+export function diffMappedLists<GValue>(
+  a: ReadonlyMappedList<GValue>,
+  b: ReadonlyMappedList<GValue>,
+  { ordered = true, equals = strictEqual }: MappedListDiffOptions<GValue> = {},
+): MappedListPatch<GValue> {
+  const entriesA: readonly MappedListTuple<GValue>[] = Array.from(a);
+  const entriesB: readonly MappedListTuple<GValue>[] = Array.from(b);
+  const equalEntries = (
+    [keyA, valueA]: MappedListTuple<GValue>,
+    [keyB, valueB]: MappedListTuple<GValue>,
+  ): boolean => keyA === keyB && equals(valueA, valueB);
+
+  return ordered
+    ? diffOrdered(entriesA, entriesB, equalEntries)
+    : diffUnordered(entriesA, entriesB, equalEntries);
+}
+
+// the maximum number of cells of the table of the longest common subsequence (16 MB)
+const MAX_LCS_TABLE_SIZE: number = 4 * 1024 * 1024;
+
+/**
+ * Diffs by position: the entries of the longest common subsequence are kept,
+ * and the others are replaced, removed or inserted.
+ * Above `MAX_LCS_TABLE_SIZE`, the subsequence is not computed: all the entries between the common prefix and suffix
+ * are replaced, removed or inserted (the patch is still valid, but not minimal).
+ */
+function diffOrdered<GValue>(
+  a: readonly MappedListTuple<GValue>[],
+  b: readonly MappedListTuple<GValue>[],
+  equalEntries: (a: MappedListTuple<GValue>, b: MappedListTuple<GValue>) => boolean,
+): MappedListPatchOperation<GValue>[] {
+  // the common prefix and suffix are excluded from the (quadratic) longest common subsequence
+  let start: number = 0;
+
+  while (start < a.length && start < b.length && equalEntries(a[start], b[start])) {
+    start++;
+  }
+
+  let endA: number = a.length;
+  let endB: number = b.length;
+
+  while (endA > start && endB > start && equalEntries(a[endA - 1], b[endB - 1])) {
+    endA--;
+    endB--;
+  }
+
+  const rows: number = endA - start;
+  const columns: number = endB - start;
+
+  const operations: MappedListPatchOperation<GValue>[] = [];
+  // the current position in the patched list
+  let index: number = start;
+  let removed: MappedListTuple<GValue>[] = [];
+  let inserted: MappedListTuple<GValue>[] = [];
+
+  const flush = (): void => {
+    for (let k: number = 0; k < Math.max(removed.length, inserted.length); k++) {
+      if (k < removed.length && k < inserted.length && removed[k][0] === inserted[k][0]) {
+        operations.push({ op: 'replace', index, key: inserted[k][0], value: inserted[k][1] });
+        index++;
+      } else {
+        if (k < removed.length) {
+          operations.push({ op: 'remove', index, key: removed[k][0], value: removed[k][1] });
+        }
+
+        if (k < inserted.length) {
+          operations.push({ op: 'insert', index, key: inserted[k][0], value: inserted[k][1] });
+          index++;
+        }
+      }
+    }
+
+    removed = [];
+    inserted = [];
+  };
+
+  if ((rows + 1) * (columns + 1) > MAX_LCS_TABLE_SIZE) {
+    removed = a.slice(start, endA);
+    inserted = b.slice(start, endB);
+    flush();
+
+    return operations;
+  }
+
+  // lengths[i * (columns + 1) + j]: length of the longest common subsequence of a[start + i:endA] and b[start + j:endB]
+  const lengths: Uint32Array = new Uint32Array((rows + 1) * (columns + 1));
+
+  for (let i: number = rows - 1; i >= 0; i--) {
+    for (let j: number = columns - 1; j >= 0; j--) {
+      lengths[i * (columns + 1) + j] = equalEntries(a[start + i], b[start + j])
+        ? lengths[(i + 1) * (columns + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (columns + 1) + j], lengths[i * (columns + 1) + j + 1]);
+    }
+  }
+
+  let i: number = 0;
+  let j: number = 0;
+
+  while (i < rows || j < columns) {
+    if (i < rows && j < columns && equalEntries(a[start + i], b[start + j])) {
+      flush();
+      index++;
+      i++;
+      j++;
+    } else if (
+      j >= columns ||
+      (i < rows && lengths[(i + 1) * (columns + 1) + j] >= lengths[i * (columns + 1) + j + 1])
+    ) {
+      removed.push(a[start + i]);
+      i++;
+    } else {
+      inserted.push(b[start + j]);
+      j++;
+    }
+  }
+
+  flush();
+
+  return operations;
+}
+
+/**
+ * Diffs regardless of position: the entries of `a` are matched with equal entries of `b` (then with entries of `b` having the same key),
+ * the unmatched entries are removed or inserted, and the matched ones are moved to their position in `b`.
+ */
+function diffUnordered<GValue>(
+  a: readonly MappedListTuple<GValue>[],
+  b: readonly MappedListTuple<GValue>[],
+  equalEntries: (a: MappedListTuple<GValue>, b: MappedListTuple<GValue>) => boolean,
+): MappedListPatchOperation<GValue>[] {
+  // matches[i]: the position in `b` of the entry matched with a[i], or -1
+  const matches: number[] = new Array(a.length).fill(-1);
+  // sources[j]: the position in `a` of the entry matched with b[j], or -1
+  const sources: number[] = new Array(b.length).fill(-1);
+
+  // 1) matches the equal entries, then the entries having the same key
+  for (const canMatch of [
+    equalEntries,
+    ([keyA]: MappedListTuple<GValue>, [keyB]: MappedListTuple<GValue>): boolean => keyA === keyB,
+  ]) {
+    const unmatched: Map<string, number[]> = new Map();
+
+    for (let i: number = 0; i < a.length; i++) {
+      if (matches[i] === -1) {
+        const bucket: number[] | undefined = unmatched.get(a[i][0]);
+
+        if (bucket === undefined) {
+          unmatched.set(a[i][0], [i]);
+        } else {
+          bucket.push(i);
+        }
+      }
+    }
+
+    for (let j: number = 0; j < b.length; j++) {
+      if (sources[j] === -1) {
+        const bucket: number[] | undefined = unmatched.get(b[j][0]);
+        const k: number =
+          bucket === undefined
+            ? -1
+            : bucket.findIndex((i: number): boolean => canMatch(a[i], b[j]));
+
+        if (k !== -1) {
+          matches[bucket![k]] = j;
+          sources[j] = bucket![k];
+          bucket!.splice(k, 1);
+        }
+      }
+    }
+  }
+
+  const operations: MappedListPatchOperation<GValue>[] = [];
+
+  // 2) removes the unmatched entries, from the last one (so the positions are those of `a`)
+  for (let i: number = a.length - 1; i >= 0; i--) {
+    if (matches[i] === -1) {
+      operations.push({ op: 'remove', index: i, key: a[i][0], value: a[i][1] });
+    }
+  }
+
+  // `current[k]`: the position in `b` of the k-th remaining entry
+  const current: number[] = matches.filter((j: number): boolean => j !== -1);
+
+  // 3) replaces the values of the entries matched by key only
+  for (let k: number = 0; k < current.length; k++) {
+    const j: number = current[k];
+
+    if (!equalEntries(a[sources[j]], b[j])) {
+      operations.push({ op: 'replace', index: k, key: b[j][0], value: b[j][1] });
+    }
+  }
+
+  // 4) moves the entries out of the longest increasing subsequence after their predecessor in `b`
+  const stable: Set<number> = longestIncreasingSubsequence(current);
+  const sorted: number[] = current.slice().sort((x: number, y: number): number => x - y);
+
+  for (let r: number = 0; r < sorted.length; r++) {
+    const j: number = sorted[r];
+
+    if (!stable.has(j)) {
+      const from: number = current.indexOf(j);
+      const predecessor: number = r === 0 ? -1 : current.indexOf(sorted[r - 1]);
+      const to: number = from > predecessor ? predecessor + 1 : predecessor;
+
+      if (from !== to) {
+        current.splice(from, 1);
+        current.splice(to, 0, j);
+        operations.push({ op: 'move', from, to, key: b[j][0], value: b[j][1] });
+      }
+
+      stable.add(j);
+    }
+  }
+
+  // 5) inserts the unmatched entries of `b`, in order
+  for (let j: number = 0; j < b.length; j++) {
+    if (sources[j] === -1) {
+      operations.push({ op: 'insert', index: j, key: b[j][0], value: b[j][1] });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Returns the values of a longest strictly increasing subsequence of `values`.
+ */
+function longestIncreasingSubsequence(values: readonly number[]): Set<number> {
+  // tails[k]: the position in `values` of the smallest tail of an increasing subsequence of length k + 1
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length);
+
+  for (let i: number = 0; i < values.length; i++) {
+    let low: number = 0;
+    let high: number = tails.length;
+
+    while (low < high) {
+      const middle: number = (low + high) >>> 1;
+
+      if (values[tails[middle]] < values[i]) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  }
+
+  const output: Set<number> = new Set();
+
+  for (let i: number = tails.length > 0 ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) {
+    output.add(values[i]);
+  }
+
+  return output;
+}
+
+/* PATCH */
+
+/**
+ * Applies the operations of `patch` to `list`, in order, using its validated mutation methods (`insertAt`, `splice`, `replaceAt` and `move`).
+ *
+ * The operations are not applied atomically: if one fails, the previous ones remain applied.
+ *
+ * @param {GList} list - The list to update.
+ * @param {MappedListPatch<GValue>} patch - The operations to apply.
+ * @return {GList} The updated list.
+ * @throws {MappedListPatchConflictError} If an operation targets an entry whose key differs from the one expected by the patch.
+ */
+export function applyMappedListPatch<GValue, GList extends MappedList<GValue>>(
+  list: GList,
+  patch: MappedListPatch<GValue>,
+): GList {
+  for (let i: number = 0; i < patch.length; i++) {
+    const operation: MappedListPatchOperation<GValue> = patch[i];
+
+    switch (operation.op) {
+      case 'insert':
+        list.insertAt(operation.index, operation.key, operation.value);
+        break;
+      case 'remove':
+        throwIfConflict(list, operation.index, operation.key);
+        list.splice(operation.index, 1);
+        break;
+      case 'replace':
+        throwIfConflict(list, operation.index, operation.key);
+        list.replaceAt(operation.index, operation.key, operation.value);
+        break;
+      case 'move':
+        throwIfConflict(list, operation.from, operation.key);
+        list.move(operation.from, operation.to);
+        break;
+    }
+  }
+
+  return list;
+}
+
+function throwIfConflict<GValue>(list: MappedList<GValue>, index: number, key: string): void {
+  const entry: MappedListTuple<GValue> | undefined = list.at(index);
+
+  if (entry?.[0] !== key) {
+    throw new MappedListPatchConflictError(index, key, entry);
+  }
+}
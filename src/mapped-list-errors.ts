@@ -0,0 +1,231 @@
+import { type MappedListCapacityLimit } from './mapped-list-capacity.js';
+import { type MappedListTuple } from './mapped-list.js';
+
+/* TYPES */
+
+export interface MappedListErrorOptions {
+  /**
+   * The name of the method that failed (ex: `append`).
+   */
+  readonly operation: string;
+  /**
+   * The position given to the method, if any (ex: the index of `insertAt`, or the position of the entry in `splice`).
+   */
+  readonly index?: number;
+  /**
+   * The error thrown by `validateKey` or `validateValue`, if any.
+   */
+  readonly cause?: unknown;
+}
+
+export interface MappedListCapacityErrorOptions extends MappedListErrorOptions {
+  /**
+   * The key exceeding `maxEntriesPerKey`.
+   */
+  readonly key?: string;
+}
+
+/* ERRORS */
+
+/**
+ * Thrown when reading a key that has no entry (ex: by `.get(key)`).
+ */
+export class MappedListMissingKeyError extends Error {
+  readonly key: string;
+  readonly operation: string;
+
+  constructor(key: string, { operation }: MappedListErrorOptions) {
+    super(`Missing: ${key}`);
+    this.name = 'MappedListMissingKeyError';
+    this.key = key;
+    this.operation = operation;
+  }
+}
+
+/**
+ * Thrown when `validateKey` rejects a key: the error it threw is available as `cause`, and gives its message.
+ * It extends `TypeError`, like the errors thrown by the validators of the presets.
+ */
+export class MappedListInvalidKeyError extends TypeError {
+  /**
+   * The key as supplied.
+   */
+  readonly key: string;
+  readonly operation: string;
+  readonly index: number | undefined;
+
+  constructor(key: string, { operation, index, cause }: MappedListErrorOptions) {
+    super(cause instanceof Error ? cause.message : `Invalid key: ${key}`, { cause });
+    this.name = 'MappedListInvalidKeyError';
+    this.key = key;
+    this.operation = operation;
+    this.index = index;
+  }
+}
+
+/**
+ * Thrown when `validateValue` rejects a value: the error it threw is available as `cause`, and gives its message.
+ * It extends `TypeError`, like the errors thrown by the validators of the presets.
+ */
+export class MappedListInvalidValueError extends TypeError {
+  /**
+   * The key of the value (after `validateKey`).
+   */
+  readonly key: string;
+  /**
+   * The value as supplied.
+   */
+  readonly value: unknown;
+  readonly operation: string;
+  readonly index: number | undefined;
+
+  constructor(key: string, value: unknown, { operation, index, cause }: MappedListErrorOptions) {
+    super(cause instanceof Error ? cause.message : `Invalid value: ${key}`, { cause });
+    this.name = 'MappedListInvalidValueError';
+    this.key = key;
+    this.value = value;
+    this.operation = operation;
+    this.index = index;
+  }
+}
+
+/**
+ * Thrown when adding an entry forbidden by the guard of a list (see the `guard` option of the factory).
+ */
+export class MappedListForbiddenKeyError extends Error {
+  readonly key: string;
+  readonly operation: string;
+
+  constructor(key: string, { operation }: MappedListErrorOptions) {
+    super(`Forbidden: ${key}`);
+    this.name = 'MappedListForbiddenKeyError';
+    this.key = key;
+    this.operation = operation;
+  }
+}
+
+/**
+ * Thrown when adding or removing the entries of a locked key (see `.lockKey()`).
+ */
+export class MappedListLockedKeyError extends Error {
+  readonly key: string;
+  readonly operation: string;
+
+  constructor(key: string, { operation }: MappedListErrorOptions) {
+    super(`Locked: ${key}`);
+    this.name = 'MappedListLockedKeyError';
+    this.key = key;
+    this.operation = operation;
+  }
+}
+
+/**
+ * Thrown when mutating an immutable list (see `.makeImmutable()`).
+ */
+export class MappedListImmutableError extends Error {
+  readonly operation: string;
+
+  constructor({ operation }: MappedListErrorOptions) {
+    super(`Immutable: ${operation}`);
+    this.name = 'MappedListImmutableError';
+    this.operation = operation;
+  }
+}
+
+/**
+ * Thrown when calling a method that can't run inside a transaction (ex: `.undo()`), see `.transaction()`.
+ */
+export class MappedListTransactionError extends Error {
+  readonly operation: string;
+
+  constructor({ operation }: MappedListErrorOptions) {
+    super(`Transaction in progress: ${operation}`);
+    this.name = 'MappedListTransactionError';
+    this.operation = operation;
+  }
+}
+
+/**
+ * Thrown when a mutation would exceed the capacity of a list (see the `capacity` option of the factory),
+ * and the overflow policy can't make room.
+ */
+export class MappedListCapacityError extends RangeError {
+  readonly limit: MappedListCapacityLimit;
+  readonly max: number;
+  readonly key: string | undefined;
+  readonly operation: string;
+
+  constructor(
+    limit: MappedListCapacityLimit,
+    max: number,
+    { operation, key }: MappedListCapacityErrorOptions,
+  ) {
+    super(
+      limit === 'maxEntriesPerKey'
+        ? `Too many entries: ${key} (max: ${max})`
+        : limit === 'maxEntries'
+          ? `Too many entries (max: ${max})`
+          : `Too large (max size: ${max})`,
+    );
+    this.name = 'MappedListCapacityError';
+    this.limit = limit;
+    this.max = max;
+    this.key = key;
+    this.operation = operation;
+  }
+}
+
+/**
+ * Thrown by `applyMappedListPatch` when an operation targets an entry whose key differs from the one expected by the patch
+ * (ex: the patch was computed from another version of the list).
+ */
+export class MappedListPatchConflictError extends Error {
+  readonly index: number;
+  /**
+   * The key expected by the patch.
+   */
+  readonly key: string;
+  /**
+   * The entry actually found at `index`, if any.
+   */
+  readonly entry: MappedListTuple<unknown> | undefined;
+
+  constructor(index: number, key: string, entry: MappedListTuple<unknown> | undefined) {
+    super(`Conflict: expected ${key} at ${index}`);
+    this.name = 'MappedListPatchConflictError';
+    this.index = index;
+    this.key = key;
+    this.entry = entry;
+  }
+}
+
+/**
+ * Thrown when a codec fails to decode a value of a list (ex: by `.getNumber(key)`).
+ * The error thrown by the codec is available as `cause`.
+ */
+export class MappedListDecodeError extends TypeError {
+  readonly key: string;
+  /**
+   * The value as stored in the list.
+   */
+  readonly value: string;
+  /**
+   * The name of the codec (ex: `number`).
+   */
+  readonly codec: string;
+  readonly operation: string;
+
+  constructor(
+    key: string,
+    value: string,
+    codec: string,
+    { operation, cause }: MappedListErrorOptions,
+  ) {
+    super(`Invalid ${codec}: ${key}=${JSON.stringify(value)}`, { cause });
+    this.name = 'MappedListDecodeError';
+    this.key = key;
+    this.value = value;
+    this.codec = codec;
+    this.operation = operation;
+  }
+}
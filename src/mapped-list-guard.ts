@@ -0,0 +1,30 @@
+/* TYPES */
+
+/**
+ * Returns `true` if the entry `key`/`value` (after `validateKey` and `validateValue`) is forbidden.
+ */
+export interface MappedListForbiddenKeys<GValue> {
+  (key: string, value: GValue): boolean;
+}
+
+/**
+ * Defines what happens when a mutation adds a forbidden entry:
+ * - `drop`: the entry is silently ignored (like the guards of the Fetch `Headers`)
+ * - `reject`: the mutation throws a `MappedListForbiddenKeyError`, and the list is left unchanged
+ */
+export type MappedListForbiddenAction = 'drop' | 'reject';
+
+/**
+ * The keys that can't be added to a list.
+ * As a guarded list never contains forbidden entries, only the mutations adding entries are concerned.
+ */
+export interface MappedListGuard<GValue> {
+  /**
+   * The forbidden keys (after `validateKey`), or a function selecting the forbidden entries.
+   */
+  readonly forbiddenKeys: ReadonlySet<string> | MappedListForbiddenKeys<GValue>;
+  /**
+   * Defaults to `reject`.
+   */
+  readonly onForbidden?: MappedListForbiddenAction;
+}
@@ -0,0 +1,28 @@
+/* TYPES */
+
+/**
+ * Selects the entries of a list by key:
+ * - `{ prefix }`: the keys starting with `prefix` (ex: `{ prefix: 'filter.' }`)
+ * - `{ glob }`: the keys matching a glob pattern, where `*` matches any sequence of characters,
+ *   and `?` a single character (ex: `{ glob: 'x-amz-meta-*' }`)
+ * - `{ start, end }`: the keys from `start` (inclusive) to `end` (exclusive), in the order of their UTF-16 code units
+ *   (like `compareKeys`). Both bounds are optional.
+ * - a `RegExp`: the keys matching it
+ *
+ * The queries are compared to the keys as stored (after `validateKey`), so they must be normalized the same way (ex: lowercased).
+ */
+export type MappedListKeyQuery =
+  MappedListKeyPrefixQuery | MappedListKeyGlobQuery | MappedListKeyRangeQuery | RegExp;
+
+export interface MappedListKeyPrefixQuery {
+  readonly prefix: string;
+}
+
+export interface MappedListKeyGlobQuery {
+  readonly glob: string;
+}
+
+export interface MappedListKeyRangeQuery {
+  readonly start?: string;
+  readonly end?: string;
+}
@@ -0,0 +1,78 @@
+import { type ReadonlyMappedList } from './readonly-mapped-list.js';
+
+/* TYPES */
+
+/**
+ * The kind of violation:
+ * - `invalid`: an entry was rejected by `validateKey` or `validateValue`
+ * - `min`: a key has fewer entries than allowed
+ * - `max`: a key has more entries than allowed
+ * - `rule`: a rule of the list is not satisfied
+ */
+export type MappedListViolationType = 'invalid' | 'min' | 'max' | 'rule';
+
+/**
+ * Describes a constraint of a list that is not satisfied.
+ */
+export interface MappedListViolation {
+  readonly type: MappedListViolationType;
+  /**
+   * The key concerned by the violation, if any.
+   */
+  readonly key?: string;
+  readonly message: string;
+  /**
+   * The error thrown by `validateKey` or `validateValue`, for `invalid` violations.
+   */
+  readonly cause?: unknown;
+}
+
+/**
+ * The result of `MappedList.validate()`.
+ */
+export interface MappedListValidationReport {
+  /**
+   * `true` if there is no violation.
+   */
+  readonly valid: boolean;
+  readonly violations: readonly MappedListViolation[];
+}
+
+/**
+ * The allowed number of entries for a key.
+ */
+export interface MappedListCardinality {
+  readonly min?: number;
+  readonly max?: number;
+}
+
+/**
+ * A constraint on the whole list (ex: two mutually exclusive keys).
+ * It returns the messages describing the violations, if any.
+ *
+ * @example
+ * function* exclusiveKeys(list: ReadonlyMappedList<string>): Iterable<string> {
+ *   if (list.has('a') && list.has('b')) {
+ *     yield 'Exclusive keys: a, b';
+ *   }
+ * }
+ */
+export interface MappedListRule<GValue> {
+  (list: ReadonlyMappedList<GValue>): Iterable<string>;
+}
+
+/* ERROR */
+
+/**
+ * Thrown when a list does not satisfy its constraints.
+ * It extends `TypeError`, like the errors thrown for invalid keys and values.
+ */
+export class MappedListValidationError extends TypeError {
+  readonly violations: readonly MappedListViolation[];
+
+  constructor(violations: readonly MappedListViolation[]) {
+    super(violations.map((violation: MappedListViolation): string => violation.message).join('\n'));
+    this.name = 'MappedListValidationError';
+    this.violations = violations;
+  }
+}
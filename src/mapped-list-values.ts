@@ -0,0 +1,69 @@
+/* CLASS */
+
+/**
+ * A live collection of the values associated with a key of a `MappedList` (see `MappedList.valuesView`).
+ *
+ * It holds no entry by itself: it reads the current values of the key in the list,
+ * and its mutations are applied to the list (so they are validated, observed, and rejected if the list is immutable).
+ *
+ * @template GValue The type of the values stored in the mapped list.
+ */
+export interface MappedListValues<GValue> extends Iterable<GValue> {
+  /**
+   * The key of the values (after `validateKey`).
+   */
+  readonly key: string;
+
+  /**
+   * Returns the number of values associated with the key.
+   */
+  readonly size: number;
+
+  /**
+   * `true` if the list is immutable, in which case the mutations of this collection throw.
+   */
+  readonly immutable: boolean;
+
+  /**
+   * Checks if the key is associated with the specified value.
+   *
+   * @param {GValue} value - The value to look for.
+   * @return {boolean} Returns true if the list has an entry with the key and this value, otherwise false.
+   */
+  has(value: GValue): boolean;
+
+  /**
+   * Appends an entry with the key and the specified value to the list.
+   *
+   * @param {GValue} value - The value to add.
+   * @return {this} The current instance for method chaining.
+   */
+  add(value: GValue): this;
+
+  /**
+   * Removes the entries with the key and the specified value from the list.
+   *
+   * @param {GValue} value - The value to remove.
+   * @return {boolean} Returns true if an entry was removed, otherwise false.
+   */
+  delete(value: GValue): boolean;
+
+  /**
+   * Removes all the entries with the key from the list.
+   */
+  clear(): void;
+
+  /**
+   * Returns a `Generator` allowing iteration through the values associated with the key, in list order.
+   *
+   * @returns {Generator<GValue>}
+   */
+  values(): Generator<GValue>;
+
+  /**
+   * Alias of `.values()`.
+   *
+   * @see MappedListValues.values
+   */
+  [Symbol.iterator](): IterableIterator<GValue>;
+}
@@ -0,0 +1,216 @@
+import { MappedListMissingKeyError } from './mapped-list-errors.js';
+import { type MappedListValues } from './mapped-list-values.js';
+import { type MappedList, type MappedListTuple } from './mapped-list.js';
+import { type MappedListEquals } from './parameter-list-factory.js';
+import { type ReadonlyMappedList } from './readonly-mapped-list.js';
+import { type CheckedValidateKey, type CheckedValidateValue } from './shared.private.js';
+
+/* TYPES */
+
+/**
+ * The options of the list a view is created from, used to validate the keys and values given to the view.
+ */
+export interface MappedListViewOptions<GValue> {
+  readonly validateKey: CheckedValidateKey;
+  readonly validateValue: CheckedValidateValue<GValue>;
+  readonly equals: MappedListEquals<GValue>;
+}
+
+export interface MappedListViewPredicate<GValue> {
+  (value: GValue, key: string): boolean;
+}
+
+/* CLASSES */
+
+/**
+ * A live view of the entries of a list matching a predicate.
+ * It reads the list on each call: nothing is cached, so it always reflects the current entries of the list.
+ */
+export class FilteredMappedList<GValue> implements ReadonlyMappedList<GValue> {
+  readonly #list: ReadonlyMappedList<GValue>;
+  readonly #predicate: MappedListViewPredicate<GValue>;
+  readonly #options: MappedListViewOptions<GValue>;
+
+  constructor(
+    list: ReadonlyMappedList<GValue>,
+    predicate: MappedListViewPredicate<GValue>,
+    options: MappedListViewOptions<GValue>,
+  ) {
+    this.#list = list;
+    this.#predicate = predicate;
+    this.#options = options;
+  }
+
+  get size(): number {
+    let size: number = 0;
+
+    for (const _entry of this.entries()) {
+      size++;
+    }
+
+    return size;
+  }
+
+  get(key: string): GValue {
+    key = this.#options.validateKey(key, 'get');
+
+    const value: GValue | undefined = this.#getOptional(key);
+
+    if (value === undefined) {
+      throw new MappedListMissingKeyError(key, { operation: 'get' });
+    } else {
+      return value;
+    }
+  }
+
+  getAll(key: string): GValue[] {
+    key = this.#options.validateKey(key, 'getAll');
+
+    return this.#list.getAll(key).filter((value: GValue): boolean => this.#predicate(value, key));
+  }
+
+  getOptional(key: string): GValue | undefined {
+    return this.#getOptional(this.#options.validateKey(key, 'getOptional'));
+  }
+
+  #getOptional(key: string): GValue | undefined {
+    return this.#list.getAll(key).find((value: GValue): boolean => this.#predicate(value, key));
+  }
+
+  has(key: string, value?: GValue): boolean {
+    return value === undefined ? this.getOptional(key) !== undefined : this.hasEntry(key, value);
+  }
+
+  hasEntry(key: string, value: GValue): boolean {
+    key = this.#options.validateKey(key, 'hasEntry');
+    value = this.#options.validateValue(value, key, 'hasEntry');
+
+    return this.#list
+      .getAll(key)
+      .some(
+        (_value: GValue): boolean =>
+          this.#options.equals(_value, value) && this.#predicate(_value, key),
+      );
+  }
+
+  at(index: number): MappedListTuple<GValue> | undefined {
+    index = Math.trunc(index) || 0;
+
+    if (index < 0) {
+      index += this.size;
+    }
+
+    if (index >= 0) {
+      for (const entry of this.entries()) {
+        if (index-- === 0) {
+          return entry;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  indexOf(key: string, value?: GValue): number {
+    key = this.#options.validateKey(key, 'indexOf');
+
+    if (value !== undefined) {
+      value = this.#options.validateValue(value, key, 'indexOf');
+    }
+
+    let index: number = 0;
+
+    for (const entry of this.entries()) {
+      if (
+        entry[0] === key &&
+        (value === undefined || this.#options.equals(entry[1], value as GValue))
+      ) {
+        return index;
+      }
+
+      index++;
+    }
+
+    return -1;
+  }
+
+  *keys(): Generator<string> {
+    for (const entry of this.entries()) {
+      yield entry[0];
+    }
+  }
+
+  *values(): Generator<GValue> {
+    for (const entry of this.entries()) {
+      yield entry[1];
+    }
+  }
+
+  *entries(): Generator<MappedListTuple<GValue>> {
+    for (const entry of this.#list.entries()) {
+      if (this.#predicate(entry[1], entry[0])) {
+        yield entry;
+      }
+    }
+  }
+
+  [Symbol.iterator](): IterableIterator<MappedListTuple<GValue>> {
+    return this.entries();
+  }
+
+  forEach(callback: (value: GValue, key: string) => void): void {
+    for (const entry of this.entries()) {
+      callback(entry[1], entry[0]);
+    }
+  }
+}
+
+/**
+ * A live collection of the values associated with a key of a list, writing through to the list.
+ */
+export class MappedListValuesView<GValue> implements MappedListValues<GValue> {
+  readonly #list: MappedList<GValue>;
+  readonly #key: string;
+
+  constructor(list: MappedList<GValue>, key: string) {
+    this.#list = list;
+    this.#key = key;
+  }
+
+  get key(): string {
+    return this.#key;
+  }
+
+  get size(): number {
+    return this.#list.getAll(this.#key).length;
+  }
+
+  get immutable(): boolean {
+    return this.#list.immutable;
+  }
+
+  has(value: GValue): boolean {
+    return this.#list.hasEntry(this.#key, value);
+  }
+
+  add(value: GValue): this {
+    this.#list.append(this.#key, value);
+    return this;
+  }
+
+  delete(value: GValue): boolean {
+    return this.#list.deleteEntry(this.#key, value) > 0;
+  }
+
+  clear(): void {
+    this.#list.delete(this.#key);
+  }
+
+  *values(): Generator<GValue> {
+    yield* this.#list.getAll(this.#key);
+  }
+
+  [Symbol.iterator](): IterableIterator<GValue> {
+    return this.values();
+  }
+}
@@ -1,24 +1,103 @@
 /* TYPES */
 import { type WithImmutability } from '@xstd/with-immutability';
+import { type MappedListObserver, type MappedListUnobserve } from './mapped-list-change.js';
+import { type MappedListInit } from './mapped-list-constructor.js';
+import { type MappedListKeyQuery } from './mapped-list-key-query.js';
+import { type MappedListValidationReport } from './mapped-list-validation.js';
+import { type MappedListValues } from './mapped-list-values.js';
+import { type ReadonlyMappedList } from './readonly-mapped-list.js';
 
 export type MappedListTuple<GValue> = readonly [key: string, value: GValue];
 
+/**
+ * A function defining the sort order of the entries of a list.
+ * It returns a negative number if `a` comes first, a positive number if `b` comes first, otherwise 0.
+ */
+export interface MappedListCompare<GValue> {
+  (a: MappedListTuple<GValue>, b: MappedListTuple<GValue>): number;
+}
+
+/**
+ * The form of the keys returned by a conversion:
+ * - `normalized`: the keys returned by `validateKey`, used for matching
+ * - `raw`: the keys as supplied (see the `preserveKeys` option of the factory), or the normalized ones if they are not preserved
+ */
+export type MappedListKeyForm = 'normalized' | 'raw';
+
+/**
+ * The raw key kept by `.set()` when it replaces the entries of a key:
+ * - `incoming`: the key supplied to `.set()`
+ * - `first`: the raw key of the first replaced entry
+ * - `last`: the raw key of the last replaced entry
+ */
+export type MappedListKeySpelling = 'incoming' | 'first' | 'last';
+
+export interface MappedListSetOptions {
+  /**
+   * When `true`, the new entry takes the position of the first entry with the same key (if any),
+   * instead of being appended at the end of the list.
+   */
+  readonly keepPosition?: boolean;
+  /**
+   * The raw key of the new entry, when the list preserves the raw keys. Defaults to `incoming`.
+   */
+  readonly keySpelling?: MappedListKeySpelling;
+}
+
+/**
+ * A function merging the values of a key: it receives the current values of the key in the list, and the incoming ones,
+ * and returns the values to keep.
+ */
+export interface MappedListMergeResolver<GValue> {
+  (current: readonly GValue[], incoming: readonly GValue[], key: string): Iterable<GValue>;
+}
+
+/**
+ * Defines how the incoming entries of a key are merged into a list:
+ * - `append`: the incoming entries are appended
+ * - `replace`: the current entries of the key are removed, and the incoming ones are appended
+ * - `keep`: the incoming entries are ignored if the key is already in the list, otherwise they are appended
+ * - a function: the current entries of the key are removed, and the values it returns are appended
+ */
+export type MappedListMergeStrategy<GValue> =
+  'append' | 'replace' | 'keep' | MappedListMergeResolver<GValue>;
+
+export interface MappedListMergeOptions<GValue> {
+  /**
+   * The strategy used for the keys missing from `strategies`. Defaults to `append`.
+   */
+  readonly strategy?: MappedListMergeStrategy<GValue>;
+  /**
+   * The strategy used per key (after `validateKey`).
+   */
+  readonly strategies?: Readonly<Record<string, MappedListMergeStrategy<GValue>>>;
+}
+
+export interface MappedListConversionOptions {
+  /**
+   * The form of the keys. Defaults to `normalized`.
+   */
+  readonly keys?: MappedListKeyForm;
+}
+
+export interface MappedListToObjectOptions extends MappedListConversionOptions {
+  /**
+   * The value kept for the keys having many entries: the `first` one (like `.get(key)`), or the `last` one.
+   * Defaults to `first`.
+   */
+  readonly keep?: 'first' | 'last';
+}
+
 /* CLASS */
 
 /**
  * Represents an interface for managing a mapped list of key/value pairs.
  * This interface provides operations to manipulate, retrieve, and iterate over the entries in the list.
+ * The read operations are inherited from `ReadonlyMappedList`.
  *
  * @template GValue The type of the values stored in the mapped list.
  */
-export interface MappedList<GValue> extends WithImmutability, Iterable<MappedListTuple<GValue>> {
-  /**
-   * Returns the number of entries present in this list.
-   *
-   * @returns {number} The number of entries.
-   */
-  readonly size: number;
-
+export interface MappedList<GValue> extends WithImmutability, ReadonlyMappedList<GValue> {
   /**
    * Appends a specified key/value pair in this list.
    *
@@ -33,53 +112,157 @@ export interface MappedList<GValue> extends WithImmutability, Iterable<MappedLis
    *
    * @param {string} key - The key identifying the entry to remove.
    * @param {GValue} [value] - Optional value to match for removal if multiple values exist for the key.
+   * When `undefined`, all the entries with this key are removed (see `.deleteEntry` to match an `undefined` value).
    * @return {number} The number of entries removed as a result of the operation.
    */
   delete(key: string, value?: GValue): number;
 
   /**
-   * Returns the first value associated with the specified key.
+   * Deletes the entries matching both the specified key and value from this list.
+   * Unlike `.delete(key, value)`, an `undefined` value is compared like any other value.
    *
-   * @param {string} key - The key identifying the entry to retrieve.
-   * @return {GValue} The value associated with the given key.
+   * @param {string} key - The key identifying the entries to remove.
+   * @param {GValue} value - The value to match for removal.
+   * @return {number} The number of entries removed as a result of the operation.
    */
-  get(key: string): GValue;
+  deleteEntry(key: string, value: GValue): number;
 
   /**
-   * Retrieves all values associated with the specified key.
+   * Sets a value associated with a specified key.
+   * If there are several matching keys, this method deletes the others.
+   * If the entry doesn't exist, this method creates it.
+   * By default, the new entry is appended at the end of the list.
    *
-   * @param {string} key - The key identifying the entries to retrieve.
-   * @return {GValue[]} An array of values associated with the given key.
+   * @param {string} key - The key to set the value with.
+   * @param {GValue} value - The value associated with this key.
+   * @param {MappedListSetOptions} [options] - Optional. Use `{ keepPosition: true }` to keep the position of the first entry with this key.
+   * @return {this} The current instance for method chaining.
    */
-  getAll(key: string): GValue[];
+  set(key: string, value: GValue, options?: MappedListSetOptions): this;
 
   /**
-   * Retrieves the first and optional value associated with the given key.
+   * Inserts a key/value pair at the specified position.
+   * Like `Array.prototype.splice`, a negative `index` counts back from the end of the list,
+   * and an `index` out of the list is clamped to its bounds.
    *
-   * @param {string} key - The key identifying the entry to retrieve.
-   * @return {GValue | undefined} The value associated with the given key if any, otherwise undefined.
+   * @param {number} index - The position of the new entry.
+   * @param {string} key - The key to add to the list.
+   * @param {GValue} value - The value associated with this key.
+   * @return {this} The current instance for method chaining.
    */
-  getOptional(key: string): GValue | undefined;
+  insertAt(index: number, key: string, value: GValue): this;
 
   /**
-   * Checks if a specified key exists in the list and optionally verifies if it is associated with a given value.
+   * Replaces the entry at the specified position.
+   * A negative `index` counts back from the end of the list.
    *
-   * @param {string} key - The key to check for existence in the list.
-   * @param {GValue} [value] - Optional. The value to match against the key in the list.
-   * @return {boolean} Returns true if the key exists and matches the value (if provided), otherwise false.
+   * @param {number} index - The position of the entry to replace.
+   * @param {string} key - The key of the new entry.
+   * @param {GValue} value - The value associated with this key.
+   * @return {this} The current instance for method chaining.
+   * @throws {RangeError} If there is no entry at this position.
    */
-  has(key: string, value?: GValue): boolean;
+  replaceAt(index: number, key: string, value: GValue): this;
 
   /**
-   * Sets a value associated with a specified key.
-   * If there are several matching keys, this method deletes the others.
-   * If the entry doesn't exist, this method creates it.
+   * Moves the entry at position `from` to position `to`, shifting the entries in between.
+   * Negative indices count back from the end of the list.
    *
-   * @param {string} key - The key to set the value with.
-   * @param {GValue} value - The value associated with this key.
+   * @param {number} from - The current position of the entry.
+   * @param {number} to - The new position of the entry.
    * @return {this} The current instance for method chaining.
+   * @throws {RangeError} If `from` or `to` is out of the list.
+   */
+  move(from: number, to: number): this;
+
+  /**
+   * Removes and/or inserts entries, like `Array.prototype.splice`.
+   *
+   * @param {number} start - The position where to start changing the list.
+   * @param {number} [deleteCount] - Optional. The number of entries to remove. Defaults to all the entries from `start`.
+   * @param {...MappedListTuple<GValue>} entries - The entries to insert at `start`.
+   * @return {MappedListTuple<GValue>[]} The removed entries.
+   */
+  splice(
+    start: number,
+    deleteCount?: number,
+    ...entries: readonly MappedListTuple<GValue>[]
+  ): MappedListTuple<GValue>[];
+
+  /**
+   * Merges the entries of `source` into this list.
+   * The appended entries keep their order in `source`.
+   *
+   * This operation is atomic: if an entry is rejected (or a resolver throws), this list is left unchanged.
+   *
+   * @param {MappedListInit<GValue>} source - The entries to merge (ex: another list).
+   * @param {MappedListMergeOptions<GValue>} [options] - Optional. The strategies used to merge the entries.
+   * @return {this} The current instance for method chaining.
+   */
+  merge(source: MappedListInit<GValue>, options?: MappedListMergeOptions<GValue>): this;
+
+  /**
+   * Appends the entries of `init`, in order.
+   *
+   * This operation is atomic: if an entry is rejected, this list is left unchanged.
+   *
+   * @param {MappedListInit<GValue>} init - The entries to append (ex: another list).
+   * @return {this} The current instance for method chaining.
+   */
+  appendAll(init: MappedListInit<GValue>): this;
+
+  /**
+   * Sets the entries of `init`, like calling `.set(key, value, options)` for each of them:
+   * the current entries of their keys are removed, and only the last value of each key is kept.
+   *
+   * This operation is atomic: if an entry is rejected, this list is left unchanged.
+   *
+   * @param {MappedListInit<GValue>} init - The entries to set (ex: another list).
+   * @param {MappedListSetOptions} [options] - Optional. The options applied to every entry.
+   * @return {this} The current instance for method chaining.
+   */
+  setAll(init: MappedListInit<GValue>, options?: MappedListSetOptions): this;
+
+  /**
+   * Deletes the entries matching `predicate`.
+   * `predicate` is called for every entry before any change: if it throws, this list is left unchanged.
+   *
+   * @param {function} predicate - A function called with the value and key of an entry, and returning true to remove it.
+   * @return {number} The number of entries removed as a result of the operation.
+   */
+  deleteWhere(predicate: (value: GValue, key: string) => boolean): number;
+
+  /**
+   * Deletes the entries NOT matching `predicate` (the opposite of `.deleteWhere(predicate)`).
+   *
+   * @param {function} predicate - A function called with the value and key of an entry, and returning true to keep it.
+   * @return {number} The number of entries removed as a result of the operation.
+   */
+  retainWhere(predicate: (value: GValue, key: string) => boolean): number;
+
+  /**
+   * Deletes all the entries of the specified keys.
+   *
+   * @param {Iterable<string>} keys - The keys identifying the entries to remove.
+   * @return {number} The number of entries removed as a result of the operation.
+   */
+  deleteKeys(keys: Iterable<string>): number;
+
+  /**
+   * Deletes the entries whose key matches `query` (ex: a whole namespace with `{ prefix: 'filter.' }`).
+   *
+   * @param {MappedListKeyQuery} query - A prefix, a glob pattern, a range of keys or a `RegExp`.
+   * @return {number} The number of entries removed as a result of the operation.
    */
-  set(key: string, value: GValue): this;
+  deleteMatching(query: MappedListKeyQuery): number;
+
+  /**
+   * Removes the entries whose key matches `query`, and returns them.
+   *
+   * @param {MappedListKeyQuery} query - A prefix, a glob pattern, a range of keys or a `RegExp`.
+   * @return {MappedListTuple<GValue>[]} The removed key/value pairs, in order.
+   */
+  extractMatching(query: MappedListKeyQuery): MappedListTuple<GValue>[];
 
   /**
    * Removes all the entries from this list.
@@ -88,48 +271,250 @@ export interface MappedList<GValue> extends WithImmutability, Iterable<MappedLis
 
   /**
    * Sorts all key/value pairs contained in this list in place.
-   * The sort order is according to unicode code points of the keys.
-   * This method uses a stable sorting algorithm (i.e. the relative order between key/value pairs with equal keys will be preserved).
+   * By default, the sort order is the one provided to the factory, or else according to unicode code points of the keys.
+   * This method uses a stable sorting algorithm (i.e. the relative order between key/value pairs that compare equal will be preserved).
+   *
+   * @param {MappedListCompare<GValue>} [compare] - Optional function defining the sort order.
+   * @return {this} The current instance for method chaining.
+   */
+  sort(compare?: MappedListCompare<GValue>): this;
+
+  /**
+   * Calls `callback` with this list, and applies its mutations atomically:
+   * if `callback` throws, the list is restored to its state before the transaction (including its locked keys), and the error is rethrown.
+   *
+   * The changes are reported to the observers (and recorded in the history) only once the transaction succeeds.
+   * `callback` must be synchronous.
+   *
+   * @param {(list: this) => GReturn} callback - The function applying the mutations.
+   * @return {GReturn} The value returned by `callback`.
+   */
+  transaction<GReturn>(callback: (list: this) => GReturn): GReturn;
+
+  /**
+   * `true` if there is a change to undo.
+   */
+  readonly canUndo: boolean;
+
+  /**
+   * `true` if there is an undone change to redo.
+   */
+  readonly canRedo: boolean;
+
+  /**
+   * Reverts the last change (or transaction) applied to this list, if the history is enabled (see the `history` option of the factory).
+   *
+   * @return {boolean} `true` if a change was reverted.
+   */
+  undo(): boolean;
+
+  /**
+   * Re-applies the last change reverted by `.undo()`.
+   * The undone changes can't be redone anymore once a new change is applied.
    *
+   * @return {boolean} `true` if a change was re-applied.
+   */
+  redo(): boolean;
+
+  /**
+   * Makes the entries of `key` read-only, while the rest of this list stays mutable:
+   * the mutations adding or removing entries of this key (including `.undo()` and `.redo()`) throw a `MappedListLockedKeyError`.
+   * The locked entries may still be moved (ex: by `.sort()`), and are never evicted.
+   * A key can't be unlocked.
+   *
+   * @param {string} key - The key to lock.
    * @return {this} The current instance for method chaining.
    */
-  sort(): this;
+  lockKey(key: string): this;
 
   /**
-   * Returns a `Generator` allowing iteration through all the keys contained in this list.
+   * Returns `true` if `key` is locked (see `.lockKey()`).
+   *
+   * @param {string} key - The key to check.
+   * @return {boolean} `true` if the key is locked.
+   */
+  isKeyLocked(key: string): boolean;
+
+  /**
+   * Throws a `MappedListImmutableError` if this list is immutable.
+   *
+   * @param {string} [operation] - Optional. The name of the method mutating the list, reported by the error.
+   */
+  throwIfImmutable(operation?: string): void;
+
+  /**
+   * Returns the entries of this list matching `predicate`, in order.
+   *
+   * @param {function} predicate - A function called with the value and key of an entry, and returning true to include it.
+   * @return {MappedListTuple<GValue>[]} A new array of key/value pairs.
+   */
+  filter(predicate: (value: GValue, key: string) => boolean): MappedListTuple<GValue>[];
+
+  /**
+   * Returns the first entry of this list matching `predicate`.
+   *
+   * @param {function} predicate - A function called with the value and key of an entry, and returning true if it matches.
+   * @return {MappedListTuple<GValue> | undefined} The first matching entry if any, otherwise undefined.
+   */
+  find(predicate: (value: GValue, key: string) => boolean): MappedListTuple<GValue> | undefined;
+
+  /**
+   * Returns `true` if at least one entry of this list matches `predicate`.
+   *
+   * @param {function} predicate - A function called with the value and key of an entry, and returning true if it matches.
+   * @return {boolean} `true` if an entry matches.
+   */
+  some(predicate: (value: GValue, key: string) => boolean): boolean;
+
+  /**
+   * Returns `true` if all the entries of this list match `predicate` (including when this list is empty).
+   *
+   * @param {function} predicate - A function called with the value and key of an entry, and returning true if it matches.
+   * @return {boolean} `true` if every entry matches.
+   */
+  every(predicate: (value: GValue, key: string) => boolean): boolean;
+
+  /**
+   * Returns the number of entries with the specified key.
+   *
+   * @param {string} key - The key of the entries to count.
+   * @return {number} The number of entries.
+   */
+  count(key: string): number;
+
+  /**
+   * Returns a `Generator` allowing iteration through the distinct keys contained in this list,
+   * ordered by their first occurrence.
    *
    * @returns {Generator<string>}
    */
-  keys(): Generator<string>;
+  uniqueKeys(): Generator<string>;
+
+  /**
+   * Returns the entries of this list whose key matches `query`, in order.
+   * While the keys of this list are in the order of `compareKeys` (ex: after `.sort()`), the prefix, glob and range queries
+   * only scan the matching keys, found by binary search.
+   *
+   * @param {MappedListKeyQuery} query - A prefix, a glob pattern, a range of keys or a `RegExp`.
+   * @return {MappedListTuple<GValue>[]} A new array of key/value pairs.
+   */
+  entriesMatching(query: MappedListKeyQuery): MappedListTuple<GValue>[];
+
+  /**
+   * Returns a live, read-only view of the entries of this list matching `predicate`.
+   * The view copies nothing: it always reflects the current entries of this list.
+   *
+   * @param {function} predicate - A function called with the value and key of an entry, and returning true to include it.
+   * @return {ReadonlyMappedList<GValue>} The view.
+   */
+  filteredView(predicate: (value: GValue, key: string) => boolean): ReadonlyMappedList<GValue>;
+
+  /**
+   * Returns a live, read-only view of the entries of this list whose key (after `validateKey`) matches `predicate`.
+   *
+   * @example
+   * const traces = headers.keyFilteredView((key: string): boolean => key.startsWith('x-trace-'));
+   *
+   * @param {function} predicate - A function called with the key of an entry, and returning true to include it.
+   * @return {ReadonlyMappedList<GValue>} The view.
+   */
+  keyFilteredView(predicate: (key: string) => boolean): ReadonlyMappedList<GValue>;
+
+  /**
+   * Returns a live collection of the values associated with `key`.
+   * Its mutations are applied to this list.
+   *
+   * @param {string} key - The key of the values.
+   * @return {MappedListValues<GValue>} The collection.
+   */
+  valuesView(key: string): MappedListValues<GValue>;
+
+  /**
+   * Returns a `Generator` allowing iteration through all the keys contained in this list, as supplied
+   * (see the `preserveKeys` option of the factory).
+   *
+   * @returns {Generator<string>}
+   */
+  rawKeys(): Generator<string>;
+
+  /**
+   * Like `.entries()`, with the keys as supplied (see the `preserveKeys` option of the factory).
+   *
+   * @returns {Generator<MappedListTuple<GValue>>}
+   */
+  rawEntries(): Generator<MappedListTuple<GValue>>;
+
+  /**
+   * Returns the entries of this list, in order.
+   *
+   * @param {MappedListConversionOptions} [options] - Optional. The form of the keys.
+   * @return {MappedListTuple<GValue>[]} A new array of key/value pairs.
+   */
+  toArray(options?: MappedListConversionOptions): MappedListTuple<GValue>[];
+
+  /**
+   * Returns an object mapping each key to a single value (by default, the first one).
+   * The properties are ordered by the first occurrence of their key in this list
+   * (except the integer-like keys, which objects always order first).
+   * With raw keys, each property is named after the raw key of the kept value.
+   *
+   * @param {MappedListToObjectOptions} [options] - Optional. Which value is kept for each key, and the form of the keys.
+   * @return {Record<string, GValue>} A new object.
+   */
+  toObject(options?: MappedListToObjectOptions): Record<string, GValue>;
+
+  /**
+   * Returns an object mapping each key to all its values, ordered like `.toObject()`.
+   * It may be given back to `fromGrouped` to re-create the list (in a different order if the keys are interleaved).
+   *
+   * @param {MappedListConversionOptions} [options] - Optional. The form of the keys.
+   * @return {Record<string, GValue[]>} A new object.
+   */
+  toGroupedObject(options?: MappedListConversionOptions): Record<string, GValue[]>;
+
+  /**
+   * Returns a `Map` of each key to all its values, ordered by the first occurrence of the key in this list.
+   * The values are grouped by normalized key: with raw keys, each group is named after the raw key of its first entry.
+   *
+   * @param {MappedListConversionOptions} [options] - Optional. The form of the keys.
+   * @return {Map<string, GValue[]>} A new `Map`.
+   */
+  toMap(options?: MappedListConversionOptions): Map<string, GValue[]>;
 
   /**
-   * Returns a `Generator` allowing iteration through all the values contained in this list.
+   * Groups the entries of this list by the value returned by `callback`.
+   * The groups are ordered by their first entry, and the entries keep their relative order.
    *
-   * @returns {Generator<GValue>}
+   * @param {function} callback - A function called for each entry with its value and key, and returning its group.
+   * @return {Map<GGroup, MappedListTuple<GValue>[]>} A new `Map` of each group to its entries.
    */
-  values(): Generator<GValue>;
+  groupBy<GGroup>(
+    callback: (value: GValue, key: string) => GGroup,
+  ): Map<GGroup, MappedListTuple<GValue>[]>;
 
   /**
-   * Returns an `Generator` allowing iteration through all the key/value pairs contained in this list.
-   * The iterator returns key/value pairs in the same order as they appear in the list.
+   * Returns the entries of this list with their raw keys (like `.toArray({ keys: 'raw' })`),
+   * so that `JSON.stringify(list)` gives an array of key/value pairs, which may be given back to the constructor.
    *
-   * @returns {Generator<[key: string, value: string]>}
+   * @return {MappedListTuple<GValue>[]} A new array of key/value pairs.
    */
-  entries(): Generator<MappedListTuple<GValue>>;
+  toJSON(): MappedListTuple<GValue>[];
 
   /**
-   * Alias of `.entries()`.
+   * Checks the constraints of this list (cardinality and rules provided to the factory),
+   * and reports every violation.
    *
-   * @see MappedList.entries
+   * @return {MappedListValidationReport} The list of violations.
    */
-  [Symbol.iterator](): IterableIterator<MappedListTuple<GValue>>;
+  validate(): MappedListValidationReport;
 
   /**
-   * Executes a provided callback function once for each entry in the list, in insertion order.
+   * Registers an `observer` called with a description of each change applied to this list.
+   * Observers are called synchronously, after the change, and in registration order.
+   * Mutations that are rejected, or that leave the list unchanged, are not reported.
    *
-   * @param {function} callback - A function that is called for each entry in the list. It receives two arguments:
-   * the entry's value and key. The value is provided as the first parameter, and the key as the second.
-   * @return {void} Does not return a value.
+   * @param {MappedListObserver<GValue>} observer - The function to call on each change.
+   * @return {MappedListUnobserve} A function to call to stop observing this list.
    */
-  forEach(callback: (value: GValue, key: string) => void): void;
+  observe(observer: MappedListObserver<GValue>): MappedListUnobserve;
 }
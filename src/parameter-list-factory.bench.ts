@@ -0,0 +1,172 @@
+import { bench, describe } from 'vitest';
+import { type MappedListTuple } from './mapped-list.js';
+import { mappedListFactory } from './parameter-list-factory.js';
+
+/**
+ * Reference implementation using linear scans (the previous implementation of `mappedListFactory`).
+ */
+class LinearMappedList<GValue> {
+  readonly #entries: MappedListTuple<GValue>[] = [];
+
+  append(key: string, value: GValue): this {
+    this.#entries.push(Object.freeze([key, value]));
+    return this;
+  }
+
+  delete(key: string, value?: GValue): number {
+    let deleted: number = 0;
+
+    for (let i: number = 0; i < this.#entries.length; i++) {
+      const [_key, _value]: MappedListTuple<GValue> = this.#entries[i];
+
+      if (_key === key && (value === undefined || _value === value)) {
+        this.#entries.splice(i, 1);
+        i--;
+        deleted++;
+      }
+    }
+
+    return deleted;
+  }
+
+  getOptional(key: string): GValue | undefined {
+    for (let i: number = 0; i < this.#entries.length; i++) {
+      if (this.#entries[i][0] === key) {
+        return this.#entries[i][1];
+      }
+    }
+
+    return undefined;
+  }
+
+  getAll(key: string): GValue[] {
+    const values: GValue[] = [];
+
+    for (let i: number = 0; i < this.#entries.length; i++) {
+      if (this.#entries[i][0] === key) {
+        values.push(this.#entries[i][1]);
+      }
+    }
+
+    return values;
+  }
+
+  has(key: string): boolean {
+    return this.getOptional(key) !== undefined;
+  }
+
+  set(key: string, value: GValue): this {
+    this.delete(key);
+    return this.append(key, value);
+  }
+}
+
+const IndexedMappedList = mappedListFactory<string>();
+
+const SIZE: number = 2000;
+
+const KEYS: readonly string[] = Array.from({ length: SIZE }, (_: unknown, i: number): string => {
+  return `key-${i}`;
+});
+
+function fillLinear(): LinearMappedList<string> {
+  const list = new LinearMappedList<string>();
+  for (let i: number = 0; i < SIZE; i++) {
+    list.append(KEYS[i], `value-${i}`);
+  }
+  return list;
+}
+
+function fillIndexed(): InstanceType<typeof IndexedMappedList> {
+  const list = new IndexedMappedList();
+  for (let i: number = 0; i < SIZE; i++) {
+    list.append(KEYS[i], `value-${i}`);
+  }
+  return list;
+}
+
+describe(`set in a loop (${SIZE} entries)`, () => {
+  bench('linear', () => {
+    const list = fillLinear();
+    for (let i: number = 0; i < SIZE; i++) {
+      list.set(KEYS[i], 'updated');
+    }
+  });
+
+  bench('indexed', () => {
+    const list = fillIndexed();
+    for (let i: number = 0; i < SIZE; i++) {
+      list.set(KEYS[i], 'updated');
+    }
+  });
+});
+
+describe(`get/getAll/has (${SIZE} entries)`, () => {
+  const linear = fillLinear();
+  const indexed = fillIndexed();
+
+  bench('linear', () => {
+    for (let i: number = 0; i < SIZE; i++) {
+      linear.getOptional(KEYS[i]);
+      linear.getAll(KEYS[i]);
+      linear.has(KEYS[i]);
+    }
+  });
+
+  bench('indexed', () => {
+    for (let i: number = 0; i < SIZE; i++) {
+      indexed.getOptional(KEYS[i]);
+      indexed.getAll(KEYS[i]);
+      indexed.has(KEYS[i]);
+    }
+  });
+});
+
+describe(`delete missing keys (${SIZE} entries)`, () => {
+  const linear = fillLinear();
+  const indexed = fillIndexed();
+
+  bench('linear', () => {
+    for (let i: number = 0; i < SIZE; i++) {
+      linear.delete(`missing-${i}`);
+    }
+  });
+
+  bench('indexed', () => {
+    for (let i: number = 0; i < SIZE; i++) {
+      indexed.delete(`missing-${i}`);
+    }
+  });
+});
+
+describe(`delete half of the keys (${SIZE} entries)`, () => {
+  const deleted: readonly string[] = KEYS.filter((_key: string, i: number): boolean => i % 2 === 0);
+
+  bench('delete in a loop', () => {
+    const list = fillIndexed();
+    for (let i: number = 0; i < deleted.length; i++) {
+      list.delete(deleted[i]);
+    }
+  });
+
+  bench('deleteKeys', () => {
+    fillIndexed().deleteKeys(deleted);
+  });
+});
+
+describe(`prefix queries (${SIZE} entries)`, () => {
+  const unsorted = fillIndexed();
+  const sorted = fillIndexed().sort();
+
+  bench('unsorted', () => {
+    for (let i: number = 0; i < 100; i++) {
+      unsorted.entriesMatching({ prefix: `key-1${i % 10}` });
+    }
+  });
+
+  bench('sorted', () => {
+    for (let i: number = 0; i < 100; i++) {
+      sorted.entriesMatching({ prefix: `key-1${i % 10}` });
+    }
+  });
+});
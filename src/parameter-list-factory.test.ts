@@ -1,5 +1,22 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { compareKeys, compareKeysNaturally, valueComparator } from './entry-comparators.js';
+import { expiringMappedListFactory } from './expiring-mapped-list-factory.js';
+import {
+  MappedListCapacityError,
+  MappedListForbiddenKeyError,
+  MappedListImmutableError,
+  MappedListInvalidKeyError,
+  MappedListInvalidValueError,
+  MappedListLockedKeyError,
+  MappedListMissingKeyError,
+  MappedListTransactionError,
+} from './mapped-list-errors.js';
+import { type MappedListKeyQuery } from './mapped-list-key-query.js';
+import { MappedListValidationError } from './mapped-list-validation.js';
+import { type MappedListTuple } from './mapped-list.js';
 import { mappedListFactory } from './parameter-list-factory.js';
+import { type ReadonlyMappedList } from './readonly-mapped-list.js';
+import { deepEqual, sameValueZero } from './value-equality.js';
 
 describe('mappedListFactory', () => {
   describe('factory', () => {
@@ -8,6 +25,49 @@ describe('mappedListFactory', () => {
       expect(instance).toBeDefined();
       expect(instance.set('a', 'b').get('a')).toBe('b');
     });
+
+    it('should call validateValue with the validated key', () => {
+      const validateValue = vi.fn((value: string): string => value);
+      const instance = new (mappedListFactory<string>({
+        validateKey: (key: string): string => key.toLowerCase(),
+        validateValue,
+      }))();
+
+      instance.append('A', 'b');
+      expect(validateValue).toHaveBeenLastCalledWith('b', 'a');
+      instance.has('B', 'c');
+      expect(validateValue).toHaveBeenLastCalledWith('c', 'b');
+    });
+
+    it('should compare values with strict equality by default', () => {
+      const value = { id: 1 };
+      const instance = new (mappedListFactory<object>())([['a', value]]);
+
+      expect(instance.has('a', value)).toBe(true);
+      expect(instance.has('a', { id: 1 })).toBe(false);
+      expect(instance.delete('a', { id: 1 })).toBe(0);
+    });
+
+    it('should support deep equality', () => {
+      const instance = new (mappedListFactory<object>({ equals: deepEqual }))([
+        ['tag', { id: 1 }],
+        ['point', [1, 2]],
+        ['point', [3, 4]],
+      ]);
+
+      expect(instance.has('tag', { id: 1 })).toBe(true);
+      expect(instance.has('tag', { id: 2 })).toBe(false);
+      expect(instance.delete('point', [1, 2])).toBe(1);
+      expect(instance.getAll('point')).toEqual([[3, 4]]);
+    });
+
+    it('should support SameValueZero', () => {
+      const instance = new (mappedListFactory<number>({ equals: sameValueZero }))([['a', NaN]]);
+
+      expect(instance.has('a', NaN)).toBe(true);
+      expect(instance.deleteEntry('a', NaN)).toBe(1);
+      expect(instance.size).toBe(0);
+    });
   });
 
   describe('class', () => {
@@ -161,6 +221,31 @@ describe('mappedListFactory', () => {
         });
       });
 
+      describe('.deleteEntry(...)', () => {
+        it('should delete the entries matching an undefined value', () => {
+          const instance = new (mappedListFactory<string | undefined>())([
+            ['a', 'b'],
+            ['a', undefined],
+            ['c', undefined],
+          ]);
+
+          expect(instance.deleteEntry('a', undefined)).toBe(1);
+          expect(Array.from(instance.entries())).toEqual([
+            ['a', 'b'],
+            ['c', undefined],
+          ]);
+          expect(instance.deleteEntry('a', undefined)).toBe(0);
+          expect(instance.deleteEntry('z', undefined)).toBe(0);
+        });
+
+        it('should throw if key or value is invalid', () => {
+          const instance = new TestClass([['a', 'b']]);
+
+          expect(() => instance.deleteEntry('@invalid', 'b')).toThrow();
+          expect(() => instance.deleteEntry('a', '@invalid')).toThrow();
+        });
+      });
+
       describe('.get(...)', () => {
         let instance: TestClass;
 
@@ -269,6 +354,27 @@ describe('mappedListFactory', () => {
         });
       });
 
+      describe('.hasEntry(...)', () => {
+        it('should match an undefined value', () => {
+          const instance = new (mappedListFactory<string | undefined>())([
+            ['a', 'b'],
+            ['c', undefined],
+          ]);
+
+          expect(instance.hasEntry('a', undefined)).toBe(false);
+          expect(instance.hasEntry('c', undefined)).toBe(true);
+          expect(instance.hasEntry('a', 'b')).toBe(true);
+          expect(instance.hasEntry('z', undefined)).toBe(false);
+        });
+
+        it('should throw if key or value is invalid', () => {
+          const instance = new TestClass([['a', 'b']]);
+
+          expect(() => instance.hasEntry('@invalid', 'b')).toThrow();
+          expect(() => instance.hasEntry('a', '@invalid')).toThrow();
+        });
+      });
+
       describe('.set(...)', () => {
         let instance: TestClass;
 
@@ -290,6 +396,497 @@ describe('mappedListFactory', () => {
         it('should throw if value is invalid', () => {
           expect(() => instance.set('a', '@invalid')).toThrow();
         });
+
+        it('should keep the position of the first entry with the keepPosition option', () => {
+          instance.append('a', 'a1').append('b', 'b1').append('a', 'a2');
+          instance.set('A', 'a3', { keepPosition: true });
+          expect(instance.toString()).toBe('; a=a3; b=b1');
+          expect(instance.getAll('a')).toEqual(['a3']);
+          instance.set('c', 'c1', { keepPosition: true });
+          expect(instance.toString()).toBe('; a=a3; b=b1; c=c1');
+        });
+      });
+
+      describe('.at(...)', () => {
+        it('should return the entry at a position', () => {
+          const instance = new TestClass([
+            ['a', 'a1'],
+            ['b', 'b1'],
+          ]);
+          expect(instance.at(0)).toEqual(['a', 'a1']);
+          expect(instance.at(-1)).toEqual(['b', 'b1']);
+          expect(instance.at(2)).toBe(undefined);
+          expect(instance.at(-3)).toBe(undefined);
+        });
+      });
+
+      describe('.indexOf(...)', () => {
+        const instance = new TestClass([
+          ['a', 'a1'],
+          ['b', 'b1'],
+          ['a', 'a2'],
+        ]);
+
+        it('should return the position of the first matching entry', () => {
+          expect(instance.indexOf('A')).toBe(0);
+          expect(instance.indexOf('a', 'a2')).toBe(2);
+          expect(instance.indexOf('b')).toBe(1);
+        });
+
+        it('should return -1 if no entry matches', () => {
+          expect(instance.indexOf('c')).toBe(-1);
+          expect(instance.indexOf('a', 'a3')).toBe(-1);
+          expect(instance.indexOf('c', 'c1')).toBe(-1);
+        });
+
+        it('should throw if key or value is invalid', () => {
+          expect(() => instance.indexOf('@invalid')).toThrow();
+          expect(() => instance.indexOf('a', '@invalid')).toThrow();
+        });
+      });
+
+      describe('.insertAt(...)', () => {
+        let instance: TestClass;
+
+        beforeEach(() => {
+          instance = new TestClass([
+            ['a', 'a1'],
+            ['b', 'b1'],
+          ]);
+        });
+
+        it('should insert an entry at a position', () => {
+          instance.insertAt(1, 'A', 'a2');
+          expect(instance.toString()).toBe('; a=a1; a=a2; b=b1');
+          expect(instance.getAll('a')).toEqual(['a1', 'a2']);
+          instance.insertAt(0, 'a', 'a0');
+          expect(instance.getAll('a')).toEqual(['a0', 'a1', 'a2']);
+        });
+
+        it('should support negative and out of range positions', () => {
+          instance.insertAt(-1, 'c', 'c1');
+          expect(instance.toString()).toBe('; a=a1; c=c1; b=b1');
+          instance.insertAt(10, 'd', 'd1');
+          instance.insertAt(-10, 'e', 'e1');
+          expect(instance.toString()).toBe('; e=e1; a=a1; c=c1; b=b1; d=d1');
+        });
+
+        it('should throw if key or value is invalid', () => {
+          expect(() => instance.insertAt(0, '@invalid', 'a')).toThrow();
+          expect(() => instance.insertAt(0, 'a', '@invalid')).toThrow();
+          expect(instance.size).toBe(2);
+        });
+      });
+
+      describe('.replaceAt(...)', () => {
+        let instance: TestClass;
+
+        beforeEach(() => {
+          instance = new TestClass([
+            ['a', 'a1'],
+            ['b', 'b1'],
+            ['a', 'a2'],
+          ]);
+        });
+
+        it('should replace the entry at a position', () => {
+          instance.replaceAt(0, 'c', 'c1');
+          expect(instance.toString()).toBe('; c=c1; b=b1; a=a2');
+          expect(instance.getAll('a')).toEqual(['a2']);
+          instance.replaceAt(-1, 'B', 'b2');
+          expect(instance.toString()).toBe('; c=c1; b=b1; b=b2');
+          expect(instance.has('a')).toBe(false);
+          expect(instance.getAll('b')).toEqual(['b1', 'b2']);
+        });
+
+        it('should throw if the position is out of range', () => {
+          expect(() => instance.replaceAt(3, 'c', 'c1')).toThrow(RangeError);
+          expect(() => instance.replaceAt(-4, 'c', 'c1')).toThrow(RangeError);
+        });
+
+        it('should throw if key or value is invalid', () => {
+          expect(() => instance.replaceAt(0, '@invalid', 'a')).toThrow();
+          expect(() => instance.replaceAt(0, 'a', '@invalid')).toThrow();
+          expect(instance.toString()).toBe('; a=a1; b=b1; a=a2');
+        });
+      });
+
+      describe('.move(...)', () => {
+        let instance: TestClass;
+
+        beforeEach(() => {
+          instance = new TestClass([
+            ['a', 'a1'],
+            ['b', 'b1'],
+            ['a', 'a2'],
+          ]);
+        });
+
+        it('should move an entry', () => {
+          instance.move(0, 2);
+          expect(instance.toString()).toBe('; b=b1; a=a2; a=a1');
+          expect(instance.getAll('a')).toEqual(['a2', 'a1']);
+          instance.move(-1, 0);
+          expect(instance.toString()).toBe('; a=a1; b=b1; a=a2');
+          instance.move(1, 1);
+          expect(instance.toString()).toBe('; a=a1; b=b1; a=a2');
+        });
+
+        it('should throw if a position is out of range', () => {
+          expect(() => instance.move(3, 0)).toThrow(RangeError);
+          expect(() => instance.move(0, -4)).toThrow(RangeError);
+        });
+      });
+
+      describe('.splice(...)', () => {
+        let instance: TestClass;
+
+        beforeEach(() => {
+          instance = new TestClass([
+            ['a', 'a1'],
+            ['b', 'b1'],
+            ['a', 'a2'],
+          ]);
+        });
+
+        it('should remove and insert entries', () => {
+          expect(instance.splice(1, 1, ['A', 'a3'], ['c', 'c1'])).toEqual([['b', 'b1']]);
+          expect(instance.toString()).toBe('; a=a1; a=a3; c=c1; a=a2');
+          expect(instance.getAll('a')).toEqual(['a1', 'a3', 'a2']);
+          expect(instance.has('b')).toBe(false);
+        });
+
+        it('should remove all the entries from start by default', () => {
+          expect(instance.splice(-2)).toEqual([
+            ['b', 'b1'],
+            ['a', 'a2'],
+          ]);
+          expect(instance.toString()).toBe('; a=a1');
+          expect(instance.getAll('a')).toEqual(['a1']);
+        });
+
+        it('should throw if key or value is invalid', () => {
+          expect(() => instance.splice(0, 1, ['b', 'b2'], ['@invalid', 'a'])).toThrow();
+          expect(() => instance.splice(0, 1, ['a', '@invalid'])).toThrow();
+          expect(instance.toString()).toBe('; a=a1; b=b1; a=a2');
+        });
+      });
+
+      describe('.merge(...)', () => {
+        let instance: TestClass;
+
+        beforeEach(() => {
+          instance = new TestClass([
+            ['a', 'a1'],
+            ['b', 'b1'],
+          ]);
+        });
+
+        it('should append all the entries by default', () => {
+          instance.merge(
+            new TestClass([
+              ['C', 'c1'],
+              ['a', 'a2'],
+            ]),
+          );
+          expect(instance.toString()).toBe('; a=a1; b=b1; c=c1; a=a2');
+          expect(instance.getAll('a')).toEqual(['a1', 'a2']);
+        });
+
+        it('should accept any MappedListInit', () => {
+          instance.merge({ c: 'c1' }).merge(new Map([['d', 'd1']]));
+          expect(instance.toString()).toBe('; a=a1; b=b1; c=c1; d=d1');
+        });
+
+        it('should replace the entries', () => {
+          instance.merge(
+            [
+              ['a', 'a2'],
+              ['c', 'c1'],
+              ['a', 'a3'],
+            ],
+            { strategy: 'replace' },
+          );
+          expect(instance.toString()).toBe('; b=b1; a=a2; c=c1; a=a3');
+          expect(instance.getAll('a')).toEqual(['a2', 'a3']);
+        });
+
+        it('should keep the existing entries', () => {
+          instance.merge(
+            [
+              ['a', 'a2'],
+              ['c', 'c1'],
+              ['c', 'c2'],
+            ],
+            { strategy: 'keep' },
+          );
+          expect(instance.toString()).toBe('; a=a1; b=b1; c=c1; c=c2');
+        });
+
+        it('should support a custom resolver', () => {
+          const resolve = vi.fn((current: readonly string[], incoming: readonly string[]) => [
+            [...current, ...incoming].join('+'),
+          ]);
+
+          instance.merge(
+            [
+              ['a', 'a2'],
+              ['c', 'c1'],
+              ['a', 'a3'],
+            ],
+            { strategy: resolve },
+          );
+          expect(resolve).toHaveBeenCalledTimes(2);
+          expect(resolve).toHaveBeenNthCalledWith(1, ['a1'], ['a2', 'a3'], 'a');
+          expect(resolve).toHaveBeenNthCalledWith(2, [], ['c1'], 'c');
+          expect(instance.toString()).toBe('; b=b1; a=a1+a2+a3; c=c1');
+        });
+
+        it('should support per key strategies', () => {
+          instance.merge(
+            [
+              ['A', 'a2'],
+              ['B', 'b2'],
+              ['c', 'c1'],
+            ],
+            { strategy: 'keep', strategies: { a: 'replace', c: (): string[] => [] } },
+          );
+          expect(instance.toString()).toBe('; b=b1; a=a2');
+        });
+
+        it('should be atomic', () => {
+          expect(() =>
+            instance.merge(
+              [
+                ['c', 'c1'],
+                ['d', '@invalid'],
+              ],
+              { strategy: 'replace' },
+            ),
+          ).toThrow();
+          expect(() => instance.merge([['a', 'a2']], { strategy: () => ['@invalid'] })).toThrow();
+          expect(() =>
+            instance.merge([['a', 'a2']], {
+              strategy: (): string[] => {
+                throw new Error('Resolver error');
+              },
+            }),
+          ).toThrow('Resolver error');
+          expect(instance.toString()).toBe('; a=a1; b=b1');
+        });
+
+        it('should support merging a list into itself', () => {
+          instance.merge(instance);
+          expect(instance.toString()).toBe('; a=a1; b=b1; a=a1; b=b1');
+        });
+      });
+
+      describe('.appendAll(...)', () => {
+        it('should append all the entries', () => {
+          const instance = new TestClass([['a', 'a1']]);
+
+          instance.appendAll([
+            ['B', 'b1'],
+            ['a', 'a2'],
+          ]);
+          instance.appendAll({ c: 'c1' });
+          expect(instance.toString()).toBe('; a=a1; b=b1; a=a2; c=c1');
+          expect(instance.getAll('a')).toEqual(['a1', 'a2']);
+        });
+
+        it('should be atomic', () => {
+          const instance = new TestClass([['a', 'a1']]);
+
+          expect(() =>
+            instance.appendAll([
+              ['b', 'b1'],
+              ['c', '@invalid'],
+            ]),
+          ).toThrow(expect.objectContaining({ operation: 'appendAll', index: 1 }));
+          expect(instance.toString()).toBe('; a=a1');
+        });
+
+        it('should support appending a list to itself', () => {
+          const instance = new TestClass([['a', 'a1']]);
+
+          instance.appendAll(instance);
+          expect(instance.toString()).toBe('; a=a1; a=a1');
+        });
+      });
+
+      describe('.setAll(...)', () => {
+        let instance: TestClass;
+
+        beforeEach(() => {
+          instance = new TestClass([
+            ['a', 'a1'],
+            ['b', 'b1'],
+            ['a', 'a2'],
+            ['c', 'c1'],
+          ]);
+        });
+
+        it('should set all the entries', () => {
+          instance.setAll([
+            ['A', 'a3'],
+            ['d', 'd1'],
+          ]);
+          expect(instance.toString()).toBe('; b=b1; c=c1; a=a3; d=d1');
+          expect(instance.getAll('a')).toEqual(['a3']);
+        });
+
+        it('should keep the last value of each key', () => {
+          instance.setAll([
+            ['a', 'a3'],
+            ['b', 'b2'],
+            ['a', 'a4'],
+          ]);
+          expect(instance.toString()).toBe('; c=c1; b=b2; a=a4');
+          expect(instance.getAll('a')).toEqual(['a4']);
+        });
+
+        it('should keep the position of the first entry of each key', () => {
+          instance.setAll(
+            [
+              ['c', 'c2'],
+              ['d', 'd1'],
+              ['a', 'a3'],
+            ],
+            { keepPosition: true },
+          );
+          expect(instance.toString()).toBe('; a=a3; b=b1; c=c2; d=d1');
+          expect(instance.getAll('a')).toEqual(['a3']);
+          expect(instance.indexOf('c')).toBe(2);
+        });
+
+        it('should be atomic', () => {
+          expect(() =>
+            instance.setAll([
+              ['a', 'a3'],
+              ['@invalid', 'x'],
+            ]),
+          ).toThrow(expect.objectContaining({ operation: 'setAll', index: 1 }));
+          expect(instance.toString()).toBe('; a=a1; b=b1; a=a2; c=c1');
+        });
+      });
+
+      describe('.deleteWhere(...)', () => {
+        it('should delete the matching entries', () => {
+          const instance = new TestClass([
+            ['a', 'a1'],
+            ['b', 'b1'],
+            ['a', 'a2'],
+          ]);
+          const predicate = vi.fn((value: string): boolean => value.endsWith('1'));
+
+          expect(instance.deleteWhere(predicate)).toBe(2);
+          expect(predicate).toHaveBeenCalledTimes(3);
+          expect(predicate).toHaveBeenNthCalledWith(2, 'b1', 'b');
+          expect(instance.toString()).toBe('; a=a2');
+          expect(instance.getAll('a')).toEqual(['a2']);
+          expect(instance.has('b')).toBe(false);
+          expect(instance.deleteWhere((): boolean => false)).toBe(0);
+        });
+
+        it('should leave the list unchanged if the predicate throws', () => {
+          const instance = new TestClass([
+            ['a', 'a1'],
+            ['b', 'b1'],
+          ]);
+
+          expect(() =>
+            instance.deleteWhere((_value: string, key: string): boolean => {
+              if (key === 'b') {
+                throw new Error('Predicate error');
+              }
+              return true;
+            }),
+          ).toThrow('Predicate error');
+          expect(instance.toString()).toBe('; a=a1; b=b1');
+        });
+      });
+
+      describe('.retainWhere(...)', () => {
+        it('should delete the entries not matching', () => {
+          const instance = new TestClass([
+            ['a', 'a1'],
+            ['b', 'b1'],
+            ['a', 'a2'],
+          ]);
+
+          expect(instance.retainWhere((_value: string, key: string): boolean => key === 'a')).toBe(
+            1,
+          );
+          expect(instance.toString()).toBe('; a=a1; a=a2');
+          expect(instance.has('b')).toBe(false);
+        });
+      });
+
+      describe('.deleteKeys(...)', () => {
+        it('should delete all the entries of the keys', () => {
+          const instance = new TestClass([
+            ['a', 'a1'],
+            ['b', 'b1'],
+            ['c', 'c1'],
+            ['a', 'a2'],
+          ]);
+
+          expect(instance.deleteKeys(['A', 'c', 'd'])).toBe(3);
+          expect(instance.toString()).toBe('; b=b1');
+          expect(instance.has('a')).toBe(false);
+          expect(instance.deleteKeys(new Set(['a']))).toBe(0);
+        });
+
+        it('should be atomic', () => {
+          const instance = new TestClass([['a', 'a1']]);
+
+          expect(() => instance.deleteKeys(['a', '@invalid'])).toThrow(MappedListInvalidKeyError);
+          expect(instance.toString()).toBe('; a=a1');
+          expect(instance.get('a')).toBe('a1');
+        });
+      });
+
+      describe('bulk deletions of an expiring list', () => {
+        let now: number = 0;
+        const ExpiringClass = expiringMappedListFactory<string>({ clock: (): number => now });
+
+        function create(): InstanceType<typeof ExpiringClass> {
+          now = 0;
+
+          const instance = new ExpiringClass();
+          instance
+            .append('a', 'a1', { ttl: 10 })
+            .append('b', 'b1')
+            .append('a', 'a2')
+            .append('c', 'c1', { ttl: 10 });
+
+          now = 10;
+
+          return instance;
+        }
+
+        it.each([
+          [
+            'deleteWhere',
+            (list: InstanceType<typeof ExpiringClass>) => list.deleteWhere(() => true),
+          ],
+          [
+            'retainWhere',
+            (list: InstanceType<typeof ExpiringClass>) =>
+              list.retainWhere((_value: string, key: string): boolean => key === 'b'),
+          ],
+          ['deleteKeys', (list: InstanceType<typeof ExpiringClass>) => list.deleteKeys(['a', 'c'])],
+        ])(
+          '%s should return the change of size',
+          (_name: string, remove: (list: InstanceType<typeof ExpiringClass>) => number) => {
+            const instance = create();
+            const size: number = instance.size;
+            const removed: number = remove(instance);
+
+            expect(removed).toBeGreaterThan(0);
+            expect(size - instance.size).toBe(removed);
+          },
+        );
       });
 
       describe('.clear(...)', () => {
@@ -333,6 +930,35 @@ describe('mappedListFactory', () => {
             expect(instance.toString()).toBe('; a=a1; b=b1');
           }
         });
+
+        it('should be able to sort with a comparator', () => {
+          const instance = new TestClass([
+            ['a', 'a2'],
+            ['b', 'b1'],
+            ['a', 'a1'],
+            ['c', 'a1'],
+          ]);
+
+          instance.sort(valueComparator());
+          expect(instance.toString()).toBe('; a=a1; c=a1; a=a2; b=b1');
+          expect(instance.getAll('a')).toEqual(['a1', 'a2']);
+          expect(instance.get('a')).toBe('a1');
+        });
+
+        it('should use the default ordering of the factory', () => {
+          const instance = new (mappedListFactory<string>({ compare: compareKeysNaturally }))([
+            ['item10', 'a'],
+            ['item2', 'b'],
+            ['item1', 'c'],
+          ]);
+
+          expect(Array.from(instance.sort().keys())).toEqual(['item1', 'item2', 'item10']);
+          expect(Array.from(instance.sort(compareKeys).keys())).toEqual([
+            'item1',
+            'item10',
+            'item2',
+          ]);
+        });
       });
 
       describe('.keys(...)', () => {
@@ -419,13 +1045,2019 @@ describe('mappedListFactory', () => {
       });
     });
 
-    describe('immutability', () => {
-      it('should throw when updating an immutable MIMETypeParameters', () => {
-        const instance = new TestClass([['a', 'b']]).makeImmutable();
+    describe('queries', () => {
+      const instance = new TestClass([
+        ['a', 'a1'],
+        ['B', 'b1'],
+        ['a', 'a2'],
+        ['c', 'c1'],
+      ]);
 
-        expect(instance.immutable).toBe(true);
-        expect(() => instance.set('b', 'b1')).toThrow();
+      it('should filter the entries', () => {
+        expect(instance.filter((value: string): boolean => value.endsWith('1'))).toEqual([
+          ['a', 'a1'],
+          ['b', 'b1'],
+          ['c', 'c1'],
+        ]);
+      });
+
+      it('should find an entry', () => {
+        expect(instance.find((_value: string, key: string): boolean => key === 'a')).toEqual([
+          'a',
+          'a1',
+        ]);
+        expect(instance.find((): boolean => false)).toBe(undefined);
+      });
+
+      it('should test the entries', () => {
+        expect(instance.some((value: string): boolean => value === 'b1')).toBe(true);
+        expect(instance.some((value: string): boolean => value === 'b2')).toBe(false);
+        expect(instance.every((value: string): boolean => value.length === 2)).toBe(true);
+        expect(instance.every((_value: string, key: string): boolean => key === 'a')).toBe(false);
+        expect(new TestClass().every((): boolean => false)).toBe(true);
       });
+
+      it('should count the entries of a key', () => {
+        expect(instance.count('A')).toBe(2);
+        expect(instance.count('b')).toBe(1);
+        expect(instance.count('d')).toBe(0);
+        expect(() => instance.count('@invalid')).toThrow(MappedListInvalidKeyError);
+      });
+
+      it('should iterate over the distinct keys', () => {
+        expect(Array.from(instance.uniqueKeys())).toEqual(['a', 'b', 'c']);
+      });
+    });
+
+    describe('observe(...)', () => {
+      it('should report appended entries', () => {
+        const spy = vi.fn();
+        const instance = new TestClass([['a', 'a1']]);
+        instance.observe(spy);
+
+        instance.append('B', 'b1');
+        expect(spy).toHaveBeenCalledTimes(1);
+        expect(spy).toHaveBeenNthCalledWith(1, {
+          type: 'append',
+          added: [{ key: 'b', value: 'b1', index: 1 }],
+          removed: [],
+          moved: [],
+          size: 2,
+        });
+      });
+
+      it('should report the bulk mutations as a single change', () => {
+        const spy = vi.fn();
+        const instance = new TestClass([
+          ['a', 'a1'],
+          ['b', 'b1'],
+          ['a', 'a2'],
+        ]);
+        instance.observe(spy);
+
+        instance.setAll([['A', 'a3']], { keepPosition: true });
+        expect(spy).toHaveBeenCalledTimes(1);
+        expect(spy).toHaveBeenNthCalledWith(1, {
+          type: 'setAll',
+          added: [{ key: 'a', value: 'a3', index: 0 }],
+          removed: [
+            { key: 'a', value: 'a1', index: 0 },
+            { key: 'a', value: 'a2', index: 2 },
+          ],
+          moved: [],
+          size: 2,
+        });
+
+        instance.appendAll([
+          ['c', 'c1'],
+          ['d', 'd1'],
+        ]);
+        expect(spy).toHaveBeenNthCalledWith(2, {
+          type: 'appendAll',
+          added: [
+            { key: 'c', value: 'c1', index: 2 },
+            { key: 'd', value: 'd1', index: 3 },
+          ],
+          removed: [],
+          moved: [],
+          size: 4,
+        });
+
+        instance.deleteKeys(['b', 'd']);
+        expect(spy).toHaveBeenNthCalledWith(3, {
+          type: 'deleteKeys',
+          added: [],
+          removed: [
+            { key: 'b', value: 'b1', index: 1 },
+            { key: 'd', value: 'd1', index: 3 },
+          ],
+          moved: [],
+          size: 2,
+        });
+
+        instance.deleteWhere((): boolean => false);
+        instance.deleteKeys(['z']);
+        instance.appendAll([]);
+        expect(spy).toHaveBeenCalledTimes(3);
+      });
+
+      it('should report deleted entries', () => {
+        const spy = vi.fn();
+        const instance = new TestClass([
+          ['a', 'a1'],
+          ['b', 'b1'],
+          ['a', 'a2'],
+        ]);
+        instance.observe(spy);
+
+        instance.delete('a');
+        expect(spy).toHaveBeenCalledTimes(1);
+        expect(spy).toHaveBeenNthCalledWith(1, {
+          type: 'delete',
+          added: [],
+          removed: [
+            { key: 'a', value: 'a1', index: 0 },
+            { key: 'a', value: 'a2', index: 2 },
+          ],
+          moved: [],
+          size: 1,
+        });
+
+        instance.delete('a');
+        instance.delete('b', 'z');
+        expect(spy).toHaveBeenCalledTimes(1);
+      });
+
+      it('should report set entries', () => {
+        const spy = vi.fn();
+        const instance = new TestClass([
+          ['a', 'a1'],
+          ['b', 'b1'],
+        ]);
+        instance.observe(spy);
+
+        instance.set('a', 'a2');
+        expect(spy).toHaveBeenCalledTimes(1);
+        expect(spy).toHaveBeenNthCalledWith(1, {
+          type: 'set',
+          added: [{ key: 'a', value: 'a2', index: 1 }],
+          removed: [{ key: 'a', value: 'a1', index: 0 }],
+          moved: [],
+          size: 2,
+        });
+      });
+
+      it('should report cleared entries', () => {
+        const spy = vi.fn();
+        const instance = new TestClass([['a', 'a1']]);
+        instance.observe(spy);
+
+        instance.clear();
+        instance.clear();
+        expect(spy).toHaveBeenCalledTimes(1);
+        expect(spy).toHaveBeenNthCalledWith(1, {
+          type: 'clear',
+          added: [],
+          removed: [{ key: 'a', value: 'a1', index: 0 }],
+          moved: [],
+          size: 0,
+        });
+      });
+
+      it('should report sorted entries', () => {
+        const spy = vi.fn();
+        const instance = new TestClass([
+          ['b', 'b1'],
+          ['a', 'a1'],
+          ['c', 'c1'],
+        ]);
+        instance.observe(spy);
+
+        instance.sort();
+        instance.sort();
+        expect(spy).toHaveBeenCalledTimes(1);
+        expect(spy).toHaveBeenNthCalledWith(1, {
+          type: 'sort',
+          added: [],
+          removed: [],
+          moved: [
+            { key: 'a', value: 'a1', from: 1, to: 0 },
+            { key: 'b', value: 'b1', from: 0, to: 1 },
+          ],
+          size: 3,
+        });
+      });
+
+      it('should report positional changes', () => {
+        const spy = vi.fn();
+        const instance = new TestClass([
+          ['a', 'a1'],
+          ['b', 'b1'],
+          ['c', 'c1'],
+        ]);
+        instance.observe(spy);
+
+        instance.insertAt(1, 'd', 'd1');
+        expect(spy).toHaveBeenLastCalledWith({
+          type: 'insertAt',
+          added: [{ key: 'd', value: 'd1', index: 1 }],
+          removed: [],
+          moved: [],
+          size: 4,
+        });
+
+        instance.replaceAt(1, 'e', 'e1');
+        expect(spy).toHaveBeenLastCalledWith({
+          type: 'replaceAt',
+          added: [{ key: 'e', value: 'e1', index: 1 }],
+          removed: [{ key: 'd', value: 'd1', index: 1 }],
+          moved: [],
+          size: 4,
+        });
+
+        instance.move(0, 2);
+        expect(spy).toHaveBeenLastCalledWith({
+          type: 'move',
+          added: [],
+          removed: [],
+          moved: [
+            { key: 'e', value: 'e1', from: 1, to: 0 },
+            { key: 'b', value: 'b1', from: 2, to: 1 },
+            { key: 'a', value: 'a1', from: 0, to: 2 },
+          ],
+          size: 4,
+        });
+
+        instance.splice(1, 2, ['f', 'f1']);
+        expect(spy).toHaveBeenLastCalledWith({
+          type: 'splice',
+          added: [{ key: 'f', value: 'f1', index: 1 }],
+          removed: [
+            { key: 'b', value: 'b1', index: 1 },
+            { key: 'a', value: 'a1', index: 2 },
+          ],
+          moved: [],
+          size: 3,
+        });
+
+        instance.set('e', 'e2', { keepPosition: true });
+        expect(spy).toHaveBeenLastCalledWith({
+          type: 'set',
+          added: [{ key: 'e', value: 'e2', index: 0 }],
+          removed: [{ key: 'e', value: 'e1', index: 0 }],
+          moved: [],
+          size: 3,
+        });
+
+        instance.splice(0, 0);
+        instance.move(1, 1);
+        expect(spy).toHaveBeenCalledTimes(5);
+      });
+
+      it('should report merged entries', () => {
+        const spy = vi.fn();
+        const instance = new TestClass([
+          ['a', 'a1'],
+          ['b', 'b1'],
+        ]);
+        instance.observe(spy);
+
+        instance.merge([['a', 'a2']], { strategy: 'replace' });
+        instance.merge([['a', 'a3']], { strategy: 'keep' });
+        expect(spy).toHaveBeenCalledTimes(1);
+        expect(spy).toHaveBeenNthCalledWith(1, {
+          type: 'merge',
+          added: [{ key: 'a', value: 'a2', index: 1 }],
+          removed: [{ key: 'a', value: 'a1', index: 0 }],
+          moved: [],
+          size: 2,
+        });
+      });
+
+      it('should not report rejected mutations', () => {
+        const spy = vi.fn();
+        const instance = new TestClass([['a', 'a1']]);
+        instance.observe(spy);
+
+        expect(() => instance.append('@invalid', 'b')).toThrow();
+        expect(() => instance.set('a', '@invalid')).toThrow();
+        instance.makeImmutable();
+        expect(() => instance.append('a', 'a2')).toThrow();
+        expect(() => instance.clear()).toThrow();
+        expect(spy).not.toHaveBeenCalled();
+      });
+
+      it('should support unobserving', () => {
+        const spy = vi.fn();
+        const instance = new TestClass();
+        const unobserve = instance.observe(spy);
+
+        instance.append('a', 'a1');
+        unobserve();
+        instance.append('a', 'a2');
+        expect(spy).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('index', () => {
+      it('should keep lookups consistent after mutations', () => {
+        const instance = new TestClass([
+          ['b', 'b1'],
+          ['a', 'a1'],
+          ['b', 'b2'],
+          ['a', 'a2'],
+        ]);
+
+        expect(instance.delete('b', 'b1')).toBe(1);
+        expect(instance.get('b')).toBe('b2');
+        expect(instance.delete('b', 'z')).toBe(0);
+        expect(instance.getAll('b')).toEqual(['b2']);
+
+        instance.sort();
+        expect(instance.getAll('a')).toEqual(['a1', 'a2']);
+        expect(instance.toString()).toBe('; a=a1; a=a2; b=b2');
+
+        instance.set('a', 'a3');
+        expect(instance.getAll('a')).toEqual(['a3']);
+        expect(instance.toString()).toBe('; b=b2; a=a3');
+
+        expect(instance.delete('b', 'b2')).toBe(1);
+        expect(instance.has('b')).toBe(false);
+        expect(instance.getOptional('b')).toBe(undefined);
+        expect(instance.delete('b')).toBe(0);
+
+        instance.clear();
+        expect(instance.has('a')).toBe(false);
+        expect(instance.getAll('a')).toEqual([]);
+      });
+
+      it('should keep insertion order when setting in a loop', () => {
+        const instance = new TestClass();
+
+        for (let i: number = 0; i < 3; i++) {
+          instance.append(`k${i}`, `v${i}`);
+        }
+
+        for (let i: number = 0; i < 3; i++) {
+          instance.set(`k${i}`, `w${i}`);
+        }
+
+        expect(instance.toString()).toBe('; k0=w0; k1=w1; k2=w2');
+        expect(instance.size).toBe(3);
+      });
+    });
+
+    describe('immutability', () => {
+      it('should throw when updating an immutable MIMETypeParameters', () => {
+        const instance = new TestClass([['a', 'b']]).makeImmutable();
+
+        expect(instance.immutable).toBe(true);
+        expect(() => instance.set('b', 'b1')).toThrow();
+      });
+
+      it('should throw on the bulk mutations', () => {
+        const instance = new TestClass([['a', 'b']]).makeImmutable();
+
+        expect(() => instance.appendAll([])).toThrow(MappedListImmutableError);
+        expect(() => instance.setAll([])).toThrow(MappedListImmutableError);
+        expect(() => instance.deleteWhere((): boolean => true)).toThrow(MappedListImmutableError);
+        expect(() => instance.retainWhere((): boolean => false)).toThrow(MappedListImmutableError);
+        expect(() => instance.deleteKeys(['a'])).toThrow(MappedListImmutableError);
+        expect(instance.count('a')).toBe(1);
+      });
+    });
+  });
+
+  describe('preserveKeys', () => {
+    const TestClass = mappedListFactory<string>({
+      validateKey: (key: string): string => key.toLowerCase(),
+      preserveKeys: true,
+      history: 10,
+    });
+
+    let instance: InstanceType<typeof TestClass>;
+
+    beforeEach(() => {
+      instance = new TestClass([
+        ['Content-Type', 'text/html'],
+        ['X-Tag', 'a'],
+        ['x-TAG', 'b'],
+      ]);
+    });
+
+    it('should match the normalized keys', () => {
+      expect(instance.get('CONTENT-TYPE')).toBe('text/html');
+      expect(Array.from(instance.keys())).toEqual(['content-type', 'x-tag', 'x-tag']);
+      expect(Array.from(instance)).toEqual([
+        ['content-type', 'text/html'],
+        ['x-tag', 'a'],
+        ['x-tag', 'b'],
+      ]);
+    });
+
+    it('should iterate over the raw keys', () => {
+      expect(Array.from(instance.rawKeys())).toEqual(['Content-Type', 'X-Tag', 'x-TAG']);
+      expect(Array.from(instance.rawEntries())).toEqual([
+        ['Content-Type', 'text/html'],
+        ['X-Tag', 'a'],
+        ['x-TAG', 'b'],
+      ]);
+    });
+
+    it('should preserve the raw keys of all the mutations', () => {
+      instance
+        .insertAt(0, 'Accept', '*/*')
+        .replaceAt(-1, 'X-TAG', 'c')
+        .merge([['Via', '1.1']]);
+      instance.splice(1, 1, ['CONTENT-type', 'text/plain']);
+
+      expect(Array.from(instance.rawKeys())).toEqual([
+        'Accept',
+        'CONTENT-type',
+        'X-Tag',
+        'X-TAG',
+        'Via',
+      ]);
+    });
+
+    it('should convert with the raw keys', () => {
+      expect(instance.toArray({ keys: 'raw' })).toEqual(Array.from(instance.rawEntries()));
+      expect(instance.toObject({ keys: 'raw' })).toEqual({
+        'Content-Type': 'text/html',
+        'X-Tag': 'a',
+      });
+      expect(instance.toObject({ keys: 'raw', keep: 'last' })).toEqual({
+        'Content-Type': 'text/html',
+        'x-TAG': 'b',
+      });
+      expect(instance.toGroupedObject({ keys: 'raw' })).toEqual({
+        'Content-Type': ['text/html'],
+        'X-Tag': ['a', 'b'],
+      });
+      expect(instance.toGroupedObject()).toEqual({
+        'content-type': ['text/html'],
+        'x-tag': ['a', 'b'],
+      });
+      expect(Array.from(instance.toMap({ keys: 'raw' }))).toEqual([
+        ['Content-Type', ['text/html']],
+        ['X-Tag', ['a', 'b']],
+      ]);
+    });
+
+    it('should serialize the raw keys to JSON', () => {
+      const json: string = JSON.stringify(instance);
+
+      expect(json).toBe('[["Content-Type","text/html"],["X-Tag","a"],["x-TAG","b"]]');
+      expect(Array.from(new TestClass(JSON.parse(json)).rawKeys())).toEqual(
+        Array.from(instance.rawKeys()),
+      );
+    });
+
+    it('should keep the raw key chosen by set', () => {
+      instance.set('X-TAG', 'c');
+      expect(Array.from(instance.rawEntries())).toContainEqual(['X-TAG', 'c']);
+
+      instance.append('x-tag', 'd');
+      instance.set('X-TAG', 'e', { keySpelling: 'first' });
+      expect(Array.from(instance.rawEntries())).toContainEqual(['X-TAG', 'e']);
+
+      instance.append('x-tag', 'f');
+      instance.set('X-TAG', 'g', { keySpelling: 'last' });
+      expect(Array.from(instance.rawEntries())).toContainEqual(['x-tag', 'g']);
+
+      instance.set('Via', '1.1', { keySpelling: 'first' });
+      expect(Array.from(instance.rawKeys())).toContain('Via');
+    });
+
+    it('should report the raw keys to the observers', () => {
+      const spy = vi.fn();
+      instance.observe(spy);
+
+      instance.append('Accept', '*/*').append('accept', 'text/html');
+      expect(spy).toHaveBeenNthCalledWith(1, {
+        type: 'append',
+        added: [{ key: 'accept', value: '*/*', index: 3, rawKey: 'Accept' }],
+        removed: [],
+        moved: [],
+        size: 4,
+      });
+      expect(spy.mock.calls[1][0].added[0]).not.toHaveProperty('rawKey');
+    });
+
+    it('should restore the raw keys on undo and redo', () => {
+      instance.clear();
+      expect(instance.undo()).toBe(true);
+      expect(Array.from(instance.rawKeys())).toEqual(['Content-Type', 'X-Tag', 'x-TAG']);
+
+      instance.set('X-Tag', 'c', { keySpelling: 'last' });
+      instance.undo();
+      instance.redo();
+      expect(Array.from(instance.rawEntries())).toEqual([
+        ['Content-Type', 'text/html'],
+        ['x-TAG', 'c'],
+      ]);
+    });
+
+    it('should not preserve the raw keys by default', () => {
+      const instance = new (mappedListFactory<string>({
+        validateKey: (key: string): string => key.toLowerCase(),
+      }))([['A', 'a']]);
+
+      expect(Array.from(instance.rawKeys())).toEqual(['a']);
+      expect(instance.toArray({ keys: 'raw' })).toEqual([['a', 'a']]);
+      expect(JSON.stringify(instance)).toBe('[["a","a"]]');
+    });
+  });
+
+  describe('views', () => {
+    const TestClass = mappedListFactory<string>({
+      validateKey: (key: string): string => key.toLowerCase(),
+      validateValue: (value: string): string => value.trim(),
+    });
+
+    let instance: InstanceType<typeof TestClass>;
+
+    beforeEach(() => {
+      instance = new TestClass([
+        ['x-trace-id', '1'],
+        ['accept', 'text/html'],
+        ['x-trace-span', '2'],
+        ['x-trace-id', '3'],
+      ]);
+    });
+
+    describe('keyFilteredView', () => {
+      let view: ReadonlyMappedList<string>;
+
+      beforeEach(() => {
+        view = instance.keyFilteredView((key: string): boolean => key.startsWith('x-trace-'));
+      });
+
+      it('should read the matching entries', () => {
+        expect(view.size).toBe(3);
+        expect(view.get('X-Trace-Id')).toBe('1');
+        expect(view.getAll('x-trace-id')).toEqual(['1', '3']);
+        expect(view.getOptional('accept')).toBeUndefined();
+        expect(() => view.get('accept')).toThrow('Missing: accept');
+        expect(view.has('x-trace-span')).toBe(true);
+        expect(view.has('accept')).toBe(false);
+        expect(view.has('x-trace-id', ' 3 ')).toBe(true);
+        expect(view.hasEntry('accept', 'text/html')).toBe(false);
+        expect(Array.from(view.keys())).toEqual(['x-trace-id', 'x-trace-span', 'x-trace-id']);
+        expect(Array.from(view.values())).toEqual(['1', '2', '3']);
+      });
+
+      it('should support the positional methods', () => {
+        expect(view.at(1)).toEqual(['x-trace-span', '2']);
+        expect(view.at(-1)).toEqual(['x-trace-id', '3']);
+        expect(view.at(3)).toBeUndefined();
+        expect(view.at(-4)).toBeUndefined();
+        expect(view.indexOf('x-trace-span')).toBe(1);
+        expect(view.indexOf('x-trace-id', '3')).toBe(2);
+        expect(view.indexOf('accept')).toBe(-1);
+      });
+
+      it('should reflect the mutations of the list', () => {
+        instance.delete('x-trace-id');
+        instance.append('X-Trace-Parent', '4');
+
+        const spy = vi.fn();
+        view.forEach(spy);
+
+        expect(Array.from(view)).toEqual([
+          ['x-trace-span', '2'],
+          ['x-trace-parent', '4'],
+        ]);
+        expect(spy).toHaveBeenCalledTimes(2);
+        expect(spy).toHaveBeenNthCalledWith(2, '4', 'x-trace-parent');
+      });
+    });
+
+    describe('filteredView', () => {
+      it('should read the entries matching the predicate', () => {
+        const view: ReadonlyMappedList<string> = instance.filteredView(
+          (value: string, key: string): boolean => key === 'x-trace-id' && value !== '1',
+        );
+
+        expect(Array.from(view)).toEqual([['x-trace-id', '3']]);
+        expect(view.get('x-trace-id')).toBe('3');
+        expect(view.has('x-trace-id', '1')).toBe(false);
+
+        instance.set('x-trace-id', '5');
+        expect(view.getAll('x-trace-id')).toEqual(['5']);
+      });
+    });
+
+    describe('valuesView', () => {
+      it('should read the values of the key', () => {
+        const values = instance.valuesView('X-Trace-Id');
+
+        expect(values.key).toBe('x-trace-id');
+        expect(values.size).toBe(2);
+        expect(Array.from(values)).toEqual(['1', '3']);
+        expect(values.has(' 3')).toBe(true);
+        expect(values.has('2')).toBe(false);
+      });
+
+      it('should write through to the list', () => {
+        const spy = vi.fn();
+        const values = instance.valuesView('x-trace-id');
+        instance.observe(spy);
+
+        values.add(' 4 ');
+        expect(instance.getAll('x-trace-id')).toEqual(['1', '3', '4']);
+        expect(values.delete('1')).toBe(true);
+        expect(values.delete('1')).toBe(false);
+        expect(Array.from(instance.keys())).toEqual([
+          'accept',
+          'x-trace-span',
+          'x-trace-id',
+          'x-trace-id',
+        ]);
+        values.clear();
+        expect(instance.has('x-trace-id')).toBe(false);
+        expect(values.size).toBe(0);
+        expect(spy).toHaveBeenCalledTimes(3);
+      });
+
+      it('should honor the immutability of the list', () => {
+        const values = instance.valuesView('x-trace-id');
+
+        expect(values.immutable).toBe(false);
+        instance.makeImmutable();
+        expect(values.immutable).toBe(true);
+        expect(() => values.add('4')).toThrow();
+        expect(() => values.delete('1')).toThrow();
+        expect(() => values.clear()).toThrow();
+        expect(Array.from(values)).toEqual(['1', '3']);
+      });
+    });
+  });
+
+  describe('conversions', () => {
+    const TestClass = mappedListFactory<string>({
+      validateKey: (key: string): string => key.toLowerCase(),
+    });
+
+    let instance: InstanceType<typeof TestClass>;
+
+    beforeEach(() => {
+      instance = new TestClass([
+        ['b', 'b1'],
+        ['a', 'a1'],
+        ['b', 'b2'],
+        ['c', 'c1'],
+      ]);
+    });
+
+    it('should convert to an array', () => {
+      const array = instance.toArray();
+
+      expect(array).toEqual([
+        ['b', 'b1'],
+        ['a', 'a1'],
+        ['b', 'b2'],
+        ['c', 'c1'],
+      ]);
+      array.pop();
+      expect(instance.size).toBe(4);
+    });
+
+    it('should convert to an object', () => {
+      expect(Object.entries(instance.toObject())).toEqual([
+        ['b', 'b1'],
+        ['a', 'a1'],
+        ['c', 'c1'],
+      ]);
+      expect(Object.entries(instance.toObject({ keep: 'last' }))).toEqual([
+        ['b', 'b2'],
+        ['a', 'a1'],
+        ['c', 'c1'],
+      ]);
+    });
+
+    it('should not change the prototype of the object', () => {
+      const object: Record<string, string> = new TestClass([['__proto__', 'a']]).toObject();
+
+      expect(Object.getPrototypeOf(object)).toBe(Object.prototype);
+      expect(Object.keys(object)).toEqual(['__proto__']);
+    });
+
+    it('should convert to a grouped object', () => {
+      expect(Object.entries(instance.toGroupedObject())).toEqual([
+        ['b', ['b1', 'b2']],
+        ['a', ['a1']],
+        ['c', ['c1']],
+      ]);
+    });
+
+    it('should convert to a map', () => {
+      instance.insertAt(0, 'd', 'd1');
+
+      expect(Array.from(instance.toMap())).toEqual([
+        ['d', ['d1']],
+        ['b', ['b1', 'b2']],
+        ['a', ['a1']],
+        ['c', ['c1']],
+      ]);
+    });
+
+    it('should group the entries', () => {
+      expect(
+        Array.from(instance.groupBy((_value: string, key: string): boolean => key === 'b')),
+      ).toEqual([
+        [
+          true,
+          [
+            ['b', 'b1'],
+            ['b', 'b2'],
+          ],
+        ],
+        [
+          false,
+          [
+            ['a', 'a1'],
+            ['c', 'c1'],
+          ],
+        ],
+      ]);
+    });
+
+    it('should serialize to JSON', () => {
+      const json: string = JSON.stringify(instance);
+
+      expect(json).toBe('[["b","b1"],["a","a1"],["b","b2"],["c","c1"]]');
+      expect(Array.from(new TestClass(JSON.parse(json)))).toEqual(Array.from(instance));
+    });
+
+    it('should create a list from grouped values', () => {
+      expect(Array.from(TestClass.fromGrouped({ B: ['b1', 'b2'], a: ['a1'] }))).toEqual([
+        ['b', 'b1'],
+        ['b', 'b2'],
+        ['a', 'a1'],
+      ]);
+      expect(Array.from(TestClass.fromGrouped(instance.toMap()))).toEqual([
+        ['b', 'b1'],
+        ['b', 'b2'],
+        ['a', 'a1'],
+        ['c', 'c1'],
+      ]);
+      expect(TestClass.fromGrouped({ a: [] }).size).toBe(0);
+    });
+
+    it('should create an instance of the subclass from grouped values', () => {
+      class SubClass extends TestClass {
+        first(): string | undefined {
+          return this.at(0)?.[1];
+        }
+      }
+
+      const subInstance: SubClass = SubClass.fromGrouped({ a: ['a1'] });
+
+      expect(subInstance).toBeInstanceOf(SubClass);
+      expect(subInstance.first()).toBe('a1');
+    });
+  });
+
+  describe('errors', () => {
+    const keyError = new Error('Invalid key');
+    const valueError = new Error('Invalid value');
+    const TestClass = mappedListFactory<string>({
+      validateKey: (key: string): string => {
+        if (key === '@invalid') {
+          throw keyError;
+        }
+        return key.toLowerCase();
+      },
+      validateValue: (value: string): string => {
+        if (value === '@invalid') {
+          throw valueError;
+        }
+        return value;
+      },
+    });
+
+    function catchError(callback: () => unknown): unknown {
+      try {
+        callback();
+      } catch (error: unknown) {
+        return error;
+      }
+      throw new Error('Expected an error');
+    }
+
+    it('should throw a MappedListMissingKeyError for missing keys', () => {
+      const error = catchError(() => new TestClass().get('A'));
+
+      expect(error).toBeInstanceOf(MappedListMissingKeyError);
+      expect(error).toMatchObject({
+        name: 'MappedListMissingKeyError',
+        message: 'Missing: a',
+        key: 'a',
+        operation: 'get',
+      });
+    });
+
+    it('should wrap the errors of validateKey', () => {
+      const error = catchError(() => new TestClass().insertAt(0, '@invalid', 'a'));
+
+      expect(error).toBeInstanceOf(MappedListInvalidKeyError);
+      expect(error).toBeInstanceOf(TypeError);
+      expect(error).toMatchObject({
+        name: 'MappedListInvalidKeyError',
+        message: 'Invalid key',
+        key: '@invalid',
+        operation: 'insertAt',
+        index: 0,
+        cause: keyError,
+      });
+      expect(catchError(() => new TestClass().has('@invalid'))).toMatchObject({
+        operation: 'has',
+        index: undefined,
+      });
+    });
+
+    it('should wrap the errors of validateValue', () => {
+      const instance = new TestClass([['a', 'a1']]);
+      const error = catchError(() => instance.splice(1, 0, ['b', 'b1'], ['C', '@invalid']));
+
+      expect(error).toBeInstanceOf(MappedListInvalidValueError);
+      expect(error).toBeInstanceOf(TypeError);
+      expect(error).toMatchObject({
+        name: 'MappedListInvalidValueError',
+        message: 'Invalid value',
+        key: 'c',
+        value: '@invalid',
+        operation: 'splice',
+        index: 2,
+        cause: valueError,
+      });
+      expect(instance.size).toBe(1);
+    });
+
+    it('should describe the validators errors that are not errors', () => {
+      const instance = new (mappedListFactory<string>({
+        validateValue: (): string => {
+          throw 'invalid';
+        },
+      }))();
+      const error = catchError(() => instance.set('a', 'a1'));
+
+      expect(error).toBeInstanceOf(MappedListInvalidValueError);
+      expect(error).toMatchObject({ message: 'Invalid value: a', cause: 'invalid' });
+    });
+
+    it('should throw a MappedListImmutableError when mutating an immutable list', () => {
+      const instance = new TestClass().makeImmutable();
+
+      for (const [operation, callback] of [
+        ['append', () => instance.append('a', 'a1')],
+        ['set', () => instance.set('a', 'a1')],
+        ['delete', () => instance.delete('a')],
+        ['sort', () => instance.sort()],
+        ['clear', () => instance.clear()],
+        ['merge', () => instance.merge({})],
+      ] as const) {
+        const error = catchError(callback);
+
+        expect(error).toBeInstanceOf(MappedListImmutableError);
+        expect(error).toMatchObject({
+          name: 'MappedListImmutableError',
+          message: `Immutable: ${operation}`,
+          operation,
+        });
+      }
+    });
+  });
+
+  describe('capacity', () => {
+    function* generate(
+      count: number,
+      onYield: () => void = (): void => {},
+    ): Generator<[string, string]> {
+      for (let i: number = 0; i < count; i++) {
+        onYield();
+        yield [`k${i % 2}`, `v${i}`];
+      }
+    }
+
+    describe('reject', () => {
+      const TestClass = mappedListFactory<string>({
+        capacity: { maxEntries: 3, maxEntriesPerKey: 2, maxSize: 12 },
+      });
+
+      it('should reject the entries exceeding maxEntries', () => {
+        const instance = new TestClass([
+          ['a', '1'],
+          ['b', '1'],
+          ['c', '1'],
+        ]);
+
+        expect(() => instance.append('d', '1')).toThrow(
+          expect.objectContaining({
+            constructor: MappedListCapacityError,
+            message: 'Too many entries (max: 3)',
+            limit: 'maxEntries',
+            max: 3,
+            key: undefined,
+            operation: 'append',
+          }),
+        );
+        expect(() => instance.insertAt(0, 'd', '1')).toThrow(MappedListCapacityError);
+        expect(() => instance.splice(0, 0, ['d', '1'])).toThrow(MappedListCapacityError);
+        expect(() => instance.merge({ d: '1' })).toThrow(MappedListCapacityError);
+        expect(Array.from(instance.keys())).toEqual(['a', 'b', 'c']);
+
+        // the removed entries make room
+        instance.set('a', '2').replaceAt(0, 'd', '1').splice(0, 1, ['e', '1']);
+        expect(Array.from(instance.keys())).toEqual(['e', 'c', 'a']);
+      });
+
+      it('should reject the entries exceeding maxEntriesPerKey', () => {
+        const instance = new TestClass([
+          ['a', '1'],
+          ['a', '2'],
+        ]);
+
+        expect(() => instance.append('a', '3')).toThrow(
+          expect.objectContaining({
+            constructor: MappedListCapacityError,
+            message: 'Too many entries: a (max: 2)',
+            limit: 'maxEntriesPerKey',
+            key: 'a',
+          }),
+        );
+        expect(() =>
+          new TestClass().appendAll([
+            ['b', '1'],
+            ['b', '2'],
+            ['b', '3'],
+          ]),
+        ).toThrow('Too many entries: b (max: 2)');
+        expect(instance.getAll('a')).toEqual(['1', '2']);
+      });
+
+      it('should reject the entries exceeding maxSize', () => {
+        const instance = new TestClass([
+          ['a', '12345'],
+          ['b', '1'],
+        ]);
+
+        // the default sizer adds the lengths of the key and of the value
+        expect(() => instance.append('c', '1234')).toThrow(
+          expect.objectContaining({
+            constructor: MappedListCapacityError,
+            message: 'Too large (max size: 12)',
+            limit: 'maxSize',
+          }),
+        );
+
+        instance.set('a', '1').append('c', '1234');
+        expect(instance.size).toBe(3);
+      });
+
+      it('should stop consuming the input of the constructor', () => {
+        const onYield = vi.fn();
+
+        expect(
+          () =>
+            new (mappedListFactory<string>({ capacity: { maxEntries: 3 } }))(
+              generate(10_000, onYield),
+            ),
+        ).toThrow(MappedListCapacityError);
+        expect(onYield).toHaveBeenCalledTimes(4);
+      });
+    });
+
+    describe('evictOldest', () => {
+      const TestClass = mappedListFactory<string>({
+        capacity: { maxEntries: 3, maxEntriesPerKey: 2, overflow: 'evictOldest' },
+      });
+
+      it('should evict the first entries', () => {
+        const instance = new TestClass([
+          ['a', '1'],
+          ['b', '1'],
+          ['c', '1'],
+        ]);
+
+        instance.append('d', '1');
+        expect(Array.from(instance.keys())).toEqual(['b', 'c', 'd']);
+        expect(instance.has('a')).toBe(false);
+
+        instance.insertAt(1, 'e', '1');
+        expect(Array.from(instance.keys())).toEqual(['e', 'c', 'd']);
+
+        instance.insertAt(-1, 'f', '1');
+        expect(Array.from(instance.keys())).toEqual(['c', 'f', 'd']);
+      });
+
+      it('should evict the first entries of the keys exceeding maxEntriesPerKey', () => {
+        const instance = new TestClass([
+          ['a', '1'],
+          ['b', '1'],
+          ['a', '2'],
+        ]);
+
+        instance.set('b', '2').append('a', '3');
+        expect(Array.from(instance)).toEqual([
+          ['a', '2'],
+          ['b', '2'],
+          ['a', '3'],
+        ]);
+        expect(instance.getAll('a')).toEqual(['2', '3']);
+      });
+
+      it('should keep the last entries of the input of the constructor', () => {
+        expect(Array.from(new TestClass(generate(10_000)))).toEqual([
+          ['k1', 'v9997'],
+          ['k0', 'v9998'],
+          ['k1', 'v9999'],
+        ]);
+      });
+
+      it('should never evict the new entries', () => {
+        const instance = new TestClass([['a', '1']]);
+
+        expect(() =>
+          instance.appendAll([
+            ['b', '1'],
+            ['c', '1'],
+            ['d', '1'],
+            ['e', '1'],
+          ]),
+        ).toThrow(MappedListCapacityError);
+        expect(Array.from(instance.keys())).toEqual(['a']);
+
+        instance.appendAll([
+          ['b', '1'],
+          ['c', '1'],
+          ['d', '1'],
+        ]);
+        expect(Array.from(instance.keys())).toEqual(['b', 'c', 'd']);
+      });
+
+      it('should evict by size', () => {
+        const instance = new (mappedListFactory<string>({
+          capacity: {
+            maxSize: 10,
+            sizer: (_key: string, value: string): number => value.length,
+            overflow: 'evictOldest',
+          },
+        }))([
+          ['a', '1234'],
+          ['b', '1234'],
+        ]);
+
+        instance.append('c', '123');
+        expect(Array.from(instance.keys())).toEqual(['b', 'c']);
+        instance.append('d', '1234567');
+        expect(Array.from(instance.keys())).toEqual(['c', 'd']);
+        expect(() => instance.append('e', '12345678901')).toThrow('Too large (max size: 10)');
+        instance.clear();
+        instance.append('e', '1234567890');
+        expect(instance.size).toBe(1);
+      });
+    });
+
+    describe('evictOldestOfKey', () => {
+      const TestClass = mappedListFactory<string>({
+        capacity: { maxEntries: 3, overflow: 'evictOldestOfKey' },
+      });
+
+      it('should evict the first entries with the same key', () => {
+        const instance = new TestClass([
+          ['a', '1'],
+          ['b', '1'],
+          ['b', '2'],
+        ]);
+
+        instance.append('b', '3');
+        expect(Array.from(instance)).toEqual([
+          ['a', '1'],
+          ['b', '2'],
+          ['b', '3'],
+        ]);
+
+        expect(() => instance.append('c', '1')).toThrow(
+          expect.objectContaining({ constructor: MappedListCapacityError, limit: 'maxEntries' }),
+        );
+        expect(instance.size).toBe(3);
+      });
+    });
+
+    it('should report the evictions with the change making room, and undo them together', () => {
+      const spy = vi.fn();
+      const instance = new (mappedListFactory<string>({
+        history: 10,
+        capacity: { maxEntries: 2, overflow: 'evictOldest' },
+      }))([
+        ['a', '1'],
+        ['b', '1'],
+      ]);
+      instance.observe(spy);
+
+      instance.append('c', '1');
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(spy).toHaveBeenNthCalledWith(1, {
+        type: 'evict',
+        added: [],
+        removed: [{ key: 'a', value: '1', index: 0 }],
+        moved: [],
+        size: 1,
+      });
+      expect(spy).toHaveBeenNthCalledWith(2, {
+        type: 'append',
+        added: [{ key: 'c', value: '1', index: 1 }],
+        removed: [],
+        moved: [],
+        size: 2,
+      });
+
+      instance.insertAt(1, 'd', '1');
+      expect(Array.from(instance.keys())).toEqual(['d', 'c']);
+
+      expect(instance.undo()).toBe(true);
+      expect(Array.from(instance.keys())).toEqual(['b', 'c']);
+      expect(instance.undo()).toBe(true);
+      expect(Array.from(instance.keys())).toEqual(['a', 'b']);
+      expect(instance.redo()).toBe(true);
+      expect(Array.from(instance.keys())).toEqual(['b', 'c']);
+    });
+
+    it('should track the size through transactions and history', () => {
+      const instance = new (mappedListFactory<string>({
+        history: 10,
+        capacity: { maxSize: 4, sizer: (): number => 1 },
+      }))([
+        ['a', '1'],
+        ['b', '1'],
+      ]);
+
+      expect(() =>
+        instance.transaction((list) => {
+          list.append('c', '1').append('d', '1');
+          throw new Error('Rollback');
+        }),
+      ).toThrow('Rollback');
+      instance.append('c', '1').append('d', '1');
+      expect(() => instance.append('e', '1')).toThrow(MappedListCapacityError);
+
+      instance.undo();
+      instance.undo();
+      instance.redo();
+      instance.append('e', '1');
+      expect(() => instance.append('f', '1')).toThrow(MappedListCapacityError);
+      instance.deleteKeys(['a', 'b']);
+      instance.setAll([
+        ['f', '1'],
+        ['g', '1'],
+      ]);
+      expect(instance.size).toBe(4);
+    });
+  });
+
+  describe('key queries', () => {
+    const TestClass = mappedListFactory<string>({ history: 10 });
+
+    function create(): InstanceType<typeof TestClass> {
+      return new TestClass([
+        ['filter.status', 'open'],
+        ['sort', 'date'],
+        ['filter.owner', 'me'],
+        ['filter', 'all'],
+        ['filter.status', 'closed'],
+        ['x-amz-meta-a', '1'],
+      ]);
+    }
+
+    function keysMatching(instance: InstanceType<typeof TestClass>, query: MappedListKeyQuery) {
+      return instance
+        .entriesMatching(query)
+        .map(([key, value]: MappedListTuple<string>): string => `${key}=${value}`);
+    }
+
+    it.each([
+      ['unsorted', create],
+      ['sorted', () => create().sort()],
+    ])(
+      'should query the keys of a %s list',
+      (type: string, init: () => InstanceType<typeof TestClass>) => {
+        const instance = init();
+        const sorted: boolean = type === 'sorted';
+
+        expect(keysMatching(instance, { prefix: 'filter.' })).toEqual(
+          sorted
+            ? ['filter.owner=me', 'filter.status=open', 'filter.status=closed']
+            : ['filter.status=open', 'filter.owner=me', 'filter.status=closed'],
+        );
+        expect(keysMatching(instance, { prefix: '' })).toHaveLength(6);
+        expect(keysMatching(instance, { glob: 'filter.*s' })).toEqual([
+          'filter.status=open',
+          'filter.status=closed',
+        ]);
+        expect(keysMatching(instance, { glob: 'x-amz-meta-?' })).toEqual(['x-amz-meta-a=1']);
+        expect(keysMatching(instance, { glob: 'filter' })).toEqual(['filter=all']);
+        expect(keysMatching(instance, { glob: 'filter.(owner)' })).toEqual([]);
+        expect(keysMatching(instance, { start: 'filter.p', end: 'sort' })).toEqual([
+          'filter.status=open',
+          'filter.status=closed',
+        ]);
+        expect(keysMatching(instance, { start: 'sort' })).toEqual(['sort=date', 'x-amz-meta-a=1']);
+        expect(keysMatching(instance, /^filter\.o|sort/)).toEqual(
+          sorted ? ['filter.owner=me', 'sort=date'] : ['sort=date', 'filter.owner=me'],
+        );
+      },
+    );
+
+    it('should support the prefixes ending with U+FFFF', () => {
+      const instance = new TestClass([
+        ['a\uffff', '1'],
+        ['a\uffffb', '2'],
+        ['b', '3'],
+      ]).sort();
+
+      expect(keysMatching(instance, { prefix: 'a\uffff' })).toEqual(['a\uffff=1', 'a\uffffb=2']);
+    });
+
+    it('should preserve the lastIndex of the global RegExp', () => {
+      const regexp: RegExp = /filter/g;
+      regexp.lastIndex = 3;
+
+      expect(create().entriesMatching(regexp)).toHaveLength(4);
+      expect(regexp.lastIndex).toBe(3);
+    });
+
+    it('should keep querying correctly once a sorted list is reordered', () => {
+      const instance = create().sort();
+
+      instance.append('filter.a', '1');
+      expect(keysMatching(instance, { prefix: 'filter.' })).toContain('filter.a=1');
+
+      instance.sort().insertAt(0, 'filter.z', '1');
+      expect(keysMatching(instance, { prefix: 'filter.' })).toContain('filter.z=1');
+
+      instance.sort().move(0, -1);
+      expect(keysMatching(instance, { prefix: 'filter' })).toHaveLength(6);
+
+      instance.sort().setAll({ a: '1', filter: 'none' });
+      expect(keysMatching(instance, { start: 'a', end: 'filter.' })).toEqual([
+        'a=1',
+        'filter=none',
+      ]);
+
+      instance.sort().splice(0, 1, ['z', '1'], ['filter.b', '1']);
+      expect(keysMatching(instance, { prefix: 'filter.b' })).toEqual(['filter.b=1']);
+
+      instance.sort((a: MappedListTuple<string>, b: MappedListTuple<string>): number =>
+        compareKeys(b, a),
+      );
+      expect(keysMatching(instance, { prefix: 'filter.s' })).toHaveLength(2);
+
+      instance.clear();
+      instance.append('b', '1').append('a', '1');
+      expect(keysMatching(instance, { prefix: 'a' })).toEqual(['a=1']);
+    });
+
+    it('should keep querying correctly after undo', () => {
+      const instance = create().sort();
+
+      instance.deleteKeys(['sort']);
+      instance.move(0, -1);
+      instance.undo();
+      instance.undo();
+
+      expect(keysMatching(instance, { prefix: 'sort' })).toEqual(['sort=date']);
+    });
+
+    it('should delete a namespace', () => {
+      const instance = create();
+      const spy = vi.fn();
+      instance.observe(spy);
+
+      expect(instance.deleteMatching({ prefix: 'filter.' })).toBe(3);
+      expect(instance.deleteMatching({ prefix: 'filter.' })).toBe(0);
+      expect(Array.from(instance.keys())).toEqual(['sort', 'filter', 'x-amz-meta-a']);
+      expect(spy).toHaveBeenCalledTimes(1);
+      expect(spy.mock.calls[0][0]).toMatchObject({ type: 'deleteMatching', size: 3 });
+    });
+
+    it('should extract a namespace', () => {
+      const instance = create().sort();
+
+      expect(instance.extractMatching({ glob: 'filter.*' })).toEqual([
+        ['filter.owner', 'me'],
+        ['filter.status', 'open'],
+        ['filter.status', 'closed'],
+      ]);
+      expect(instance.extractMatching({ glob: 'filter.*' })).toEqual([]);
+      expect(Array.from(instance.keys())).toEqual(['filter', 'sort', 'x-amz-meta-a']);
+
+      instance.undo();
+      expect(instance.size).toBe(6);
+    });
+
+    it('should not delete from an immutable list', () => {
+      const instance = create().makeImmutable();
+
+      expect(() => instance.deleteMatching({ prefix: 'a' })).toThrow(MappedListImmutableError);
+      expect(() => instance.extractMatching({ prefix: 'a' })).toThrow(MappedListImmutableError);
+    });
+  });
+
+  describe('guard', () => {
+    describe('reject', () => {
+      const TestClass = mappedListFactory<string>({
+        validateKey: (key: string): string => key.toLowerCase(),
+        guard: { forbiddenKeys: new Set(['x']) },
+      });
+
+      it('should reject the forbidden keys', () => {
+        const instance = new TestClass([['a', '1']]);
+
+        expect(() => instance.append('X', '1')).toThrow(
+          expect.objectContaining({
+            constructor: MappedListForbiddenKeyError,
+            message: 'Forbidden: x',
+            key: 'x',
+            operation: 'append',
+          }),
+        );
+        expect(() => instance.set('x', '1')).toThrow(MappedListForbiddenKeyError);
+        expect(() => instance.insertAt(0, 'x', '1')).toThrow(MappedListForbiddenKeyError);
+        expect(() => instance.replaceAt(0, 'x', '1')).toThrow(MappedListForbiddenKeyError);
+        expect(() => instance.splice(0, 1, ['b', '1'], ['x', '1'])).toThrow(
+          MappedListForbiddenKeyError,
+        );
+        expect(() => instance.merge({ b: '1', x: '1' })).toThrow(MappedListForbiddenKeyError);
+        expect(() => instance.appendAll({ b: '1', x: '1' })).toThrow(MappedListForbiddenKeyError);
+        expect(() => instance.setAll({ b: '1', x: '1' })).toThrow(MappedListForbiddenKeyError);
+        expect(instance.toArray()).toEqual([['a', '1']]);
+      });
+
+      it('should report the forbidden keys of the constructor', () => {
+        expect(() => new TestClass([['x', '1']])).toThrow(MappedListValidationError);
+      });
+    });
+
+    describe('drop', () => {
+      const TestClass = mappedListFactory<string>({
+        guard: {
+          forbiddenKeys: (key: string, value: string): boolean =>
+            key === 'x' || value === 'forbidden',
+          onForbidden: 'drop',
+        },
+      });
+
+      it('should drop the forbidden entries', () => {
+        const instance = new TestClass([
+          ['x', '1'],
+          ['a', '1'],
+          ['b', 'forbidden'],
+        ]);
+
+        instance
+          .append('x', '1')
+          .set('a', 'forbidden')
+          .insertAt(0, 'x', '1')
+          .replaceAt(0, 'x', '1')
+          .appendAll({ b: '1', x: '1' })
+          .setAll({ c: '1', x: '1' })
+          .merge({ d: '1', x: '1' });
+        expect(instance.splice(0, 0, ['x', '1'], ['e', '1'])).toEqual([]);
+
+        expect(instance.toArray()).toEqual([
+          ['e', '1'],
+          ['a', '1'],
+          ['b', '1'],
+          ['c', '1'],
+          ['d', '1'],
+        ]);
+      });
+
+      it('should drop the values returned by the merge resolvers', () => {
+        const instance = new TestClass([['a', '1']]);
+
+        instance.merge({ a: '2' }, { strategy: (): string[] => ['forbidden', '3'] });
+        expect(instance.toArray()).toEqual([['a', '3']]);
+      });
+    });
+  });
+
+  describe('lockKey', () => {
+    const TestClass = mappedListFactory<string>({
+      validateKey: (key: string): string => key.toLowerCase(),
+      history: 10,
+    });
+
+    it('should make the locked keys read-only', () => {
+      const instance = new TestClass([
+        ['a', '1'],
+        ['b', '1'],
+      ]).lockKey('A');
+
+      expect(instance.isKeyLocked('a')).toBe(true);
+      expect(instance.isKeyLocked('b')).toBe(false);
+
+      expect(() => instance.append('a', '2')).toThrow(
+        expect.objectContaining({
+          constructor: MappedListLockedKeyError,
+          message: 'Locked: a',
+          key: 'a',
+          operation: 'append',
+        }),
+      );
+      expect(() => instance.set('a', '2')).toThrow(MappedListLockedKeyError);
+      expect(() => instance.delete('a')).toThrow(MappedListLockedKeyError);
+      expect(() => instance.deleteEntry('a', '1')).toThrow(MappedListLockedKeyError);
+      expect(() => instance.valuesView('a').delete('1')).toThrow(MappedListLockedKeyError);
+      expect(() => instance.insertAt(0, 'a', '2')).toThrow(MappedListLockedKeyError);
+      expect(() => instance.replaceAt(0, 'c', '1')).toThrow(MappedListLockedKeyError);
+      expect(() => instance.splice(0)).toThrow(MappedListLockedKeyError);
+      expect(() => instance.merge({ a: '2' })).toThrow(MappedListLockedKeyError);
+      expect(() => instance.merge({ b: '2', c: '2' }, { strategy: 'replace' })).not.toThrow();
+      expect(() => instance.appendAll({ c: '1', a: '2' })).toThrow(MappedListLockedKeyError);
+      expect(() => instance.setAll({ c: '1', a: '2' })).toThrow(MappedListLockedKeyError);
+      expect(() => instance.deleteWhere((value: string): boolean => value === '1')).toThrow(
+        MappedListLockedKeyError,
+      );
+      expect(() => instance.retainWhere((): boolean => false)).toThrow(MappedListLockedKeyError);
+      expect(() => instance.deleteKeys(['c', 'a'])).toThrow(MappedListLockedKeyError);
+      expect(() => instance.clear()).toThrow(MappedListLockedKeyError);
+      expect(instance.toArray()).toEqual([
+        ['a', '1'],
+        ['b', '2'],
+        ['c', '2'],
+      ]);
+    });
+
+    it('should keep the rest of the list mutable', () => {
+      const instance = new TestClass([
+        ['b', '1'],
+        ['a', '1'],
+      ]).lockKey('a');
+
+      instance.append('c', '1').set('b', '2').deleteKeys(['c']);
+      instance.sort().move(0, 1);
+
+      expect(instance.toArray()).toEqual([
+        ['b', '2'],
+        ['a', '1'],
+      ]);
+    });
+
+    it('should not undo or redo the changes of the locked keys', () => {
+      const instance = new TestClass();
+
+      instance.append('a', '1');
+      instance.lockKey('a');
+
+      expect(() => instance.undo()).toThrow(MappedListLockedKeyError);
+      expect(instance.canUndo).toBe(true);
+      expect(instance.toArray()).toEqual([['a', '1']]);
+    });
+
+    it('should restore the locks when a transaction fails', () => {
+      const instance = new TestClass([['a', '1']]).lockKey('b');
+
+      expect(() =>
+        instance.transaction((list) => {
+          list.lockKey('a');
+          throw new Error('Rollback');
+        }),
+      ).toThrow('Rollback');
+      expect(instance.isKeyLocked('a')).toBe(false);
+      expect(instance.isKeyLocked('b')).toBe(true);
+      instance.delete('a');
+    });
+
+    it('should never evict the locked entries', () => {
+      const BoundedClass = mappedListFactory<string>({
+        capacity: { maxEntries: 2, overflow: 'evictOldest' },
+      });
+      const instance = new BoundedClass([
+        ['a', '1'],
+        ['b', '1'],
+      ]).lockKey('a');
+
+      instance.append('c', '1');
+      expect(Array.from(instance.keys())).toEqual(['a', 'c']);
+
+      instance.lockKey('c');
+      expect(() => instance.append('d', '1')).toThrow(MappedListCapacityError);
+    });
+  });
+
+  describe('transaction', () => {
+    const TestClass = mappedListFactory<string>({
+      validateValue: (value: string): string => {
+        if (value === '@invalid') {
+          throw new Error('Invalid value');
+        }
+        return value;
+      },
+    });
+
+    it('should apply the mutations and return the result of the callback', () => {
+      const instance = new TestClass([['a', 'a1']]);
+
+      expect(
+        instance.transaction((list) => {
+          list.append('b', 'b1').set('a', 'a2');
+          return list.size;
+        }),
+      ).toBe(2);
+      expect(Array.from(instance)).toEqual([
+        ['b', 'b1'],
+        ['a', 'a2'],
+      ]);
+    });
+
+    it('should roll back all the mutations on error', () => {
+      const instance = new TestClass([
+        ['a', 'a1'],
+        ['b', 'b1'],
+      ]);
+
+      expect(() =>
+        instance.transaction((list) => {
+          list.delete('a');
+          list.append('c', 'c1').sort();
+          list.append('d', '@invalid');
+        }),
+      ).toThrow('Invalid value');
+      expect(Array.from(instance)).toEqual([
+        ['a', 'a1'],
+        ['b', 'b1'],
+      ]);
+      expect(instance.getAll('a')).toEqual(['a1']);
+      expect(instance.has('c')).toBe(false);
+    });
+
+    it('should report the changes only once committed', () => {
+      const spy = vi.fn();
+      const instance = new TestClass();
+      instance.observe(spy);
+
+      instance.transaction((list) => {
+        list.append('a', 'a1').append('b', 'b1');
+        expect(spy).not.toHaveBeenCalled();
+      });
+      expect(spy).toHaveBeenCalledTimes(2);
+
+      expect(() =>
+        instance.transaction((list) => {
+          list.append('c', 'c1');
+          throw new Error('Abort');
+        }),
+      ).toThrow('Abort');
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should support nested transactions', () => {
+      const spy = vi.fn();
+      const instance = new TestClass();
+      instance.observe(spy);
+
+      instance.transaction((list) => {
+        list.append('a', 'a1');
+
+        expect(() =>
+          list.transaction((list) => {
+            list.append('b', 'b1');
+            throw new Error('Abort');
+          }),
+        ).toThrow('Abort');
+
+        list.transaction((list) => {
+          list.append('c', 'c1');
+        });
+        expect(spy).not.toHaveBeenCalled();
+      });
+
+      expect(Array.from(instance)).toEqual([
+        ['a', 'a1'],
+        ['c', 'c1'],
+      ]);
+      expect(spy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw if the list is immutable', () => {
+      const instance = new TestClass().makeImmutable();
+      const callback = vi.fn();
+
+      expect(() => instance.transaction(callback)).toThrow();
+      expect(callback).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('history', () => {
+    const TestClass = mappedListFactory<string>({ history: 3 });
+
+    it('should be disabled by default', () => {
+      const instance = new (mappedListFactory<string>())();
+
+      instance.append('a', 'a1');
+      expect(instance.canUndo).toBe(false);
+      expect(instance.undo()).toBe(false);
+      expect(instance.redo()).toBe(false);
+    });
+
+    it('should not record the initial entries', () => {
+      const instance = new TestClass([['a', 'a1']]);
+
+      expect(instance.canUndo).toBe(false);
+    });
+
+    it('should undo and redo the changes', () => {
+      const instance = new TestClass([
+        ['b', 'b1'],
+        ['a', 'a1'],
+      ]);
+
+      instance.append('c', 'c1');
+      instance.set('b', 'b2', { keepPosition: true });
+      instance.sort();
+      expect(Array.from(instance)).toEqual([
+        ['a', 'a1'],
+        ['b', 'b2'],
+        ['c', 'c1'],
+      ]);
+
+      expect(instance.undo()).toBe(true);
+      expect(Array.from(instance)).toEqual([
+        ['b', 'b2'],
+        ['a', 'a1'],
+        ['c', 'c1'],
+      ]);
+      expect(instance.undo()).toBe(true);
+      expect(instance.get('b')).toBe('b1');
+      expect(instance.undo()).toBe(true);
+      expect(Array.from(instance)).toEqual([
+        ['b', 'b1'],
+        ['a', 'a1'],
+      ]);
+      expect(instance.canUndo).toBe(false);
+      expect(instance.undo()).toBe(false);
+
+      expect(instance.redo()).toBe(true);
+      expect(instance.redo()).toBe(true);
+      expect(instance.redo()).toBe(true);
+      expect(instance.canRedo).toBe(false);
+      expect(instance.redo()).toBe(false);
+      expect(Array.from(instance)).toEqual([
+        ['a', 'a1'],
+        ['b', 'b2'],
+        ['c', 'c1'],
+      ]);
+      expect(instance.getAll('b')).toEqual(['b2']);
+    });
+
+    it('should undo and redo the bulk mutations', () => {
+      const instance = new TestClass([
+        ['a', 'a1'],
+        ['b', 'b1'],
+        ['a', 'a2'],
+        ['c', 'c1'],
+      ]);
+      const snapshots: (readonly [string, string])[][] = [Array.from(instance)];
+
+      instance.setAll(
+        [
+          ['c', 'c2'],
+          ['a', 'a3'],
+          ['d', 'd1'],
+        ],
+        { keepPosition: true },
+      );
+      snapshots.push(Array.from(instance));
+      instance.retainWhere((value: string): boolean => value !== 'b1');
+      snapshots.push(Array.from(instance));
+      instance.deleteKeys(['a', 'd']);
+
+      for (let i: number = snapshots.length - 1; i >= 0; i--) {
+        expect(instance.undo()).toBe(true);
+        expect(Array.from(instance)).toEqual(snapshots[i]);
+      }
+
+      expect(instance.getAll('a')).toEqual(['a1', 'a2']);
+      expect(instance.redo()).toBe(true);
+      expect(Array.from(instance)).toEqual(snapshots[1]);
+      expect(instance.getAll('a')).toEqual(['a3']);
+    });
+
+    it('should bound the number of changes', () => {
+      const instance = new TestClass();
+
+      for (let i: number = 0; i < 5; i++) {
+        instance.append('a', `a${i}`);
+      }
+
+      while (instance.undo()) {}
+      expect(instance.getAll('a')).toEqual(['a0', 'a1']);
+    });
+
+    it('should drop the undone changes on a new change', () => {
+      const instance = new TestClass();
+
+      instance.append('a', 'a1');
+      instance.undo();
+      expect(instance.canRedo).toBe(true);
+      instance.append('b', 'b1');
+      expect(instance.canRedo).toBe(false);
+    });
+
+    it('should undo a transaction as a single change', () => {
+      const instance = new TestClass([['a', 'a1']]);
+
+      instance.transaction((list) => {
+        list.append('b', 'b1').delete('a');
+        list.splice(0, 0, ['c', 'c1'], ['d', 'd1']);
+        list.move(0, -1);
+      });
+      expect(Array.from(instance)).toEqual([
+        ['d', 'd1'],
+        ['b', 'b1'],
+        ['c', 'c1'],
+      ]);
+
+      instance.undo();
+      expect(Array.from(instance)).toEqual([['a', 'a1']]);
+      instance.redo();
+      expect(Array.from(instance)).toEqual([
+        ['d', 'd1'],
+        ['b', 'b1'],
+        ['c', 'c1'],
+      ]);
+    });
+
+    it('should report the undone and redone changes', () => {
+      const spy = vi.fn();
+      const instance = new TestClass([['a', 'a1']]);
+
+      instance.set('a', 'a2');
+      instance.observe(spy);
+
+      instance.undo();
+      expect(spy).toHaveBeenLastCalledWith({
+        type: 'undo',
+        added: [{ key: 'a', value: 'a1', index: 0 }],
+        removed: [{ key: 'a', value: 'a2', index: 0 }],
+        moved: [],
+        size: 1,
+      });
+
+      instance.redo();
+      expect(spy).toHaveBeenLastCalledWith({
+        type: 'redo',
+        added: [{ key: 'a', value: 'a2', index: 0 }],
+        removed: [{ key: 'a', value: 'a1', index: 0 }],
+        moved: [],
+        size: 1,
+      });
+    });
+
+    it('should restore any sequence of changes', () => {
+      const instance = new (mappedListFactory<string>({ history: 100 }))();
+      const snapshots: string[] = [JSON.stringify(Array.from(instance))];
+      let seed: number = 7;
+      const next = (max: number): number => {
+        seed = (seed * 16807) % 2147483647;
+        return seed % max;
+      };
+
+      for (let i: number = 0; i < 100; i++) {
+        const key: string = 'abc'[next(3)];
+        const value: string = `${key}${i}`;
+
+        switch (next(8)) {
+          case 0:
+            instance.append(key, value);
+            break;
+          case 1:
+            instance.delete(key);
+            break;
+          case 2:
+            instance.set(key, value, { keepPosition: next(2) === 0 });
+            break;
+          case 3:
+            instance.insertAt(next(instance.size + 1), key, value);
+            break;
+          case 4:
+            instance.splice(next(instance.size + 1), next(3), [key, value]);
+            break;
+          case 5:
+            instance.sort();
+            break;
+          case 6:
+            if (instance.size > 0) {
+              instance.move(next(instance.size), next(instance.size));
+            }
+            break;
+          case 7:
+            instance.merge([[key, value]], { strategy: 'replace' });
+            break;
+        }
+
+        const snapshot: string = JSON.stringify(Array.from(instance));
+
+        if (snapshot !== snapshots.at(-1)) {
+          snapshots.push(snapshot);
+        }
+      }
+
+      for (let i: number = snapshots.length - 1; i > 0; i--) {
+        expect(JSON.stringify(Array.from(instance))).toBe(snapshots[i]);
+        instance.undo();
+      }
+      expect(JSON.stringify(Array.from(instance))).toBe(snapshots[0]);
+
+      while (instance.redo()) {}
+      expect(JSON.stringify(Array.from(instance))).toBe(snapshots.at(-1));
+    });
+
+    it('should not undo during a transaction', () => {
+      const instance = new TestClass();
+
+      instance.append('a', 'a1');
+      expect(() => instance.transaction((list) => list.undo())).toThrow(
+        expect.objectContaining({
+          constructor: MappedListTransactionError,
+          message: 'Transaction in progress: undo',
+          operation: 'undo',
+        }),
+      );
+      expect(() => instance.transaction((list) => list.redo())).toThrow(MappedListTransactionError);
+      expect(instance.getAll('a')).toEqual(['a1']);
+    });
+
+    it('should throw if the list is immutable', () => {
+      const instance = new TestClass();
+
+      instance.append('a', 'a1').makeImmutable();
+      expect(() => instance.undo()).toThrow();
+      expect(() => instance.redo()).toThrow();
+    });
+  });
+
+  describe('validation', () => {
+    const ValidatedList = mappedListFactory<string>({
+      validateKey: (key: string): string => {
+        if (key === '@invalid') {
+          throw new TypeError('Invalid key');
+        }
+        return key.toLowerCase();
+      },
+      cardinality: {
+        'content-length': { max: 1 },
+        tag: { min: 2, max: 3 },
+      },
+      required: ['id', 'tag'],
+      rules: [
+        function* (list: ReadonlyMappedList<string>): Iterable<string> {
+          if (list.has('a') && list.has('b')) {
+            yield 'Exclusive keys: a, b';
+          }
+        },
+      ],
+    });
+
+    function createValidList(): InstanceType<typeof ValidatedList> {
+      return new ValidatedList([
+        ['id', '1'],
+        ['tag', 't1'],
+        ['tag', 't2'],
+      ]);
+    }
+
+    it('should report every violation', () => {
+      const instance = new ValidatedList();
+
+      expect(instance.validate()).toEqual({
+        valid: false,
+        violations: [
+          { type: 'min', key: 'tag', message: 'Too few entries: tag (min: 2)' },
+          { type: 'min', key: 'id', message: 'Too few entries: id (min: 1)' },
+        ],
+      });
+
+      instance.append('id', '1').append('tag', 't1').append('tag', 't2');
+      expect(instance.validate()).toEqual({ valid: true, violations: [] });
+
+      instance.append('a', 'a1').append('b', 'b1');
+      expect(instance.validate()).toEqual({
+        valid: false,
+        violations: [{ type: 'rule', message: 'Exclusive keys: a, b' }],
+      });
+    });
+
+    it('should enforce the maximum number of entries on mutation', () => {
+      const instance = createValidList();
+
+      instance.append('Content-Length', '1');
+      expect(() => instance.append('content-length', '2')).toThrow(MappedListValidationError);
+      expect(() => instance.insertAt(0, 'content-length', '2')).toThrow(
+        'Too many entries: content-length (max: 1)',
+      );
+      expect(() => instance.splice(0, 0, ['tag', 't3'], ['tag', 't4'])).toThrow(
+        'Too many entries: tag (max: 3)',
+      );
+      expect(instance.getAll('content-length')).toEqual(['1']);
+      expect(instance.getAll('tag')).toEqual(['t1', 't2']);
+
+      instance.set('content-length', '2');
+      instance.replaceAt(instance.indexOf('content-length'), 'content-length', '3');
+      instance.splice(1, 2, ['tag', 't3'], ['tag', 't4'], ['tag', 't5']);
+      expect(instance.getAll('content-length')).toEqual(['3']);
+      expect(instance.getAll('tag')).toEqual(['t3', 't4', 't5']);
+    });
+
+    it('should enforce the maximum number of entries on merge', () => {
+      const instance = createValidList();
+
+      expect(() =>
+        instance.merge([
+          ['tag', 't3'],
+          ['tag', 't4'],
+        ]),
+      ).toThrow('Too many entries: tag (max: 3)');
+      instance.merge(
+        [
+          ['tag', 't3'],
+          ['tag', 't4'],
+        ],
+        { strategy: 'replace' },
+      );
+      expect(instance.getAll('tag')).toEqual(['t3', 't4']);
+    });
+
+    it('should not enforce the minimum number of entries on mutation', () => {
+      const instance = createValidList();
+
+      expect(instance.delete('tag', 't1')).toBe(1);
+      expect(instance.validate().valid).toBe(false);
+    });
+
+    it('should report all the violations of the initial entries', () => {
+      let error: unknown;
+
+      try {
+        new ValidatedList([
+          ['@invalid', '1'],
+          ['tag', 't1'],
+          ['content-length', '1'],
+          ['content-length', '2'],
+        ]);
+      } catch (_error: unknown) {
+        error = _error;
+      }
+
+      expect(error).toBeInstanceOf(MappedListValidationError);
+      expect(error).toBeInstanceOf(TypeError);
+      expect((error as MappedListValidationError).violations).toEqual([
+        {
+          type: 'invalid',
+          key: '@invalid',
+          message: 'Invalid key',
+          cause: new TypeError('Invalid key'),
+        },
+        {
+          type: 'max',
+          key: 'content-length',
+          message: 'Too many entries: content-length (max: 1)',
+        },
+        { type: 'min', key: 'tag', message: 'Too few entries: tag (min: 2)' },
+        { type: 'min', key: 'id', message: 'Too few entries: id (min: 1)' },
+      ]);
+      expect((error as MappedListValidationError).message).toBe(
+        [
+          'Invalid key',
+          'Too many entries: content-length (max: 1)',
+          'Too few entries: tag (min: 2)',
+          'Too few entries: id (min: 1)',
+        ].join('\n'),
+      );
+    });
+
+    it('should report the non-error values thrown by the validators', () => {
+      const List = mappedListFactory<string>({
+        validateValue: (): string => {
+          throw 'Invalid value';
+        },
+      });
+
+      expect(() => new List([['a', 'b']])).toThrow('Invalid value');
+    });
+
+    it('should not strengthen an existing minimum with required', () => {
+      const List = mappedListFactory<string>({
+        cardinality: { a: { min: 2 } },
+        required: ['a'],
+      });
+
+      expect(new List().validate().violations).toEqual([
+        { type: 'min', key: 'a', message: 'Too few entries: a (min: 2)' },
+      ]);
     });
   });
 });
@@ -1,12 +1,133 @@
 import { WithImmutability } from '@xstd/with-immutability';
-import { type MappedListConstructor, type MappedListInit } from './mapped-list-constructor.js';
-import { type MappedList, type MappedListTuple } from './mapped-list.js';
+import { compareKeys } from './entry-comparators.js';
+import {
+  type ExpiringMappedListSetOptions,
+  type MappedListClock,
+  type MappedListExpiry,
+} from './expiring-mapped-list.js';
+import { type MappedListCapacity, type MappedListCapacityLimit } from './mapped-list-capacity.js';
+import {
+  type MappedListChange,
+  type MappedListChangedEntry,
+  type MappedListChangeType,
+  type MappedListMovedEntry,
+  type MappedListObserver,
+  type MappedListUnobserve,
+} from './mapped-list-change.js';
+import {
+  type MappedListConstructor,
+  type MappedListGroupedInit,
+  type MappedListInit,
+} from './mapped-list-constructor.js';
+import {
+  MappedListCapacityError,
+  MappedListForbiddenKeyError,
+  MappedListImmutableError,
+  MappedListInvalidKeyError,
+  MappedListInvalidValueError,
+  MappedListLockedKeyError,
+  MappedListMissingKeyError,
+  MappedListTransactionError,
+} from './mapped-list-errors.js';
+import { type MappedListGuard } from './mapped-list-guard.js';
+import { type MappedListKeyQuery } from './mapped-list-key-query.js';
+import {
+  type MappedListCardinality,
+  type MappedListRule,
+  MappedListValidationError,
+  type MappedListValidationReport,
+  type MappedListViolation,
+} from './mapped-list-validation.js';
+import { type MappedListValues } from './mapped-list-values.js';
+import {
+  FilteredMappedList,
+  MappedListValuesView,
+  type MappedListViewOptions,
+} from './mapped-list-views.private.js';
+import {
+  type MappedList,
+  type MappedListCompare,
+  type MappedListConversionOptions,
+  type MappedListKeySpelling,
+  type MappedListMergeOptions,
+  type MappedListMergeResolver,
+  type MappedListMergeStrategy,
+  type MappedListSetOptions,
+  type MappedListToObjectOptions,
+  type MappedListTuple,
+} from './mapped-list.js';
+import { type ReadonlyMappedList } from './readonly-mapped-list.js';
+import {
+  type CheckedValidateKey,
+  checkedValidateKey,
+  type CheckedValidateValue,
+  checkedValidateValue,
+  lowerBoundByKey,
+  mappedListGroupedEntries,
+  mappedListInitEntries,
+  type MappedListKeyMatcher,
+  mappedListKeyMatcher,
+  passthrough,
+} from './shared.private.js';
+import { strictEqual } from './value-equality.js';
 
 /* TYPES */
 
 export interface MappedListFactoryOptions<GValue> {
   readonly validateKey?: MappedListValidateKey;
   readonly validateValue?: MappedListValidateValue<GValue>;
+  /**
+   * The function used to compare values (ex: in `.has(key, value)` and `.delete(key, value)`).
+   * Defaults to strict equality (`===`).
+   */
+  readonly equals?: MappedListEquals<GValue>;
+  /**
+   * The default sort order used by `.sort()` (ex: to define a canonical order).
+   * Defaults to the order of the unicode code points of the keys.
+   */
+  readonly compare?: MappedListCompare<GValue>;
+  /**
+   * The allowed number of entries per key (after `validateKey`).
+   * The maximum is enforced by the mutations, while the minimum is only checked by `.validate()`,
+   * and by the constructor when it receives some entries.
+   */
+  readonly cardinality?: Readonly<Record<string, MappedListCardinality>>;
+  /**
+   * The keys (after `validateKey`) that must have at least one entry: a shortcut for `cardinality: { [key]: { min: 1 } }`.
+   */
+  readonly required?: readonly string[];
+  /**
+   * The constraints on the whole list, checked by `.validate()`, and by the constructor when it receives some entries.
+   */
+  readonly rules?: readonly MappedListRule<GValue>[];
+  /**
+   * The maximum number of changes that may be undone (see `.undo()`): a transaction counts as a single change.
+   * Defaults to 0 (no history).
+   */
+  readonly history?: number;
+  /**
+   * When `true`, the list keeps the keys as supplied (ex: `Content-Type`), in addition to the ones returned by `validateKey`
+   * (ex: `content-type`), which are still used for matching.
+   * The raw keys are returned by `.rawKeys()`, `.rawEntries()`, `.toJSON()` and the conversions with `keys: 'raw'`.
+   * Defaults to `false`.
+   */
+  readonly preserveKeys?: boolean;
+  /**
+   * The maximum number of entries (in total and per key), and total size of the list,
+   * and what happens when a mutation would exceed them (see `MappedListCapacity`).
+   * Defaults to no limits.
+   */
+  readonly capacity?: MappedListCapacity<GValue>;
+  /**
+   * Enables the expiry of the entries, measuring their lifetime with this clock (see `expiringMappedListFactory`).
+   * Defaults to no expiry.
+   */
+  readonly clock?: MappedListClock;
+  /**
+   * The keys that can't be added to the list, and whether they are silently dropped or rejected (see `MappedListGuard`).
+   * Defaults to no forbidden keys.
+   */
+  readonly guard?: MappedListGuard<GValue>;
 }
 
 export interface MappedListValidateKey {
@@ -14,199 +135,2148 @@ export interface MappedListValidateKey {
 }
 
 export interface MappedListValidateValue<GValue> {
-  (value: GValue): GValue;
+  (value: GValue, key: string): GValue;
 }
 
-/* FACTORY */
+export interface MappedListEquals<GValue> {
+  (a: GValue, b: GValue): boolean;
+}
 
-const passthrough: <GValue>(value: GValue) => GValue = <GValue>(value: GValue): GValue => value;
+/* FACTORY */
 
 export function mappedListFactory<GValue>({
-  validateKey = passthrough,
-  validateValue = passthrough,
+  validateKey: validateKeyOption = passthrough,
+  validateValue: validateValueOption = passthrough,
+  equals = strictEqual,
+  compare: defaultCompare = compareKeys,
+  cardinality = {},
+  required = [],
+  rules = [],
+  history = 0,
+  preserveKeys = false,
+  capacity: {
+    maxEntries = Number.POSITIVE_INFINITY,
+    maxEntriesPerKey = Number.POSITIVE_INFINITY,
+    maxSize = Number.POSITIVE_INFINITY,
+    sizer = defaultSizer,
+    overflow = 'reject',
+  } = {},
+  clock,
+  guard,
 }: MappedListFactoryOptions<GValue> = {}): MappedListConstructor<GValue> {
+  // the validators wrap the errors into typed ones
+  const validateKey: CheckedValidateKey = checkedValidateKey(validateKeyOption);
+  const validateValue: CheckedValidateValue<GValue> = checkedValidateValue(validateValueOption);
+
+  const limits: ReadonlyMap<string, MappedListCardinality> = toCardinalityLimits(
+    cardinality,
+    required,
+  );
+
+  const bounded: boolean =
+    maxEntries < Number.POSITIVE_INFINITY ||
+    maxEntriesPerKey < Number.POSITIVE_INFINITY ||
+    maxSize < Number.POSITIVE_INFINITY;
+  // the total size is only tracked if it is limited
+  const sized: boolean = maxSize < Number.POSITIVE_INFINITY;
+
+  // the expired entries are only filtered out if the list has a clock
+  const expiring: boolean = clock !== undefined;
+
+  const isForbidden: ((key: string, value: GValue) => boolean) | undefined =
+    guard === undefined
+      ? undefined
+      : typeof guard.forbiddenKeys === 'function'
+        ? guard.forbiddenKeys
+        : (key: string): boolean => (guard.forbiddenKeys as ReadonlySet<string>).has(key);
+  const rejectForbidden: boolean = (guard?.onForbidden ?? 'reject') === 'reject';
+
+  const viewOptions: MappedListViewOptions<GValue> = {
+    validateKey,
+    validateValue,
+    equals,
+  };
+
   return class extends WithImmutability implements MappedList<GValue> {
+    static fromGrouped<GInstance>(
+      this: new (init: MappedListInit<GValue>) => GInstance,
+      grouped: MappedListGroupedInit<GValue>,
+    ): GInstance {
+      return new this(mappedListGroupedEntries(grouped));
+    }
+
     readonly #entries: MappedListTuple<GValue>[];
+    // per-key index: for each key, its entries in list order
+    readonly #index: Map<string, MappedListTuple<GValue>[]>;
+    // the raw keys differing from the normalized ones (if `preserveKeys` is enabled)
+    readonly #rawKeys: WeakMap<MappedListTuple<GValue>, string>;
+    readonly #observers: Set<MappedListObserver<GValue>>;
+    // the changes that may be undone/redone, grouped by transaction
+    readonly #undoStack: (readonly MappedListChange<GValue>[])[];
+    readonly #redoStack: (readonly MappedListChange<GValue>[])[];
+    // the changes of the current transaction, if any
+    #pending: MappedListChange<GValue>[] | undefined;
+    // the evictions making room for the change being applied, committed with it (outside of transactions)
+    readonly #evictions: MappedListChange<GValue>[];
+    // the size of each entry, and their sum (if `maxSize` is set)
+    readonly #sizes: WeakMap<MappedListTuple<GValue>, number>;
+    #totalSize: number;
+    // the deadline of the entries that expire (if the list has a clock)
+    readonly #deadlines: WeakMap<MappedListTuple<GValue>, number>;
+    // the read-only keys (see `.lockKey()`)
+    readonly #locks: Set<string>;
+    // `true` while the keys of `#entries` are in the order of `compareKeys`, enabling the binary searches of the key queries
+    #sorted: boolean;
 
     constructor(init?: MappedListInit<GValue>) {
       super();
 
       this.#entries = [];
+      this.#index = new Map();
+      this.#rawKeys = new WeakMap();
+      this.#observers = new Set();
+      this.#undoStack = [];
+      this.#redoStack = [];
+      this.#evictions = [];
+      this.#sizes = new WeakMap();
+      this.#totalSize = 0;
+      this.#deadlines = new WeakMap();
+      this.#locks = new Set();
+      this.#sorted = true;
 
       if (init !== undefined) {
-        if (Symbol.iterator in init) {
-          for (const [name, value] of init) {
-            this.append(name, value);
-          }
-        } else {
-          for (const [name, value] of Object.entries(init)) {
+        // the initial entries are not part of the history
+        this.#pending = [];
+
+        // reports all the violations at once, instead of failing on the first one
+        const violations: MappedListViolation[] = [];
+
+        for (const [name, value] of mappedListInitEntries(init)) {
+          try {
             this.append(name, value);
+          } catch (error: unknown) {
+            if (error instanceof MappedListCapacityError) {
+              // stops consuming `init`: a huge input is never fully iterated
+              throw error;
+            } else if (error instanceof MappedListValidationError) {
+              violations.push(...error.violations);
+            } else {
+              violations.push({
+                type: 'invalid',
+                key: name,
+                message: error instanceof Error ? error.message : String(error),
+                // the error thrown by the validator
+                cause:
+                  error instanceof MappedListInvalidKeyError ||
+                  error instanceof MappedListInvalidValueError
+                    ? error.cause
+                    : error,
+              });
+            }
           }
         }
+
+        this.#pending = undefined;
+
+        violations.push(...this.#validate());
+
+        if (violations.length > 0) {
+          throw new MappedListValidationError(violations);
+        }
+      }
+    }
+
+    override throwIfImmutable(operation: string = 'mutate'): void {
+      if (this.immutable) {
+        throw new MappedListImmutableError({ operation });
+      }
+    }
+
+    lockKey(key: string): this {
+      this.#locks.add(validateKey(key, 'lockKey'));
+
+      return this;
+    }
+
+    isKeyLocked(key: string): boolean {
+      return this.#locks.has(validateKey(key, 'isKeyLocked'));
+    }
+
+    /**
+     * Throws a `MappedListLockedKeyError` if one of `keys` is locked.
+     */
+    #throwIfLocked(keys: Iterable<string>, operation: string): void {
+      if (this.#locks.size === 0) {
+        return;
+      }
+
+      for (const key of keys) {
+        if (this.#locks.has(key)) {
+          throw new MappedListLockedKeyError(key, { operation });
+        }
+      }
+    }
+
+    /**
+     * Returns `false` if `entry` is forbidden by the guard and must be dropped.
+     * Throws a `MappedListForbiddenKeyError` if it is forbidden and must be rejected.
+     */
+    #isAllowed(entry: MappedListTuple<GValue>, operation: string): boolean {
+      if (isForbidden === undefined || !isForbidden(entry[0], entry[1])) {
+        return true;
+      }
+
+      if (rejectForbidden) {
+        throw new MappedListForbiddenKeyError(entry[0], { operation });
       }
+
+      return false;
     }
 
     get size(): number {
-      return this.#entries.length;
+      return this.#liveEntries().length;
     }
 
-    append(key: string, value: GValue): this {
-      this.throwIfImmutable();
+    append(key: string, value: GValue, expiry?: MappedListExpiry): this {
+      this.throwIfImmutable('append');
+
+      const entry: MappedListTuple<GValue> = this.#createEntry(key, value, 'append');
+
+      if (!this.#isAllowed(entry, 'append')) {
+        return this;
+      }
+
+      this.#throwIfLocked([entry[0]], 'append');
+      this.#expire(entry, expiry);
+
+      this.#throwIfExceedsMax([entry]);
+      this.#ensureCapacity([entry], [], 'append');
 
-      this.#append(validateKey(key), validateValue(value));
+      this.#append(entry);
+
+      this.#notify('append', [this.#toChangedEntry(entry, this.#entries.length - 1)], []);
 
       return this;
     }
 
-    #append(key: string, value: GValue): void {
-      this.#entries.push(Object.freeze([key, value]));
+    #append(entry: MappedListTuple<GValue>): void {
+      this.#entries.push(entry);
+      this.#trackSize(entry, 1);
+      this.#trackSorted(this.#entries.length - 1, 1);
+
+      const bucket: MappedListTuple<GValue>[] | undefined = this.#index.get(entry[0]);
+
+      if (bucket === undefined) {
+        this.#index.set(entry[0], [entry]);
+      } else {
+        bucket.push(entry);
+      }
+    }
+
+    /**
+     * Validates `rawKey` and `value`, and returns the corresponding entry.
+     */
+    #createEntry(
+      rawKey: string,
+      value: GValue,
+      operation: string,
+      index?: number,
+    ): MappedListTuple<GValue> {
+      const key: string = validateKey(rawKey, operation, index);
+
+      return this.#toEntry(key, validateValue(value, key, operation, index), rawKey);
+    }
+
+    /**
+     * Returns the entry of an already validated `key` and `value`, and records its raw key if needed.
+     */
+    #toEntry(key: string, value: GValue, rawKey: string): MappedListTuple<GValue> {
+      const entry: MappedListTuple<GValue> = Object.freeze([key, value]);
+
+      if (preserveKeys && rawKey !== key) {
+        this.#rawKeys.set(entry, rawKey);
+      }
+
+      return entry;
+    }
+
+    #rawKeyOf(entry: MappedListTuple<GValue>): string {
+      return this.#rawKeys.get(entry) ?? entry[0];
+    }
+
+    #toChangedEntry(entry: MappedListTuple<GValue>, index: number): MappedListChangedEntry<GValue> {
+      return toChangedEntry(entry, index, this.#rawKeys.get(entry), this.#deadlines.get(entry));
+    }
+
+    /**
+     * Records the deadline of `entry`, if the list has a clock.
+     * Throws if `expiry` is invalid.
+     */
+    #expire(entry: MappedListTuple<GValue>, expiry: MappedListExpiry | undefined): void {
+      if (!expiring || expiry === undefined) {
+        return;
+      }
+
+      const { ttl, expiresAt } = expiry;
+      let deadline: number;
+
+      if (ttl !== undefined) {
+        deadline = clock!() + ttl;
+      } else if (expiresAt !== undefined) {
+        deadline = typeof expiresAt === 'number' ? expiresAt : expiresAt.getTime();
+      } else {
+        return;
+      }
+
+      if (Number.isNaN(deadline)) {
+        throw new RangeError(`Invalid expiry: ${ttl ?? String(expiresAt)}`);
+      }
+
+      this.#deadlines.set(entry, deadline);
+    }
+
+    /**
+     * Returns `true` if `entry` expired at the time `now`.
+     */
+    #isExpired(entry: MappedListTuple<GValue>, now: number): boolean {
+      const deadline: number | undefined = this.#deadlines.get(entry);
+
+      return deadline !== undefined && deadline <= now;
+    }
+
+    /**
+     * Returns the entries that are not expired: `#entries` itself if the list doesn't expire.
+     */
+    #liveEntries(): readonly MappedListTuple<GValue>[] {
+      if (!expiring) {
+        return this.#entries;
+      }
+
+      const now: number = clock!();
+
+      return this.#entries.filter(
+        (entry: MappedListTuple<GValue>): boolean => !this.#isExpired(entry, now),
+      );
+    }
+
+    /**
+     * Returns the entries of `key` that are not expired, or `undefined` if there are none.
+     */
+    #liveBucket(key: string): readonly MappedListTuple<GValue>[] | undefined {
+      const bucket: MappedListTuple<GValue>[] | undefined = this.#index.get(key);
+
+      if (!expiring || bucket === undefined) {
+        return bucket;
+      }
+
+      const now: number = clock!();
+      const live: MappedListTuple<GValue>[] = bucket.filter(
+        (entry: MappedListTuple<GValue>): boolean => !this.#isExpired(entry, now),
+      );
+
+      return live.length === 0 ? undefined : live;
+    }
+
+    prune(): number {
+      this.throwIfImmutable('prune');
+
+      return this.#prune();
+    }
+
+    /**
+     * Removes the expired entries, and returns their number.
+     */
+    #prune(): number {
+      if (!expiring) {
+        return 0;
+      }
+
+      const now: number = clock!();
+
+      // the expired entries of the locked keys are kept (but stay invisible)
+      return this.#deleteWhere(
+        'prune',
+        (entry: MappedListTuple<GValue>): boolean =>
+          this.#isExpired(entry, now) && !this.#locks.has(entry[0]),
+        this.#entries,
+      );
+    }
+
+    /**
+     * Calls `callback` once the expired entries are removed, so that the positions it uses only count the visible entries.
+     * The removal and the changes of `callback` are applied atomically.
+     */
+    #pruned<GReturn>(callback: () => GReturn): GReturn {
+      if (!expiring) {
+        return callback();
+      }
+
+      const now: number = clock!();
+
+      if (
+        !this.#entries.some((entry: MappedListTuple<GValue>): boolean =>
+          this.#isExpired(entry, now),
+        )
+      ) {
+        return callback();
+      }
+
+      return this.transaction((): GReturn => {
+        this.#prune();
+        return callback();
+      });
     }
 
     delete(key: string, value?: GValue): number {
-      this.throwIfImmutable();
+      this.throwIfImmutable('delete');
+
+      key = validateKey(key, 'delete');
+
+      this.#throwIfLocked([key], 'delete');
+
+      const removed: MappedListChangedEntry<GValue>[] =
+        value === undefined
+          ? this.#delete(key)
+          : this.#deleteEntry(key, validateValue(value, key, 'delete'));
+
+      if (removed.length > 0) {
+        this.#notify('delete', [], removed);
+      }
+
+      return this.#countLive(removed);
+    }
+
+    deleteEntry(key: string, value: GValue): number {
+      this.throwIfImmutable('deleteEntry');
+
+      key = validateKey(key, 'deleteEntry');
+
+      this.#throwIfLocked([key], 'deleteEntry');
+
+      const removed: MappedListChangedEntry<GValue>[] = this.#deleteEntry(
+        key,
+        validateValue(value, key, 'deleteEntry'),
+      );
+
+      if (removed.length > 0) {
+        this.#notify('delete', [], removed);
+      }
+
+      return this.#countLive(removed);
+    }
+
+    /**
+     * Returns the number of `removed` entries that were not expired: the expired ones are removed too, but reads never saw them.
+     */
+    #countLive(removed: readonly MappedListChangedEntry<GValue>[]): number {
+      if (!expiring) {
+        return removed.length;
+      }
+
+      const now: number = clock!();
+
+      return removed.filter(
+        ({ expiresAt }: MappedListChangedEntry<GValue>): boolean =>
+          expiresAt === undefined || expiresAt > now,
+      ).length;
+    }
 
-      return this.#delete(validateKey(key), value === undefined ? undefined : validateValue(value));
+    #delete(key: string): MappedListChangedEntry<GValue>[] {
+      if (!this.#index.delete(key)) {
+        return [];
+      }
+
+      return this.#removeEntries((entry: MappedListTuple<GValue>): boolean => entry[0] === key);
+    }
+
+    #deleteEntry(key: string, value: GValue): MappedListChangedEntry<GValue>[] {
+      const bucket: MappedListTuple<GValue>[] | undefined = this.#index.get(key);
+
+      if (bucket === undefined) {
+        return [];
+      }
+
+      const removed: Set<MappedListTuple<GValue>> = new Set<MappedListTuple<GValue>>();
+      const kept: MappedListTuple<GValue>[] = [];
+
+      for (let i: number = 0; i < bucket.length; i++) {
+        if (equals(bucket[i][1], value)) {
+          removed.add(bucket[i]);
+        } else {
+          kept.push(bucket[i]);
+        }
+      }
+
+      if (removed.size === 0) {
+        return [];
+      }
+
+      if (kept.length === 0) {
+        this.#index.delete(key);
+      } else {
+        this.#index.set(key, kept);
+      }
+
+      return this.#removeEntries((entry: MappedListTuple<GValue>): boolean => removed.has(entry));
     }
 
-    #delete(key: string, value?: GValue): number {
-      let deleted: number = 0;
+    /**
+     * Removes, in a single pass, the entries matching `predicate` from `#entries`, and returns them.
+     * The index is NOT updated: it is the responsibility of the caller.
+     */
+    #removeEntries(
+      predicate: (entry: MappedListTuple<GValue>) => boolean,
+    ): MappedListChangedEntry<GValue>[] {
+      const removed: MappedListChangedEntry<GValue>[] = [];
+      let j: number = 0;
 
       for (let i: number = 0; i < this.#entries.length; i++) {
-        const [_key, _value]: MappedListTuple<GValue> = this.#entries[i];
+        const entry: MappedListTuple<GValue> = this.#entries[i];
 
-        if (_key === key && (value === undefined || _value === value)) {
-          this.#entries.splice(i, 1);
-          i--;
-          deleted++;
+        if (predicate(entry)) {
+          removed.push(this.#toChangedEntry(entry, i));
+          this.#trackSize(entry, -1);
+        } else {
+          this.#entries[j++] = entry;
         }
       }
 
-      return deleted;
+      this.#entries.length = j;
+
+      return removed;
     }
 
     get(key: string): GValue {
-      return this.#get(validateKey(key));
+      return this.#get(validateKey(key, 'get'));
     }
 
     #get(key: string): GValue {
       const value: GValue | undefined = this.#getOptional(key);
 
       if (value === undefined) {
-        throw new Error(`Missing: ${key}`);
+        throw new MappedListMissingKeyError(key, { operation: 'get' });
       } else {
         return value;
       }
     }
 
     getAll(key: string): GValue[] {
-      return this.#getAll(validateKey(key));
+      return this.#getAll(validateKey(key, 'getAll'));
     }
 
     #getAll(key: string): GValue[] {
-      const values: GValue[] = [];
-
-      for (let i: number = 0; i < this.#entries.length; i++) {
-        if (this.#entries[i][0] === key) {
-          values.push(this.#entries[i][1]);
-        }
-      }
+      const bucket: readonly MappedListTuple<GValue>[] | undefined = this.#liveBucket(key);
 
-      return values;
+      return bucket === undefined
+        ? []
+        : bucket.map((entry: MappedListTuple<GValue>): GValue => entry[1]);
     }
 
     getOptional(key: string): GValue | undefined {
-      return this.#getOptional(validateKey(key));
+      return this.#getOptional(validateKey(key, 'getOptional'));
     }
 
     #getOptional(key: string): GValue | undefined {
-      for (let i: number = 0; i < this.#entries.length; i++) {
-        if (this.#entries[i][0] === key) {
-          return this.#entries[i][1];
+      return this.#liveBucket(key)?.[0][1];
+    }
+
+    has(key: string, value?: GValue): boolean {
+      key = validateKey(key, 'has');
+
+      return value === undefined
+        ? this.#has(key)
+        : this.#hasEntry(key, validateValue(value, key, 'has'));
+    }
+
+    #has(key: string): boolean {
+      return this.#liveBucket(key) !== undefined;
+    }
+
+    hasEntry(key: string, value: GValue): boolean {
+      key = validateKey(key, 'hasEntry');
+
+      return this.#hasEntry(key, validateValue(value, key, 'hasEntry'));
+    }
+
+    #hasEntry(key: string, value: GValue): boolean {
+      return this.#findEntry(key, value) !== undefined;
+    }
+
+    /**
+     * Returns the first entry matching both `key` and `value`.
+     */
+    #findEntry(key: string, value: GValue): MappedListTuple<GValue> | undefined {
+      const bucket: readonly MappedListTuple<GValue>[] | undefined = this.#liveBucket(key);
+
+      if (bucket === undefined) {
+        return undefined;
+      }
+
+      for (let i: number = 0; i < bucket.length; i++) {
+        if (equals(bucket[i][1], value)) {
+          return bucket[i];
         }
       }
 
       return undefined;
     }
 
-    has(key: string, value?: GValue): boolean {
-      return this.#has(validateKey(key), value === undefined ? undefined : validateValue(value));
+    at(index: number): MappedListTuple<GValue> | undefined {
+      return this.#liveEntries().at(index);
     }
 
-    #has(key: string, value?: GValue): boolean {
-      for (let i: number = 0; i < this.#entries.length; i++) {
-        const [_key, _value]: MappedListTuple<GValue> = this.#entries[i];
+    indexOf(key: string, value?: GValue): number {
+      key = validateKey(key, 'indexOf');
+
+      const entry: MappedListTuple<GValue> | undefined =
+        value === undefined
+          ? this.#liveBucket(key)?.[0]
+          : this.#findEntry(key, validateValue(value, key, 'indexOf'));
+
+      return entry === undefined ? -1 : this.#liveEntries().indexOf(entry);
+    }
+
+    set(key: string, value: GValue, options?: ExpiringMappedListSetOptions): this {
+      this.throwIfImmutable('set');
+
+      let rawKey: string = key;
+      key = validateKey(key, 'set');
+      value = validateValue(value, key, 'set');
+
+      if (!this.#isAllowed([key, value], 'set')) {
+        return this;
+      }
+
+      this.#throwIfLocked([key], 'set');
+
+      const bucket: MappedListTuple<GValue>[] | undefined = this.#index.get(key);
+
+      this.#throwIfExceedsMax([[key, value]], bucket);
 
-        if (_key === key && (value === undefined || _value === value)) {
-          return true;
+      if (bucket !== undefined) {
+        const keySpelling: MappedListKeySpelling = options?.keySpelling ?? 'incoming';
+
+        if (keySpelling === 'first') {
+          rawKey = this.#rawKeyOf(bucket[0]);
+        } else if (keySpelling === 'last') {
+          rawKey = this.#rawKeyOf(bucket[bucket.length - 1]);
         }
       }
 
-      return false;
-    }
+      const entry: MappedListTuple<GValue> = this.#toEntry(key, value, rawKey);
 
-    set(key: string, value: GValue): this {
-      this.throwIfImmutable();
+      this.#expire(entry, options);
+      this.#ensureCapacity([entry], bucket, 'set');
 
-      this.#set(validateKey(key), validateValue(value));
+      this.#set(entry, options?.keepPosition ?? false);
 
       return this;
     }
 
-    #set(key: string, value: GValue): void {
-      this.#delete(key);
-      this.#append(key, value);
-    }
+    #set(entry: MappedListTuple<GValue>, keepPosition: boolean): void {
+      const key: string = entry[0];
+      const bucket: MappedListTuple<GValue>[] | undefined = this.#index.get(key);
 
-    clear(): void {
-      this.throwIfImmutable();
+      if (keepPosition && bucket !== undefined) {
+        // the entries removed before the first one have another key: its position is preserved
+        const index: number = this.#entries.indexOf(bucket[0]);
+        const removed: MappedListChangedEntry<GValue>[] = this.#delete(key);
 
-      this.#entries.length = 0;
+        this.#entries.splice(index, 0, entry);
+        this.#index.set(key, [entry]);
+        this.#trackSize(entry, 1);
+
+        this.#notify('set', [this.#toChangedEntry(entry, index)], removed);
+      } else {
+        const removed: MappedListChangedEntry<GValue>[] = this.#delete(key);
+
+        this.#append(entry);
+
+        this.#notify('set', [this.#toChangedEntry(entry, this.#entries.length - 1)], removed);
+      }
     }
 
-    sort(): this {
-      this.throwIfImmutable();
+    insertAt(index: number, key: string, value: GValue): this {
+      this.throwIfImmutable('insertAt');
 
-      this.#entries.sort(
-        ([keyA]: MappedListTuple<GValue>, [keyB]: MappedListTuple<GValue>): number => {
-          if (keyA < keyB) {
-            return -1;
-          } else if (keyA > keyB) {
-            return 1;
-          } else {
-            return 0;
-          }
-        },
-      );
+      return this.#pruned((): this => {
+        const entry: MappedListTuple<GValue> = this.#createEntry(key, value, 'insertAt', index);
 
-      return this;
+        if (this.#isAllowed(entry, 'insertAt')) {
+          this.#splice('insertAt', index, 0, [entry]);
+        }
+
+        return this;
+      });
     }
 
-    *keys(): Generator<string> {
-      for (let i: number = 0; i < this.#entries.length; i++) {
-        yield this.#entries[i][0];
-      }
+    replaceAt(index: number, key: string, value: GValue): this {
+      this.throwIfImmutable('replaceAt');
+
+      return this.#pruned((): this => {
+        index = toPosition(index, this.#entries.length);
+
+        const entry: MappedListTuple<GValue> = this.#createEntry(key, value, 'replaceAt', index);
+
+        // a dropped entry leaves the replaced one in place
+        if (this.#isAllowed(entry, 'replaceAt')) {
+          this.#splice('replaceAt', index, 1, [entry]);
+        }
+
+        return this;
+      });
     }
 
-    *values(): Generator<GValue> {
-      for (let i: number = 0; i < this.#entries.length; i++) {
-        yield this.#entries[i][1];
-      }
+    move(from: number, to: number): this {
+      this.throwIfImmutable('move');
+
+      return this.#pruned((): this => this.#move(from, to));
     }
 
-    *entries(): Generator<MappedListTuple<GValue>> {
-      for (let i: number = 0; i < this.#entries.length; i++) {
-        yield this.#entries[i];
+    #move(from: number, to: number): this {
+      from = toPosition(from, this.#entries.length);
+      to = toPosition(to, this.#entries.length);
+
+      if (from !== to) {
+        const previous: readonly MappedListTuple<GValue>[] | undefined = this.#isTracked()
+          ? this.#entries.slice()
+          : undefined;
+
+        const [entry] = this.#entries.splice(from, 1);
+        this.#entries.splice(to, 0, entry);
+        this.#trackSorted(to, 1);
+
+        // the entry may have moved before or after another entry with the same key
+        this.#reindexKeys(new Set([entry[0]]));
+
+        if (previous !== undefined) {
+          this.#notifyMoves('move', previous);
+        }
       }
+
+      return this;
     }
 
-    [Symbol.iterator](): IterableIterator<MappedListTuple<GValue>> {
-      return this.entries();
+    splice(
+      start: number,
+      deleteCount: number = Number.POSITIVE_INFINITY,
+      ...entries: readonly MappedListTuple<GValue>[]
+    ): MappedListTuple<GValue>[] {
+      this.throwIfImmutable('splice');
+
+      return this.#pruned((): MappedListTuple<GValue>[] =>
+        this.#splice(
+          'splice',
+          start,
+          deleteCount,
+          entries
+            .map(([key, value]: MappedListTuple<GValue>, i: number): MappedListTuple<GValue> =>
+              this.#createEntry(key, value, 'splice', start + i),
+            )
+            .filter((entry: MappedListTuple<GValue>): boolean => this.#isAllowed(entry, 'splice')),
+        ),
+      );
     }
 
-    forEach(callback: (value: GValue, key: string) => void): void {
-      for (let i: number = 0; i < this.#entries.length; i++) {
-        callback(this.#entries[i][1], this.#entries[i][0]);
+    /**
+     * Removes `deleteCount` entries from `start`, inserts `inserted` in their place, and returns the removed entries.
+     */
+    #splice(
+      type: MappedListChangeType,
+      start: number,
+      deleteCount: number,
+      inserted: readonly MappedListTuple<GValue>[],
+    ): MappedListTuple<GValue>[] {
+      start = clampPosition(start, this.#entries.length);
+      deleteCount = Math.min(
+        Math.max(Math.trunc(deleteCount) || 0, 0),
+        this.#entries.length - start,
+      );
+
+      this.#throwIfLocked(
+        [...inserted, ...this.#entries.slice(start, start + deleteCount)].map(
+          ([key]: MappedListTuple<GValue>): string => key,
+        ),
+        type,
+      );
+      this.#throwIfExceedsMax(inserted, this.#entries.slice(start, start + deleteCount));
+
+      // the entries evicted before `start` shift the position of the change
+      for (const { index } of this.#ensureCapacity(
+        inserted,
+        this.#entries.slice(start, start + deleteCount),
+        type,
+      )) {
+        if (index < start) {
+          start--;
+        }
+      }
+
+      const removed: MappedListTuple<GValue>[] = this.#entries.splice(
+        start,
+        deleteCount,
+        ...inserted,
+      );
+
+      if (removed.length === 0 && inserted.length === 0) {
+        return removed;
+      }
+
+      for (let i: number = 0; i < removed.length; i++) {
+        this.#trackSize(removed[i], -1);
+      }
+
+      for (let i: number = 0; i < inserted.length; i++) {
+        this.#trackSize(inserted[i], 1);
       }
+
+      this.#trackSorted(start, inserted.length);
+
+      this.#reindexKeys(
+        new Set([...removed, ...inserted].map(([key]: MappedListTuple<GValue>): string => key)),
+      );
+
+      this.#notify(
+        type,
+        inserted.map((entry: MappedListTuple<GValue>, i: number) =>
+          this.#toChangedEntry(entry, start + i),
+        ),
+        removed.map((entry: MappedListTuple<GValue>, i: number) =>
+          this.#toChangedEntry(entry, start + i),
+        ),
+      );
+
+      return removed;
     }
+
+    merge(
+      source: MappedListInit<GValue>,
+      { strategy = 'append', strategies = {} }: MappedListMergeOptions<GValue> = {},
+    ): this {
+      this.throwIfImmutable('merge');
+
+      const keyStrategies: ReadonlyMap<string, MappedListMergeStrategy<GValue>> = new Map(
+        Object.entries(strategies),
+      );
+
+      // 1) validates the incoming entries (before any change, so the operation is atomic)
+      const incoming: MappedListTuple<GValue>[] = [];
+      const incomingValues: Map<string, GValue[]> = new Map();
+
+      for (const [rawKey, rawValue] of mappedListInitEntries(source)) {
+        const entry: MappedListTuple<GValue> = this.#createEntry(rawKey, rawValue, 'merge');
+
+        if (!this.#isAllowed(entry, 'merge')) {
+          continue;
+        }
+
+        const [key, value] = entry;
+
+        incoming.push(entry);
+
+        const values: GValue[] | undefined = incomingValues.get(key);
+
+        if (values === undefined) {
+          incomingValues.set(key, [value]);
+        } else {
+          values.push(value);
+        }
+      }
+
+      // 2) resolves the entries to add, and the keys whose current entries are removed
+      const added: MappedListTuple<GValue>[] = [];
+      const replaced: Set<string> = new Set();
+      const resolved: Set<string> = new Set();
+
+      for (let i: number = 0; i < incoming.length; i++) {
+        const key: string = incoming[i][0];
+        const keyStrategy: MappedListMergeStrategy<GValue> = keyStrategies.get(key) ?? strategy;
+
+        if (keyStrategy === 'append') {
+          added.push(incoming[i]);
+        } else if (keyStrategy === 'replace') {
+          added.push(incoming[i]);
+          replaced.add(key);
+        } else if (keyStrategy === 'keep') {
+          if (!this.#has(key)) {
+            added.push(incoming[i]);
+          }
+        } else if (!resolved.has(key)) {
+          // the resolver is called once per key, at the first incoming entry of this key
+          resolved.add(key);
+          replaced.add(key);
+
+          // the resolved entries take the raw key of the first incoming entry
+          const rawKey: string = this.#rawKeyOf(incoming[i]);
+
+          for (const value of (keyStrategy as MappedListMergeResolver<GValue>)(
+            this.#getAll(key),
+            incomingValues.get(key)!,
+            key,
+          )) {
+            const entry: MappedListTuple<GValue> = this.#toEntry(
+              key,
+              validateValue(value, key, 'merge'),
+              rawKey,
+            );
+
+            if (this.#isAllowed(entry, 'merge')) {
+              added.push(entry);
+            }
+          }
+        }
+      }
+
+      const replacedEntries: MappedListTuple<GValue>[] = [];
+
+      for (const key of replaced) {
+        replacedEntries.push(...(this.#index.get(key) ?? []));
+      }
+
+      this.#throwIfLocked(
+        [...added, ...replacedEntries].map(([key]: MappedListTuple<GValue>): string => key),
+        'merge',
+      );
+      this.#throwIfExceedsMax(added, replacedEntries);
+      this.#ensureCapacity(added, replacedEntries, 'merge');
+
+      // 3) applies the changes
+      let removed: MappedListChangedEntry<GValue>[] = [];
+
+      if (replacedEntries.length > 0) {
+        for (const key of replaced) {
+          this.#index.delete(key);
+        }
+
+        removed = this.#removeEntries((entry: MappedListTuple<GValue>): boolean =>
+          replaced.has(entry[0]),
+        );
+      }
+
+      for (let i: number = 0; i < added.length; i++) {
+        this.#append(added[i]);
+      }
+
+      if (added.length > 0 || removed.length > 0) {
+        const start: number = this.#entries.length - added.length;
+
+        this.#notify(
+          'merge',
+          this.#entries
+            .slice(start)
+            .map((entry: MappedListTuple<GValue>, i: number) =>
+              this.#toChangedEntry(entry, start + i),
+            ),
+          removed,
+        );
+      }
+
+      return this;
+    }
+
+    appendAll(init: MappedListInit<GValue>): this {
+      this.throwIfImmutable('appendAll');
+
+      // validates all the entries before any change, so the operation is atomic
+      const added: MappedListTuple<GValue>[] = Array.from(
+        mappedListInitEntries(init),
+        ([key, value]: MappedListTuple<GValue>, i: number): MappedListTuple<GValue> =>
+          this.#createEntry(key, value, 'appendAll', i),
+      ).filter((entry: MappedListTuple<GValue>): boolean => this.#isAllowed(entry, 'appendAll'));
+
+      this.#throwIfLocked(
+        added.map(([key]: MappedListTuple<GValue>): string => key),
+        'appendAll',
+      );
+      this.#throwIfExceedsMax(added);
+      this.#ensureCapacity(added, [], 'appendAll');
+
+      if (added.length > 0) {
+        const start: number = this.#entries.length;
+
+        for (let i: number = 0; i < added.length; i++) {
+          this.#append(added[i]);
+        }
+
+        this.#notify(
+          'appendAll',
+          added.map((entry: MappedListTuple<GValue>, i: number) =>
+            this.#toChangedEntry(entry, start + i),
+          ),
+          [],
+        );
+      }
+
+      return this;
+    }
+
+    setAll(init: MappedListInit<GValue>, options?: MappedListSetOptions): this {
+      this.throwIfImmutable('setAll');
+
+      const keySpelling: MappedListKeySpelling = options?.keySpelling ?? 'incoming';
+      const keepPosition: boolean = options?.keepPosition ?? false;
+
+      // 1) validates all the entries before any change, so the operation is atomic
+      const incoming: Map<string, MappedListTuple<GValue>> = new Map();
+      let position: number = 0;
+
+      for (const [rawKey, value] of mappedListInitEntries(init)) {
+        const entry: MappedListTuple<GValue> = this.#createEntry(
+          rawKey,
+          value,
+          'setAll',
+          position++,
+        );
+
+        if (!this.#isAllowed(entry, 'setAll')) {
+          continue;
+        }
+
+        // like successive calls to `.set()`: the last value of a key wins, and is ordered by its last occurrence
+        incoming.delete(entry[0]);
+        incoming.set(entry[0], entry);
+      }
+
+      if (incoming.size === 0) {
+        return this;
+      }
+
+      this.#throwIfLocked(incoming.keys(), 'setAll');
+
+      // 2) resolves the raw keys of the new entries, and the replaced entries
+      const replacements: Map<string, MappedListTuple<GValue>> = new Map();
+      const replacedEntries: MappedListTuple<GValue>[] = [];
+
+      for (const [key, entry] of incoming) {
+        const bucket: MappedListTuple<GValue>[] | undefined = this.#index.get(key);
+
+        if (bucket === undefined) {
+          replacements.set(key, entry);
+        } else {
+          replacedEntries.push(...bucket);
+          replacements.set(
+            key,
+            keySpelling === 'incoming'
+              ? entry
+              : this.#toEntry(
+                  key,
+                  entry[1],
+                  this.#rawKeyOf(keySpelling === 'first' ? bucket[0] : bucket[bucket.length - 1]),
+                ),
+          );
+        }
+      }
+
+      this.#throwIfExceedsMax(Array.from(replacements.values()), replacedEntries);
+      this.#ensureCapacity(Array.from(replacements.values()), replacedEntries, 'setAll');
+
+      // 3) applies the changes in a single pass: each replaced key has at least one removed entry,
+      // so an entry keeping its position never overwrites an entry not yet visited
+      const added: MappedListChangedEntry<GValue>[] = [];
+      const removed: MappedListChangedEntry<GValue>[] = [];
+      const placed: Set<string> = new Set();
+      let j: number = 0;
+
+      for (let i: number = 0; i < this.#entries.length; i++) {
+        const entry: MappedListTuple<GValue> = this.#entries[i];
+        const replacement: MappedListTuple<GValue> | undefined = replacements.get(entry[0]);
+
+        if (replacement === undefined) {
+          this.#entries[j++] = entry;
+        } else {
+          removed.push(this.#toChangedEntry(entry, i));
+          this.#trackSize(entry, -1);
+
+          if (keepPosition && !placed.has(entry[0])) {
+            placed.add(entry[0]);
+            added.push(this.#toChangedEntry(replacement, j));
+            this.#entries[j++] = replacement;
+            this.#trackSize(replacement, 1);
+          }
+        }
+      }
+
+      this.#entries.length = j;
+
+      // the entries keeping their position replace entries with the same key, so only the appended ones may break the order
+      const appended: number = this.#entries.length;
+
+      for (const [key, replacement] of replacements) {
+        if (!placed.has(key)) {
+          added.push(this.#toChangedEntry(replacement, this.#entries.length));
+          this.#entries.push(replacement);
+          this.#trackSize(replacement, 1);
+        }
+
+        this.#index.set(key, [replacement]);
+      }
+
+      this.#trackSorted(appended, this.#entries.length - appended);
+
+      this.#notify('setAll', added, removed);
+
+      return this;
+    }
+
+    deleteWhere(predicate: (value: GValue, key: string) => boolean): number {
+      this.throwIfImmutable('deleteWhere');
+
+      return this.#deleteWhere('deleteWhere', (entry: MappedListTuple<GValue>): boolean =>
+        predicate(entry[1], entry[0]),
+      );
+    }
+
+    retainWhere(predicate: (value: GValue, key: string) => boolean): number {
+      this.throwIfImmutable('retainWhere');
+
+      return this.#deleteWhere(
+        'retainWhere',
+        (entry: MappedListTuple<GValue>): boolean => !predicate(entry[1], entry[0]),
+      );
+    }
+
+    /**
+     * Removes the entries of `candidates` matching `predicate`, and returns their number.
+     * The candidates default to the entries that are not expired, as the callers never see the other ones.
+     */
+    #deleteWhere(
+      type: MappedListChangeType,
+      predicate: (entry: MappedListTuple<GValue>) => boolean,
+      candidates: readonly MappedListTuple<GValue>[] = this.#liveEntries(),
+    ): number {
+      // calls `predicate` before any change, so the list is left unchanged if it throws
+      const matched: Set<MappedListTuple<GValue>> = new Set(candidates.filter(predicate));
+
+      if (matched.size === 0) {
+        return 0;
+      }
+
+      this.#throwIfLocked(
+        Array.from(matched, ([key]: MappedListTuple<GValue>): string => key),
+        type,
+      );
+
+      const removed: MappedListChangedEntry<GValue>[] = this.#removeEntries(
+        (entry: MappedListTuple<GValue>): boolean => matched.has(entry),
+      );
+
+      this.#reindexKeys(
+        new Set(removed.map(({ key }: MappedListChangedEntry<GValue>): string => key)),
+      );
+
+      this.#notify(type, [], removed);
+
+      return removed.length;
+    }
+
+    deleteKeys(keys: Iterable<string>): number {
+      this.throwIfImmutable('deleteKeys');
+
+      // validates all the keys before any change, so the operation is atomic
+      const deleted: Set<string> = new Set();
+
+      for (const key of keys) {
+        deleted.add(validateKey(key, 'deleteKeys'));
+      }
+
+      this.#throwIfLocked(deleted, 'deleteKeys');
+
+      let found: boolean = false;
+
+      for (const key of deleted) {
+        found = this.#index.delete(key) || found;
+      }
+
+      if (!found) {
+        return 0;
+      }
+
+      const removed: MappedListChangedEntry<GValue>[] = this.#removeEntries(
+        (entry: MappedListTuple<GValue>): boolean => deleted.has(entry[0]),
+      );
+
+      this.#notify('deleteKeys', [], removed);
+
+      return this.#countLive(removed);
+    }
+
+    deleteMatching(query: MappedListKeyQuery): number {
+      this.throwIfImmutable('deleteMatching');
+
+      const { test } = mappedListKeyMatcher(query);
+
+      return this.#deleteWhere('deleteMatching', ([key]: MappedListTuple<GValue>): boolean =>
+        test(key),
+      );
+    }
+
+    extractMatching(query: MappedListKeyQuery): MappedListTuple<GValue>[] {
+      this.throwIfImmutable('extractMatching');
+
+      const extracted: MappedListTuple<GValue>[] = this.#entriesMatching(
+        mappedListKeyMatcher(query),
+      );
+
+      if (extracted.length > 0) {
+        const matched: ReadonlySet<MappedListTuple<GValue>> = new Set(extracted);
+
+        this.#deleteWhere('extractMatching', (entry: MappedListTuple<GValue>): boolean =>
+          matched.has(entry),
+        );
+      }
+
+      return extracted;
+    }
+
+    clear(): void {
+      this.throwIfImmutable('clear');
+      this.#throwIfLocked(this.#index.keys(), 'clear');
+
+      const removed: MappedListChangedEntry<GValue>[] = this.#entries.map(
+        (entry: MappedListTuple<GValue>, i: number): MappedListChangedEntry<GValue> =>
+          this.#toChangedEntry(entry, i),
+      );
+
+      this.#entries.length = 0;
+      this.#index.clear();
+      this.#totalSize = 0;
+      this.#sorted = true;
+
+      if (removed.length > 0) {
+        this.#notify('clear', [], removed);
+      }
+    }
+
+    sort(compare: MappedListCompare<GValue> = defaultCompare): this {
+      this.throwIfImmutable('sort');
+
+      const previous: readonly MappedListTuple<GValue>[] | undefined = this.#isTracked()
+        ? this.#entries.slice()
+        : undefined;
+
+      // `Array.prototype.sort` is stable
+      this.#entries.sort(compare);
+
+      // the relative order of the entries sharing the same key may have changed
+      this.#reindex();
+
+      if (previous !== undefined) {
+        this.#notifyMoves('sort', previous);
+      }
+
+      return this;
+    }
+
+    /**
+     * Rebuilds the buckets of `keys` from `#entries`.
+     */
+    #reindexKeys(keys: ReadonlySet<string>): void {
+      for (const key of keys) {
+        this.#index.delete(key);
+      }
+
+      for (let i: number = 0; i < this.#entries.length; i++) {
+        const entry: MappedListTuple<GValue> = this.#entries[i];
+
+        if (keys.has(entry[0])) {
+          const bucket: MappedListTuple<GValue>[] | undefined = this.#index.get(entry[0]);
+
+          if (bucket === undefined) {
+            this.#index.set(entry[0], [entry]);
+          } else {
+            bucket.push(entry);
+          }
+        }
+      }
+    }
+
+    /**
+     * Rebuilds the index (and the total size, and the sort state) from `#entries`.
+     */
+    #reindex(): void {
+      this.#index.clear();
+      this.#totalSize = 0;
+      this.#sorted = true;
+
+      for (let i: number = 0; i < this.#entries.length; i++) {
+        const entry: MappedListTuple<GValue> = this.#entries[i];
+        const bucket: MappedListTuple<GValue>[] | undefined = this.#index.get(entry[0]);
+
+        if (bucket === undefined) {
+          this.#index.set(entry[0], [entry]);
+        } else {
+          bucket.push(entry);
+        }
+
+        this.#trackSize(entry, 1);
+
+        if (i > 0 && this.#entries[i - 1][0] > entry[0]) {
+          this.#sorted = false;
+        }
+      }
+    }
+
+    /**
+     * Updates the sort state once `count` entries are inserted at `start`:
+     * the keys stay in order if the inserted entries are in order with their neighbors.
+     */
+    #trackSorted(start: number, count: number): void {
+      if (!this.#sorted) {
+        return;
+      }
+
+      const end: number = Math.min(start + count, this.#entries.length - 1);
+
+      for (let i: number = Math.max(start, 1); i <= end; i++) {
+        if (this.#entries[i - 1][0] > this.#entries[i][0]) {
+          this.#sorted = false;
+          return;
+        }
+      }
+    }
+
+    *keys(): Generator<string> {
+      const entries: readonly MappedListTuple<GValue>[] = this.#liveEntries();
+
+      for (let i: number = 0; i < entries.length; i++) {
+        yield entries[i][0];
+      }
+    }
+
+    *values(): Generator<GValue> {
+      const entries: readonly MappedListTuple<GValue>[] = this.#liveEntries();
+
+      for (let i: number = 0; i < entries.length; i++) {
+        yield entries[i][1];
+      }
+    }
+
+    *entries(): Generator<MappedListTuple<GValue>> {
+      const entries: readonly MappedListTuple<GValue>[] = this.#liveEntries();
+
+      for (let i: number = 0; i < entries.length; i++) {
+        yield entries[i];
+      }
+    }
+
+    [Symbol.iterator](): IterableIterator<MappedListTuple<GValue>> {
+      return this.entries();
+    }
+
+    forEach(callback: (value: GValue, key: string) => void): void {
+      const entries: readonly MappedListTuple<GValue>[] = this.#liveEntries();
+
+      for (let i: number = 0; i < entries.length; i++) {
+        callback(entries[i][1], entries[i][0]);
+      }
+    }
+
+    filter(predicate: (value: GValue, key: string) => boolean): MappedListTuple<GValue>[] {
+      return this.#liveEntries().filter((entry: MappedListTuple<GValue>): boolean =>
+        predicate(entry[1], entry[0]),
+      );
+    }
+
+    find(predicate: (value: GValue, key: string) => boolean): MappedListTuple<GValue> | undefined {
+      return this.#liveEntries().find((entry: MappedListTuple<GValue>): boolean =>
+        predicate(entry[1], entry[0]),
+      );
+    }
+
+    some(predicate: (value: GValue, key: string) => boolean): boolean {
+      return this.#liveEntries().some((entry: MappedListTuple<GValue>): boolean =>
+        predicate(entry[1], entry[0]),
+      );
+    }
+
+    every(predicate: (value: GValue, key: string) => boolean): boolean {
+      return this.#liveEntries().every((entry: MappedListTuple<GValue>): boolean =>
+        predicate(entry[1], entry[0]),
+      );
+    }
+
+    count(key: string): number {
+      return this.#liveBucket(validateKey(key, 'count'))?.length ?? 0;
+    }
+
+    *uniqueKeys(): Generator<string> {
+      const entries: readonly MappedListTuple<GValue>[] = this.#liveEntries();
+      const visited: Set<string> = new Set();
+
+      for (let i: number = 0; i < entries.length; i++) {
+        const key: string = entries[i][0];
+
+        if (!visited.has(key)) {
+          visited.add(key);
+          yield key;
+        }
+      }
+    }
+
+    entriesMatching(query: MappedListKeyQuery): MappedListTuple<GValue>[] {
+      return this.#entriesMatching(mappedListKeyMatcher(query));
+    }
+
+    /**
+     * Returns the entries (not expired) whose key matches `matcher`.
+     * If the keys are sorted, only the range [`lower`, `upper`) of the matcher is scanned, starting from a binary search.
+     */
+    #entriesMatching({ lower, upper, test }: MappedListKeyMatcher): MappedListTuple<GValue>[] {
+      if (!this.#sorted) {
+        return this.#liveEntries().filter(([key]: MappedListTuple<GValue>): boolean => test(key));
+      }
+
+      const now: number = expiring ? clock!() : 0;
+      const matched: MappedListTuple<GValue>[] = [];
+
+      for (let i: number = lowerBoundByKey(this.#entries, lower); i < this.#entries.length; i++) {
+        const entry: MappedListTuple<GValue> = this.#entries[i];
+
+        if (upper !== undefined && entry[0] >= upper) {
+          break;
+        }
+
+        if (test(entry[0]) && !(expiring && this.#isExpired(entry, now))) {
+          matched.push(entry);
+        }
+      }
+
+      return matched;
+    }
+
+    filteredView(predicate: (value: GValue, key: string) => boolean): ReadonlyMappedList<GValue> {
+      return new FilteredMappedList<GValue>(this, predicate, viewOptions);
+    }
+
+    keyFilteredView(predicate: (key: string) => boolean): ReadonlyMappedList<GValue> {
+      return new FilteredMappedList<GValue>(
+        this,
+        (_value: GValue, key: string): boolean => predicate(key),
+        viewOptions,
+      );
+    }
+
+    valuesView(key: string): MappedListValues<GValue> {
+      return new MappedListValuesView<GValue>(this, validateKey(key, 'valuesView'));
+    }
+
+    *rawKeys(): Generator<string> {
+      const entries: readonly MappedListTuple<GValue>[] = this.#liveEntries();
+
+      for (let i: number = 0; i < entries.length; i++) {
+        yield this.#rawKeyOf(entries[i]);
+      }
+    }
+
+    *rawEntries(): Generator<MappedListTuple<GValue>> {
+      const entries: readonly MappedListTuple<GValue>[] = this.#liveEntries();
+
+      for (let i: number = 0; i < entries.length; i++) {
+        const entry: MappedListTuple<GValue> = entries[i];
+        const rawKey: string | undefined = this.#rawKeys.get(entry);
+
+        yield rawKey === undefined ? entry : [rawKey, entry[1]];
+      }
+    }
+
+    toArray({ keys = 'normalized' }: MappedListConversionOptions = {}): MappedListTuple<GValue>[] {
+      return keys === 'raw' ? Array.from(this.rawEntries()) : this.#liveEntries().slice();
+    }
+
+    toObject({ keep = 'first', keys = 'normalized' }: MappedListToObjectOptions = {}): Record<
+      string,
+      GValue
+    > {
+      // the kept entry of each key
+      const kept: Map<string, MappedListTuple<GValue>> = new Map<string, MappedListTuple<GValue>>();
+      const entries: readonly MappedListTuple<GValue>[] = this.#liveEntries();
+
+      for (let i: number = 0; i < entries.length; i++) {
+        const entry: MappedListTuple<GValue> = entries[i];
+
+        if (keep === 'last' || !kept.has(entry[0])) {
+          kept.set(entry[0], entry);
+        }
+      }
+
+      // unlike an assignment, `Object.fromEntries` defines `__proto__` as a regular property
+      return Object.fromEntries(
+        Array.from(kept.values(), (entry: MappedListTuple<GValue>): MappedListTuple<GValue> => [
+          keys === 'raw' ? this.#rawKeyOf(entry) : entry[0],
+          entry[1],
+        ]),
+      );
+    }
+
+    toGroupedObject(options?: MappedListConversionOptions): Record<string, GValue[]> {
+      return Object.fromEntries(this.toMap(options));
+    }
+
+    toMap({ keys = 'normalized' }: MappedListConversionOptions = {}): Map<string, GValue[]> {
+      const map: Map<string, GValue[]> = new Map<string, GValue[]>();
+
+      for (const [key, entries] of this.#groupByKey()) {
+        map.set(
+          keys === 'raw' ? this.#rawKeyOf(entries[0]) : key,
+          entries.map((entry: MappedListTuple<GValue>): GValue => entry[1]),
+        );
+      }
+
+      return map;
+    }
+
+    /**
+     * Returns the entries grouped by key, ordered by the first occurrence of the key.
+     */
+    #groupByKey(): Map<string, MappedListTuple<GValue>[]> {
+      return this.groupBy((_value: GValue, key: string): string => key);
+    }
+
+    groupBy<GGroup>(
+      callback: (value: GValue, key: string) => GGroup,
+    ): Map<GGroup, MappedListTuple<GValue>[]> {
+      const groups: Map<GGroup, MappedListTuple<GValue>[]> = new Map<
+        GGroup,
+        MappedListTuple<GValue>[]
+      >();
+      const entries: readonly MappedListTuple<GValue>[] = this.#liveEntries();
+
+      for (let i: number = 0; i < entries.length; i++) {
+        const entry: MappedListTuple<GValue> = entries[i];
+        const group: GGroup = callback(entry[1], entry[0]);
+        const grouped: MappedListTuple<GValue>[] | undefined = groups.get(group);
+
+        if (grouped === undefined) {
+          groups.set(group, [entry]);
+        } else {
+          grouped.push(entry);
+        }
+      }
+
+      return groups;
+    }
+
+    toJSON(): MappedListTuple<GValue>[] {
+      return this.toArray({ keys: 'raw' });
+    }
+
+    validate(): MappedListValidationReport {
+      const violations: MappedListViolation[] = this.#validate();
+
+      return {
+        valid: violations.length === 0,
+        violations,
+      };
+    }
+
+    #validate(): MappedListViolation[] {
+      const violations: MappedListViolation[] = [];
+
+      for (const [key, { min = 0, max = Number.POSITIVE_INFINITY }] of limits) {
+        const count: number = this.#liveBucket(key)?.length ?? 0;
+
+        if (count < min) {
+          violations.push(minViolation(key, min));
+        } else if (count > max) {
+          violations.push(maxViolation(key, max));
+        }
+      }
+
+      for (let i: number = 0; i < rules.length; i++) {
+        for (const message of rules[i](this)) {
+          violations.push({ type: 'rule', message });
+        }
+      }
+
+      return violations;
+    }
+
+    /**
+     * Throws if adding the entries `added`, and removing the entries `removed`, exceeds the maximum number of entries of a key.
+     */
+    #throwIfExceedsMax(
+      added: readonly MappedListTuple<GValue>[],
+      removed: readonly MappedListTuple<GValue>[] = [],
+    ): void {
+      if (limits.size === 0) {
+        return;
+      }
+
+      const counts: Map<string, number> = new Map();
+
+      for (const [key] of added) {
+        counts.set(key, (counts.get(key) ?? this.#index.get(key)?.length ?? 0) + 1);
+      }
+
+      for (const [key] of removed) {
+        const count: number | undefined = counts.get(key);
+
+        if (count !== undefined) {
+          counts.set(key, count - 1);
+        }
+      }
+
+      const violations: MappedListViolation[] = [];
+
+      for (const [key, count] of counts) {
+        const max: number | undefined = limits.get(key)?.max;
+
+        if (max !== undefined && count > max) {
+          violations.push(maxViolation(key, max));
+        }
+      }
+
+      if (violations.length > 0) {
+        throw new MappedListValidationError(violations);
+      }
+    }
+
+    /**
+     * Returns the size of `entry`, measured once by the `sizer`.
+     */
+    #sizeOf(entry: MappedListTuple<GValue>): number {
+      let size: number | undefined = this.#sizes.get(entry);
+
+      if (size === undefined) {
+        size = sizer(entry[0], entry[1]);
+        this.#sizes.set(entry, size);
+      }
+
+      return size;
+    }
+
+    /**
+     * Updates the total size when `entry` is added to (`1`) or removed from (`-1`) `#entries`.
+     */
+    #trackSize(entry: MappedListTuple<GValue>, direction: 1 | -1): void {
+      if (sized) {
+        this.#totalSize += direction * this.#sizeOf(entry);
+      }
+    }
+
+    /**
+     * Evicts the entries making room for the entries `added` (minus the entries `removed`), according to the overflow policy,
+     * and returns them (with their position before the eviction).
+     * Throws a `MappedListCapacityError` if the capacity would be exceeded, and the overflow policy can't make room.
+     */
+    #ensureCapacity(
+      added: readonly MappedListTuple<GValue>[],
+      removed: readonly MappedListTuple<GValue>[] = [],
+      operation: string,
+    ): MappedListChangedEntry<GValue>[] {
+      if (!bounded || added.length === 0) {
+        return [];
+      }
+
+      const evicted: ReadonlySet<MappedListTuple<GValue>> = this.#selectEvicted(
+        added,
+        removed,
+        operation,
+      );
+
+      if (evicted.size === 0) {
+        return [];
+      }
+
+      const evictedEntries: MappedListChangedEntry<GValue>[] = this.#removeEntries(
+        (entry: MappedListTuple<GValue>): boolean => evicted.has(entry),
+      );
+
+      this.#reindexKeys(
+        new Set(evictedEntries.map(({ key }: MappedListChangedEntry<GValue>): string => key)),
+      );
+
+      this.#notify('evict', [], evictedEntries);
+
+      return evictedEntries;
+    }
+
+    /**
+     * Returns the entries to evict, scanning the list from its first entry, and stopping as soon as there is enough room.
+     */
+    #selectEvicted(
+      added: readonly MappedListTuple<GValue>[],
+      removed: readonly MappedListTuple<GValue>[],
+      operation: string,
+    ): Set<MappedListTuple<GValue>> {
+      const excluded: ReadonlySet<MappedListTuple<GValue>> = new Set(removed);
+      const evicted: Set<MappedListTuple<GValue>> = new Set();
+
+      let entries: number = this.#entries.length - removed.length + added.length;
+      let size: number = this.#totalSize;
+
+      // the number of entries of the keys of `added`, after the change
+      const counts: Map<string, number> = new Map();
+      // the number of keys exceeding `maxEntriesPerKey`
+      let exceededKeys: number = 0;
+
+      for (const entry of added) {
+        counts.set(entry[0], (counts.get(entry[0]) ?? this.#index.get(entry[0])?.length ?? 0) + 1);
+
+        if (sized) {
+          size += this.#sizeOf(entry);
+        }
+      }
+
+      for (const entry of removed) {
+        const count: number | undefined = counts.get(entry[0]);
+
+        if (count !== undefined) {
+          counts.set(entry[0], count - 1);
+        }
+
+        if (sized) {
+          size -= this.#sizeOf(entry);
+        }
+      }
+
+      for (const count of counts.values()) {
+        if (count > maxEntriesPerKey) {
+          exceededKeys++;
+        }
+      }
+
+      const exceeded = (): MappedListCapacityLimit | undefined => {
+        if (entries > maxEntries) {
+          return 'maxEntries';
+        } else if (exceededKeys > 0) {
+          return 'maxEntriesPerKey';
+        } else if (size > maxSize) {
+          return 'maxSize';
+        } else {
+          return undefined;
+        }
+      };
+
+      if (overflow !== 'reject') {
+        for (let i: number = 0; i < this.#entries.length && exceeded() !== undefined; i++) {
+          const entry: MappedListTuple<GValue> = this.#entries[i];
+
+          // the entries of the locked keys are never evicted
+          if (excluded.has(entry) || this.#locks.has(entry[0])) {
+            continue;
+          }
+
+          // `undefined` if the entry doesn't share its key with an added entry
+          const count: number | undefined = counts.get(entry[0]);
+          const keyExceeded: boolean = count !== undefined && count > maxEntriesPerKey;
+
+          if (
+            keyExceeded ||
+            ((count !== undefined || overflow === 'evictOldest') &&
+              (entries > maxEntries || size > maxSize))
+          ) {
+            evicted.add(entry);
+            entries--;
+
+            if (sized) {
+              size -= this.#sizeOf(entry);
+            }
+
+            if (count !== undefined) {
+              counts.set(entry[0], count - 1);
+
+              if (keyExceeded && count - 1 <= maxEntriesPerKey) {
+                exceededKeys--;
+              }
+            }
+          }
+        }
+      }
+
+      const limit: MappedListCapacityLimit | undefined = exceeded();
+
+      if (limit === 'maxEntries') {
+        throw new MappedListCapacityError(limit, maxEntries, { operation });
+      } else if (limit === 'maxEntriesPerKey') {
+        throw new MappedListCapacityError(limit, maxEntriesPerKey, {
+          operation,
+          key: Array.from(counts).find(([, count]: [string, number]): boolean => {
+            return count > maxEntriesPerKey;
+          })![0],
+        });
+      } else if (limit === 'maxSize') {
+        throw new MappedListCapacityError(limit, maxSize, { operation });
+      }
+
+      return evicted;
+    }
+
+    transaction<GReturn>(callback: (list: this) => GReturn): GReturn {
+      this.throwIfImmutable('transaction');
+
+      const snapshot: readonly MappedListTuple<GValue>[] = this.#entries.slice();
+      const locks: readonly string[] = Array.from(this.#locks);
+      const parent: MappedListChange<GValue>[] | undefined = this.#pending;
+      const pending: MappedListChange<GValue>[] = [];
+
+      this.#pending = pending;
+
+      let result: GReturn;
+
+      try {
+        result = callback(this);
+      } catch (error: unknown) {
+        this.#pending = parent;
+        this.#entries.length = 0;
+
+        for (let i: number = 0; i < snapshot.length; i++) {
+          this.#entries.push(snapshot[i]);
+        }
+
+        this.#reindex();
+
+        // the keys locked by `callback` are unlocked
+        this.#locks.clear();
+
+        for (let i: number = 0; i < locks.length; i++) {
+          this.#locks.add(locks[i]);
+        }
+
+        throw error;
+      }
+
+      this.#pending = parent;
+
+      if (parent === undefined) {
+        this.#commit(pending);
+      } else {
+        // nested transaction: the changes are committed with the parent transaction
+        parent.push(...pending);
+      }
+
+      return result;
+    }
+
+    get canUndo(): boolean {
+      return this.#undoStack.length > 0;
+    }
+
+    get canRedo(): boolean {
+      return this.#redoStack.length > 0;
+    }
+
+    undo(): boolean {
+      this.throwIfImmutable('undo');
+      this.#throwIfInTransaction('undo');
+
+      const changes: readonly MappedListChange<GValue>[] | undefined = this.#undoStack.at(-1);
+
+      if (changes === undefined) {
+        return false;
+      }
+
+      this.#throwIfLocked(changedKeys(changes), 'undo');
+      this.#undoStack.pop();
+
+      const inverted: MappedListChange<GValue>[] = [];
+
+      for (let i: number = changes.length - 1; i >= 0; i--) {
+        inverted.push(invertChange(changes[i]));
+      }
+
+      this.#replay(inverted);
+      this.#redoStack.push(changes);
+      this.#dispatch(inverted);
+
+      return true;
+    }
+
+    redo(): boolean {
+      this.throwIfImmutable('redo');
+      this.#throwIfInTransaction('redo');
+
+      const changes: readonly MappedListChange<GValue>[] | undefined = this.#redoStack.at(-1);
+
+      if (changes === undefined) {
+        return false;
+      }
+
+      this.#throwIfLocked(changedKeys(changes), 'redo');
+      this.#redoStack.pop();
+
+      const replayed: MappedListChange<GValue>[] = changes.map(
+        (change: MappedListChange<GValue>): MappedListChange<GValue> => ({
+          ...change,
+          type: 'redo',
+        }),
+      );
+
+      this.#replay(replayed);
+      this.#undoStack.push(changes);
+      this.#dispatch(replayed);
+
+      return true;
+    }
+
+    #throwIfInTransaction(operation: string): void {
+      if (this.#pending !== undefined) {
+        throw new MappedListTransactionError({ operation });
+      }
+    }
+
+    /**
+     * Applies the recorded `changes` to `#entries`, in order.
+     */
+    #replay(changes: readonly MappedListChange<GValue>[]): void {
+      for (let i: number = 0; i < changes.length; i++) {
+        const { added, removed, moved } = changes[i];
+
+        // the positions of the removed entries are those before the change, and the ones of the added entries after it
+        for (let j: number = removed.length - 1; j >= 0; j--) {
+          this.#entries.splice(removed[j].index, 1);
+        }
+
+        for (let j: number = 0; j < added.length; j++) {
+          const entry: MappedListTuple<GValue> = this.#toEntry(
+            added[j].key,
+            added[j].value,
+            added[j].rawKey ?? added[j].key,
+          );
+
+          if (added[j].expiresAt !== undefined) {
+            this.#deadlines.set(entry, added[j].expiresAt!);
+          }
+
+          this.#entries.splice(added[j].index, 0, entry);
+        }
+
+        if (moved.length > 0) {
+          const previous: readonly MappedListTuple<GValue>[] = this.#entries.slice();
+
+          for (let j: number = 0; j < moved.length; j++) {
+            this.#entries[moved[j].to] = previous[moved[j].from];
+          }
+        }
+      }
+
+      this.#reindex();
+    }
+
+    observe(observer: MappedListObserver<GValue>): MappedListUnobserve {
+      this.#observers.add(observer);
+
+      return (): void => {
+        this.#observers.delete(observer);
+      };
+    }
+
+    #notify(
+      type: MappedListChangeType,
+      added: readonly MappedListChangedEntry<GValue>[],
+      removed: readonly MappedListChangedEntry<GValue>[],
+      moved: readonly MappedListMovedEntry<GValue>[] = [],
+    ): void {
+      if (!this.#isTracked()) {
+        return;
+      }
+
+      const change: MappedListChange<GValue> = {
+        type,
+        added,
+        removed,
+        moved,
+        size: this.#entries.length,
+      };
+
+      if (this.#pending !== undefined) {
+        this.#pending.push(change);
+      } else if (type === 'evict') {
+        // committed with the change it makes room for, so that they are undone together
+        this.#evictions.push(change);
+      } else {
+        this.#commit([...this.#evictions.splice(0), change]);
+      }
+    }
+
+    /**
+     * Returns `true` if the changes have to be described (to be observed, or recorded in the history).
+     */
+    #isTracked(): boolean {
+      return this.#observers.size > 0 || history > 0;
+    }
+
+    /**
+     * Records `changes` in the history, and reports them to the observers.
+     */
+    #commit(changes: readonly MappedListChange<GValue>[]): void {
+      if (changes.length === 0) {
+        return;
+      }
+
+      if (history > 0) {
+        this.#undoStack.push(changes);
+
+        if (this.#undoStack.length > history) {
+          this.#undoStack.shift();
+        }
+
+        this.#redoStack.length = 0;
+      }
+
+      this.#dispatch(changes);
+    }
+
+    #dispatch(changes: readonly MappedListChange<GValue>[]): void {
+      for (let i: number = 0; i < changes.length; i++) {
+        // iterates over a copy, so observers may safely (un)register observers
+        for (const observer of Array.from(this.#observers)) {
+          observer(changes[i]);
+        }
+      }
+    }
+
+    /**
+     * Reports the entries whose position differs between `previous` and the current `#entries`.
+     */
+    #notifyMoves(type: MappedListChangeType, previous: readonly MappedListTuple<GValue>[]): void {
+      const positions: Map<MappedListTuple<GValue>, number> = new Map(
+        previous.map((entry: MappedListTuple<GValue>, index: number) => [entry, index]),
+      );
+      const moved: MappedListMovedEntry<GValue>[] = [];
+
+      for (let i: number = 0; i < this.#entries.length; i++) {
+        const entry: MappedListTuple<GValue> = this.#entries[i];
+        const from: number = positions.get(entry)!;
+
+        if (from !== i) {
+          moved.push({ key: entry[0], value: entry[1], from, to: i });
+        }
+      }
+
+      if (moved.length > 0) {
+        this.#notify(type, [], [], moved);
+      }
+    }
+  };
+}
+
+/**
+ * The default `sizer` of the capacity: the length of the key, plus the length of the value converted to a string.
+ */
+function defaultSizer<GValue>(key: string, value: GValue): number {
+  return key.length + String(value).length;
+}
+
+/**
+ * Returns the change reverting `change`.
+ */
+function invertChange<GValue>({
+  added,
+  removed,
+  moved,
+  size,
+}: MappedListChange<GValue>): MappedListChange<GValue> {
+  return {
+    type: 'undo',
+    added: removed,
+    removed: added,
+    moved: moved
+      .map(
+        ({ key, value, from, to }: MappedListMovedEntry<GValue>): MappedListMovedEntry<GValue> => ({
+          key,
+          value,
+          from: to,
+          to: from,
+        }),
+      )
+      .sort((a: MappedListMovedEntry<GValue>, b: MappedListMovedEntry<GValue>): number => {
+        return a.to - b.to;
+      }),
+    size: size - added.length + removed.length,
+  };
+}
+
+/**
+ * Returns the keys of the entries added or removed by `changes`.
+ */
+function changedKeys<GValue>(changes: readonly MappedListChange<GValue>[]): Set<string> {
+  const keys: Set<string> = new Set();
+
+  for (const { added, removed } of changes) {
+    for (const { key } of [...added, ...removed]) {
+      keys.add(key);
+    }
+  }
+
+  return keys;
+}
+
+function toChangedEntry<GValue>(
+  [key, value]: MappedListTuple<GValue>,
+  index: number,
+  rawKey: string | undefined,
+  expiresAt: number | undefined,
+): MappedListChangedEntry<GValue> {
+  return {
+    key,
+    value,
+    index,
+    ...(rawKey === undefined ? {} : { rawKey }),
+    ...(expiresAt === undefined ? {} : { expiresAt }),
+  };
+}
+
+/**
+ * Converts a possibly negative `index` into a position in a list of `size` entries.
+ * Throws if there is no entry at this position.
+ */
+function toPosition(index: number, size: number): number {
+  let position: number = Math.trunc(index) || 0;
+
+  if (position < 0) {
+    position += size;
+  }
+
+  if (position >= 0 && position < size) {
+    return position;
+  } else {
+    throw new RangeError(`Out of range: ${index}`);
+  }
+}
+
+/**
+ * Converts a possibly negative `index` into a position in a list of `size` entries,
+ * clamped to the bounds of the list (like `Array.prototype.splice`).
+ */
+function clampPosition(index: number, size: number): number {
+  index = Math.trunc(index) || 0;
+
+  return index < 0 ? Math.max(size + index, 0) : Math.min(index, size);
+}
+
+/**
+ * Merges the `required` keys into the `cardinality` constraints.
+ */
+function toCardinalityLimits(
+  cardinality: Readonly<Record<string, MappedListCardinality>>,
+  required: readonly string[],
+): Map<string, MappedListCardinality> {
+  const limits: Map<string, MappedListCardinality> = new Map(Object.entries(cardinality));
+
+  for (let i: number = 0; i < required.length; i++) {
+    const limit: MappedListCardinality | undefined = limits.get(required[i]);
+
+    if ((limit?.min ?? 0) < 1) {
+      limits.set(required[i], { ...limit, min: 1 });
+    }
+  }
+
+  return limits;
+}
+
+function minViolation(key: string, min: number): MappedListViolation {
+  return {
+    type: 'min',
+    key,
+    message: `Too few entries: ${key} (min: ${min})`,
+  };
+}
+
+function maxViolation(key: string, max: number): MappedListViolation {
+  return {
+    type: 'max',
+    key,
+    message: `Too many entries: ${key} (max: ${max})`,
   };
 }
@@ -0,0 +1,283 @@
+import { describe, expect, it } from 'vitest';
+import { valueComparator } from './entry-comparators.js';
+import { MappedListInvalidKeyError, MappedListMissingKeyError } from './mapped-list-errors.js';
+import { type MappedListTuple } from './mapped-list.js';
+import { persistentMappedListFactory } from './persistent-mapped-list-factory.js';
+import { type PersistentMappedList } from './persistent-mapped-list.js';
+import { deepEqual } from './value-equality.js';
+
+const TestClass = persistentMappedListFactory<string>({
+  validateKey: (key: string): string => {
+    if (key === '@invalid') {
+      throw new Error('Invalid key');
+    }
+    return key.toLowerCase();
+  },
+});
+
+function entriesOf<GValue>(list: PersistentMappedList<GValue>): MappedListTuple<GValue>[] {
+  return Array.from(list);
+}
+
+describe('persistentMappedListFactory', () => {
+  describe('constructor', () => {
+    it('should support no options (use defaults)', () => {
+      const instance = new (persistentMappedListFactory<string>())();
+      expect(instance.size).toBe(0);
+      expect(instance.withAppended('a', 'b').get('a')).toBe('b');
+    });
+
+    it('should accept iterables and records, and validate them', () => {
+      expect(entriesOf(new TestClass([['A', '1']]))).toEqual([['a', '1']]);
+      expect(entriesOf(new TestClass({ B: '2' }))).toEqual([['b', '2']]);
+      expect(() => new TestClass([['@invalid', '1']])).toThrow('Invalid key');
+    });
+  });
+
+  describe('read', () => {
+    const instance = new TestClass([
+      ['a', '1'],
+      ['b', '2'],
+      ['A', '3'],
+    ]);
+
+    it('should support get/getAll/getOptional', () => {
+      expect(instance.get('A')).toBe('1');
+      expect(() => instance.get('c')).toThrow('Missing: c');
+      expect(instance.getAll('a')).toEqual(['1', '3']);
+      expect(instance.getAll('c')).toEqual([]);
+      expect(instance.getOptional('b')).toBe('2');
+      expect(instance.getOptional('c')).toBe(undefined);
+    });
+
+    it('should support has/hasEntry', () => {
+      expect(instance.has('a')).toBe(true);
+      expect(instance.has('a', '3')).toBe(true);
+      expect(instance.has('a', '2')).toBe(false);
+      expect(instance.hasEntry('b', '2')).toBe(true);
+      expect(instance.hasEntry('c', '2')).toBe(false);
+    });
+
+    it('should support at/indexOf', () => {
+      expect(instance.at(1)).toEqual(['b', '2']);
+      expect(instance.at(-1)).toEqual(['a', '3']);
+      expect(instance.at(3)).toBe(undefined);
+      expect(instance.at(-4)).toBe(undefined);
+      expect(instance.indexOf('A')).toBe(0);
+      expect(instance.indexOf('a', '3')).toBe(2);
+      expect(instance.indexOf('a', '2')).toBe(-1);
+      expect(instance.indexOf('c')).toBe(-1);
+    });
+
+    it('should support iteration', () => {
+      expect(Array.from(instance.keys())).toEqual(['a', 'b', 'a']);
+      expect(Array.from(instance.values())).toEqual(['1', '2', '3']);
+      expect(Array.from(instance.entries())).toEqual([
+        ['a', '1'],
+        ['b', '2'],
+        ['a', '3'],
+      ]);
+
+      const forEachEntries: MappedListTuple<string>[] = [];
+      instance.forEach((value: string, key: string): void => {
+        forEachEntries.push([key, value]);
+      });
+      expect(forEachEntries).toEqual(entriesOf(instance));
+    });
+  });
+
+  describe('operations', () => {
+    it('should append without modifying the original list', () => {
+      const a = new TestClass([['a', '1']]);
+      const b = a.withAppended('B', '2');
+
+      expect(b).not.toBe(a);
+      expect(b).toBeInstanceOf(TestClass);
+      expect(entriesOf(a)).toEqual([['a', '1']]);
+      expect(entriesOf(b)).toEqual([
+        ['a', '1'],
+        ['b', '2'],
+      ]);
+      expect(a.has('b')).toBe(false);
+      expect(b.get('b')).toBe('2');
+    });
+
+    it('should delete entries', () => {
+      const a = new TestClass([
+        ['a', '1'],
+        ['b', '2'],
+        ['a', '3'],
+      ]);
+
+      expect(entriesOf(a.withDeleted('A'))).toEqual([['b', '2']]);
+      expect(entriesOf(a.withDeleted('a', '3'))).toEqual([
+        ['a', '1'],
+        ['b', '2'],
+      ]);
+      expect(entriesOf(a.withDeletedEntry('b', '2'))).toEqual([
+        ['a', '1'],
+        ['a', '3'],
+      ]);
+      expect(a.size).toBe(3);
+    });
+
+    it('should return the same list when nothing is deleted', () => {
+      const a = new TestClass([['a', '1']]);
+
+      expect(a.withDeleted('b')).toBe(a);
+      a.has('a'); // builds the index
+      expect(a.withDeleted('b')).toBe(a);
+      expect(a.withDeleted('a', '2')).toBe(a);
+      expect(a.withDeletedEntry('a', '2')).toBe(a);
+    });
+
+    it('should set entries', () => {
+      const a = new TestClass([
+        ['a', '1'],
+        ['b', '2'],
+        ['a', '3'],
+      ]);
+
+      expect(entriesOf(a.withSet('A', '4'))).toEqual([
+        ['b', '2'],
+        ['a', '4'],
+      ]);
+      expect(entriesOf(a.withSet('c', '5'))).toEqual([
+        ['a', '1'],
+        ['b', '2'],
+        ['a', '3'],
+        ['c', '5'],
+      ]);
+      expect(a.size).toBe(3);
+    });
+
+    it('should return the same list when setting the last entry to an equal value', () => {
+      const a = new TestClass([
+        ['a', '1'],
+        ['b', '2'],
+      ]);
+
+      expect(a.withSet('b', '2')).toBe(a);
+      expect(a.withSet('b', '3')).not.toBe(a);
+      expect(a.withSet('a', '1')).not.toBe(a);
+    });
+
+    it('should use the equals option', () => {
+      const a = new (persistentMappedListFactory<object>({ equals: deepEqual }))([
+        ['a', { id: 1 }],
+      ]);
+
+      expect(a.withSet('a', { id: 1 })).toBe(a);
+      expect(a.hasEntry('a', { id: 1 })).toBe(true);
+      expect(a.withDeletedEntry('a', { id: 1 }).size).toBe(0);
+    });
+
+    it('should clear', () => {
+      const a = new TestClass([['a', '1']]);
+      const b = a.withCleared();
+
+      expect(b.size).toBe(0);
+      expect(entriesOf(b)).toEqual([]);
+      expect(b.withCleared()).toBe(b);
+      expect(a.size).toBe(1);
+    });
+
+    it('should sort', () => {
+      const a = new TestClass([
+        ['c', '1'],
+        ['a', '3'],
+        ['b', '2'],
+      ]);
+      const b = a.withSorted();
+
+      expect(entriesOf(b)).toEqual([
+        ['a', '3'],
+        ['b', '2'],
+        ['c', '1'],
+      ]);
+      expect(b.withSorted()).toBe(b);
+      expect(entriesOf(a.withSorted(valueComparator()))).toEqual([
+        ['c', '1'],
+        ['b', '2'],
+        ['a', '3'],
+      ]);
+      expect(entriesOf(a)[0]).toEqual(['c', '1']);
+    });
+
+    it('should use the compare option', () => {
+      const a = new (persistentMappedListFactory<number>({ compare: valueComparator() }))([
+        ['a', 2],
+        ['b', 1],
+      ]);
+
+      expect(entriesOf(a.withSorted())).toEqual([
+        ['b', 1],
+        ['a', 2],
+      ]);
+    });
+
+    it('should validate the inputs', () => {
+      const a = new TestClass();
+
+      expect(() => a.withAppended('@invalid', '1')).toThrow('Invalid key');
+      expect(() => a.withSet('@invalid', '1')).toThrow('Invalid key');
+      expect(() => a.withDeleted('@invalid')).toThrow('Invalid key');
+    });
+
+    it('should throw typed errors', () => {
+      expect(() => new TestClass([['@invalid', '1']])).toThrow(
+        expect.objectContaining({
+          constructor: MappedListInvalidKeyError,
+          key: '@invalid',
+          operation: 'constructor',
+          index: 0,
+        }),
+      );
+      expect(() => new TestClass().get('a')).toThrow(
+        expect.objectContaining({
+          constructor: MappedListMissingKeyError,
+          key: 'a',
+          operation: 'get',
+        }),
+      );
+    });
+  });
+
+  describe('structural sharing', () => {
+    it('should handle lists spanning multiple chunks', () => {
+      let a = new (persistentMappedListFactory<number>())();
+
+      for (let i: number = 0; i < 100; i++) {
+        a = a.withAppended(`k${i % 10}`, i);
+      }
+
+      expect(a.size).toBe(100);
+      expect(Array.from(a.values())).toEqual(Array.from({ length: 100 }, (_, i: number) => i));
+      expect(a.getAll('k3')).toEqual([3, 13, 23, 33, 43, 53, 63, 73, 83, 93]);
+      expect(a.at(70)).toEqual(['k0', 70]);
+      expect(a.indexOf('k3', 93)).toBe(93);
+
+      const b = a.withDeleted('k0');
+      expect(b.size).toBe(90);
+      expect(b.has('k0')).toBe(false);
+      expect(a.has('k0')).toBe(true);
+
+      const c = a.withDeleted('k0', 50);
+      expect(c.size).toBe(99);
+      expect(c.getAll('k0')).toEqual([0, 10, 20, 30, 40, 60, 70, 80, 90]);
+
+      const d = new (persistentMappedListFactory<number>())(a).withSet('k5', -1);
+      expect(d.size).toBe(91);
+      expect(d.getAll('k5')).toEqual([-1]);
+      expect(Array.from(d.keys()).at(-1)).toBe('k5');
+    });
+
+    it('should share the entries with the original list', () => {
+      const a = new TestClass([['a', '1']]);
+      const b = a.withAppended('b', '2');
+
+      expect(entriesOf(b)[0]).toBe(entriesOf(a)[0]);
+      expect(Object.isFrozen(entriesOf(a)[0])).toBe(true);
+    });
+  });
+});
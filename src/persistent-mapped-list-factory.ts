@@ -0,0 +1,402 @@
+import { compareKeys } from './entry-comparators.js';
+import { type MappedListInit } from './mapped-list-constructor.js';
+import { MappedListMissingKeyError } from './mapped-list-errors.js';
+import { type MappedListCompare, type MappedListTuple } from './mapped-list.js';
+import { type MappedListFactoryOptions } from './parameter-list-factory.js';
+import {
+  type PersistentMappedList,
+  type PersistentMappedListConstructor,
+} from './persistent-mapped-list.js';
+import {
+  type CheckedValidateKey,
+  type CheckedValidateValue,
+  checkedValidateKey,
+  checkedValidateValue,
+  mappedListInitEntries,
+  passthrough,
+} from './shared.private.js';
+import { strictEqual } from './value-equality.js';
+
+/* TYPES */
+
+export type PersistentMappedListFactoryOptions<GValue> = Pick<
+  MappedListFactoryOptions<GValue>,
+  'validateKey' | 'validateValue' | 'equals' | 'compare'
+>;
+
+type Chunk<GValue> = readonly MappedListTuple<GValue>[];
+
+/**
+ * The internal state of a persistent list, used to create new versions of a list without re-validating its entries.
+ */
+class PersistentMappedListState<GValue> {
+  readonly chunks: readonly Chunk<GValue>[];
+  readonly size: number;
+
+  constructor(chunks: readonly Chunk<GValue>[], size: number) {
+    this.chunks = chunks;
+    this.size = size;
+  }
+}
+
+/* FACTORY */
+
+// maximum number of entries per chunk
+const CHUNK_SIZE: number = 32;
+
+/**
+ * Creates a persistent (immutable) variant of the class returned by `mappedListFactory`, with the same options.
+ *
+ * The entries are stored in fixed-size chunks: an operation only copies the chunks it modifies,
+ * and shares the others with the original list.
+ * The per-key index used by the lookups is built lazily, on the first lookup of each version.
+ */
+export function persistentMappedListFactory<GValue>({
+  validateKey: validateKeyOption = passthrough,
+  validateValue: validateValueOption = passthrough,
+  equals = strictEqual,
+  compare: defaultCompare = compareKeys,
+}: PersistentMappedListFactoryOptions<GValue> = {}): PersistentMappedListConstructor<GValue> {
+  // the validators wrap the errors into typed ones
+  const validateKey: CheckedValidateKey = checkedValidateKey(validateKeyOption);
+  const validateValue: CheckedValidateValue<GValue> = checkedValidateValue(validateValueOption);
+
+  return class implements PersistentMappedList<GValue> {
+    readonly #chunks: readonly Chunk<GValue>[];
+    readonly #size: number;
+    #index: Map<string, MappedListTuple<GValue>[]> | undefined;
+
+    constructor(init?: MappedListInit<GValue>) {
+      if (init instanceof PersistentMappedListState) {
+        this.#chunks = init.chunks;
+        this.#size = init.size;
+      } else {
+        const entries: MappedListTuple<GValue>[] = [];
+
+        if (init !== undefined) {
+          for (let [key, value] of mappedListInitEntries(init)) {
+            key = validateKey(key, 'constructor', entries.length);
+            entries.push(
+              Object.freeze([key, validateValue(value, key, 'constructor', entries.length)]),
+            );
+          }
+        }
+
+        this.#chunks = toChunks(entries);
+        this.#size = entries.length;
+      }
+    }
+
+    get size(): number {
+      return this.#size;
+    }
+
+    /* DERIVE */
+
+    #derive(chunks: readonly Chunk<GValue>[], size: number): this {
+      return new (this.constructor as new (init: PersistentMappedListState<GValue>) => this)(
+        new PersistentMappedListState(chunks, size),
+      );
+    }
+
+    withAppended(key: string, value: GValue): this {
+      key = validateKey(key, 'withAppended');
+
+      return this.#derive(
+        appendToChunks(
+          this.#chunks,
+          Object.freeze([key, validateValue(value, key, 'withAppended')]),
+        ),
+        this.#size + 1,
+      );
+    }
+
+    withDeleted(key: string, value?: GValue): this {
+      key = validateKey(key, 'withDeleted');
+
+      return value === undefined
+        ? this.#without(key, (): boolean => true)
+        : this.#withDeletedEntry(key, validateValue(value, key, 'withDeleted'));
+    }
+
+    withDeletedEntry(key: string, value: GValue): this {
+      key = validateKey(key, 'withDeletedEntry');
+
+      return this.#withDeletedEntry(key, validateValue(value, key, 'withDeletedEntry'));
+    }
+
+    #withDeletedEntry(key: string, value: GValue): this {
+      return this.#without(key, (_value: GValue): boolean => equals(_value, value));
+    }
+
+    /**
+     * Returns a new list without the entries having the key `key` and a value matching `predicate`.
+     */
+    #without(key: string, predicate: (value: GValue) => boolean): this {
+      if (this.#index !== undefined && !this.#index.has(key)) {
+        return this;
+      }
+
+      const [chunks, removed]: [Chunk<GValue>[], number] = removeFromChunks(
+        this.#chunks,
+        ([_key, _value]: MappedListTuple<GValue>): boolean => _key === key && predicate(_value),
+      );
+
+      return removed === 0 ? this : this.#derive(chunks, this.#size - removed);
+    }
+
+    withSet(key: string, value: GValue): this {
+      key = validateKey(key, 'withSet');
+      value = validateValue(value, key, 'withSet');
+
+      const bucket: readonly MappedListTuple<GValue>[] | undefined = this.#getIndex().get(key);
+
+      if (
+        bucket !== undefined &&
+        bucket.length === 1 &&
+        bucket[0] === this.#chunks.at(-1)!.at(-1) &&
+        equals(bucket[0][1], value)
+      ) {
+        return this;
+      }
+
+      const [chunks, removed]: [Chunk<GValue>[], number] =
+        bucket === undefined
+          ? [this.#chunks.slice(), 0]
+          : removeFromChunks(this.#chunks, ([_key]: MappedListTuple<GValue>): boolean => {
+              return _key === key;
+            });
+
+      return this.#derive(
+        appendToChunks(chunks, Object.freeze([key, value])),
+        this.#size - removed + 1,
+      );
+    }
+
+    withCleared(): this {
+      return this.#size === 0 ? this : this.#derive([], 0);
+    }
+
+    withSorted(compare: MappedListCompare<GValue> = defaultCompare): this {
+      const entries: MappedListTuple<GValue>[] = Array.from(this.entries());
+      const sorted: MappedListTuple<GValue>[] = entries.slice().sort(compare);
+
+      return sorted.every(
+        (entry: MappedListTuple<GValue>, index: number): boolean => entry === entries[index],
+      )
+        ? this
+        : this.#derive(toChunks(sorted), this.#size);
+    }
+
+    /* READ */
+
+    #getIndex(): Map<string, MappedListTuple<GValue>[]> {
+      if (this.#index === undefined) {
+        this.#index = new Map();
+
+        for (const entry of this.entries()) {
+          const bucket: MappedListTuple<GValue>[] | undefined = this.#index.get(entry[0]);
+
+          if (bucket === undefined) {
+            this.#index.set(entry[0], [entry]);
+          } else {
+            bucket.push(entry);
+          }
+        }
+      }
+
+      return this.#index;
+    }
+
+    get(key: string): GValue {
+      key = validateKey(key, 'get');
+
+      const value: GValue | undefined = this.#getOptional(key);
+
+      if (value === undefined) {
+        throw new MappedListMissingKeyError(key, { operation: 'get' });
+      } else {
+        return value;
+      }
+    }
+
+    getAll(key: string): GValue[] {
+      const bucket: MappedListTuple<GValue>[] | undefined = this.#getIndex().get(
+        validateKey(key, 'getAll'),
+      );
+
+      return bucket === undefined
+        ? []
+        : bucket.map((entry: MappedListTuple<GValue>): GValue => entry[1]);
+    }
+
+    getOptional(key: string): GValue | undefined {
+      return this.#getOptional(validateKey(key, 'getOptional'));
+    }
+
+    #getOptional(key: string): GValue | undefined {
+      return this.#getIndex().get(key)?.[0][1];
+    }
+
+    has(key: string, value?: GValue): boolean {
+      key = validateKey(key, 'has');
+
+      return value === undefined
+        ? this.#getIndex().has(key)
+        : this.#hasEntry(key, validateValue(value, key, 'has'));
+    }
+
+    hasEntry(key: string, value: GValue): boolean {
+      key = validateKey(key, 'hasEntry');
+
+      return this.#hasEntry(key, validateValue(value, key, 'hasEntry'));
+    }
+
+    #hasEntry(key: string, value: GValue): boolean {
+      return this.#findEntry(key, value) !== undefined;
+    }
+
+    /**
+     * Returns the first entry matching both `key` and `value`.
+     */
+    #findEntry(key: string, value: GValue): MappedListTuple<GValue> | undefined {
+      return this.#getIndex()
+        .get(key)
+        ?.find((entry: MappedListTuple<GValue>): boolean => equals(entry[1], value));
+    }
+
+    at(index: number): MappedListTuple<GValue> | undefined {
+      index = Math.trunc(index) || 0;
+
+      if (index < 0) {
+        index += this.#size;
+      }
+
+      if (index < 0) {
+        return undefined;
+      }
+
+      for (let i: number = 0; i < this.#chunks.length; i++) {
+        if (index < this.#chunks[i].length) {
+          return this.#chunks[i][index];
+        }
+
+        index -= this.#chunks[i].length;
+      }
+
+      return undefined;
+    }
+
+    indexOf(key: string, value?: GValue): number {
+      key = validateKey(key, 'indexOf');
+
+      const match: MappedListTuple<GValue> | undefined =
+        value === undefined
+          ? this.#getIndex().get(key)?.[0]
+          : this.#findEntry(key, validateValue(value, key, 'indexOf'));
+
+      if (match !== undefined) {
+        let index: number = 0;
+
+        for (const entry of this.entries()) {
+          if (entry === match) {
+            return index;
+          }
+          index++;
+        }
+      }
+
+      return -1;
+    }
+
+    *keys(): Generator<string> {
+      for (const [key] of this.entries()) {
+        yield key;
+      }
+    }
+
+    *values(): Generator<GValue> {
+      for (const [, value] of this.entries()) {
+        yield value;
+      }
+    }
+
+    *entries(): Generator<MappedListTuple<GValue>> {
+      for (let i: number = 0; i < this.#chunks.length; i++) {
+        yield* this.#chunks[i];
+      }
+    }
+
+    [Symbol.iterator](): IterableIterator<MappedListTuple<GValue>> {
+      return this.entries();
+    }
+
+    forEach(callback: (value: GValue, key: string) => void): void {
+      for (const [key, value] of this.entries()) {
+        callback(value, key);
+      }
+    }
+  };
+}
+
+/* CHUNKS */
+
+function toChunks<GValue>(entries: readonly MappedListTuple<GValue>[]): Chunk<GValue>[] {
+  const chunks: Chunk<GValue>[] = [];
+
+  for (let i: number = 0; i < entries.length; i += CHUNK_SIZE) {
+    chunks.push(entries.slice(i, i + CHUNK_SIZE));
+  }
+
+  return chunks;
+}
+
+/**
+ * Returns a copy of `chunks` with `entry` appended: only the last chunk is copied.
+ */
+function appendToChunks<GValue>(
+  chunks: readonly Chunk<GValue>[],
+  entry: MappedListTuple<GValue>,
+): Chunk<GValue>[] {
+  const output: Chunk<GValue>[] = chunks.slice();
+  const last: Chunk<GValue> | undefined = output.at(-1);
+
+  if (last === undefined || last.length >= CHUNK_SIZE) {
+    output.push([entry]);
+  } else {
+    output[output.length - 1] = [...last, entry];
+  }
+
+  return output;
+}
+
+/**
+ * Returns a copy of `chunks` without the entries matching `predicate`, and the number of removed entries.
+ * Only the chunks containing removed entries are copied; emptied chunks are dropped.
+ */
+function removeFromChunks<GValue>(
+  chunks: readonly Chunk<GValue>[],
+  predicate: (entry: MappedListTuple<GValue>) => boolean,
+): [Chunk<GValue>[], number] {
+  const output: Chunk<GValue>[] = [];
+  let removed: number = 0;
+
+  for (let i: number = 0; i < chunks.length; i++) {
+    const chunk: Chunk<GValue> = chunks[i];
+    const kept: MappedListTuple<GValue>[] = chunk.filter(
+      (entry: MappedListTuple<GValue>): boolean => !predicate(entry),
+    );
+
+    if (kept.length === chunk.length) {
+      output.push(chunk);
+    } else {
+      removed += chunk.length - kept.length;
+
+      if (kept.length > 0) {
+        output.push(kept);
+      }
+    }
+  }
+
+  return [output, removed];
+}
@@ -0,0 +1,73 @@
+import { type MappedListInit } from './mapped-list-constructor.js';
+import { type MappedListCompare } from './mapped-list.js';
+import { type ReadonlyMappedList } from './readonly-mapped-list.js';
+
+/* CLASS */
+
+/**
+ * Represents a persistent (immutable) mapped list of key/value pairs.
+ *
+ * Instead of mutating the list, its operations return a new list sharing most of its structure with the original one.
+ * When an operation leaves the list unchanged, the original list is returned (so reference equality may be used to detect changes).
+ *
+ * @template GValue The type of the values stored in the mapped list.
+ */
+export interface PersistentMappedList<GValue> extends ReadonlyMappedList<GValue> {
+  /**
+   * Returns a new list with the specified key/value pair appended.
+   *
+   * @param {string} key - The key to add to the list.
+   * @param {GValue} value - The value associated with this key.
+   * @return {this} The new list.
+   */
+  withAppended(key: string, value: GValue): this;
+
+  /**
+   * Returns a new list without the specified entries.
+   *
+   * @param {string} key - The key identifying the entries to remove.
+   * @param {GValue} [value] - Optional value to match for removal. When `undefined`, all the entries with this key are removed.
+   * @return {this} The new list, or the current one if nothing was removed.
+   */
+  withDeleted(key: string, value?: GValue): this;
+
+  /**
+   * Returns a new list without the entries matching both the specified key and value.
+   * Unlike `.withDeleted(key, value)`, an `undefined` value is compared like any other value.
+   *
+   * @param {string} key - The key identifying the entries to remove.
+   * @param {GValue} value - The value to match for removal.
+   * @return {this} The new list, or the current one if nothing was removed.
+   */
+  withDeletedEntry(key: string, value: GValue): this;
+
+  /**
+   * Returns a new list where the entries with the specified key are replaced by a single one, appended at the end.
+   *
+   * @param {string} key - The key to set the value with.
+   * @param {GValue} value - The value associated with this key.
+   * @return {this} The new list, or the current one if the key already has only this value, in last position.
+   */
+  withSet(key: string, value: GValue): this;
+
+  /**
+   * Returns a new list without any entry.
+   *
+   * @return {this} The new list, or the current one if it is already empty.
+   */
+  withCleared(): this;
+
+  /**
+   * Returns a new list with its entries sorted (using a stable sorting algorithm).
+   *
+   * @param {MappedListCompare<GValue>} [compare] - Optional function defining the sort order.
+   * @return {this} The new list, or the current one if it is already sorted.
+   */
+  withSorted(compare?: MappedListCompare<GValue>): this;
+}
+
+/* CONSTRUCTOR */
+
+export interface PersistentMappedListConstructor<GValue> {
+  new (init?: MappedListInit<GValue>): PersistentMappedList<GValue>;
+}
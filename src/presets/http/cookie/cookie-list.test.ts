@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { CookieList } from './cookie-list.js';
+
+describe('CookieList', () => {
+  describe('new(...)', () => {
+    it('should parse a Cookie header', () => {
+      const cookies = new CookieList('a=1; b=2;c=3');
+
+      expect(Array.from(cookies)).toEqual([
+        ['a', '1'],
+        ['b', '2'],
+        ['c', '3'],
+      ]);
+    });
+
+    it('should preserve duplicates and order', () => {
+      const cookies = new CookieList('b=1; a=2; b=3');
+
+      expect(cookies.getAll('b')).toEqual(['1', '3']);
+      expect(Array.from(cookies.keys())).toEqual(['b', 'a', 'b']);
+    });
+
+    it('should parse leniently', () => {
+      const cookies = new CookieList(' ;a=1 ;; \tb = 2\t; c; d=x y; e=; =f; g="h"; i==j');
+
+      expect(Array.from(cookies)).toEqual([
+        ['a', '1'],
+        ['b', '2'],
+        ['e', ''],
+        ['g', '"h"'],
+        ['i', '=j'],
+      ]);
+    });
+
+    it('should be case-sensitive', () => {
+      const cookies = new CookieList('A=1; a=2');
+
+      expect(cookies.get('A')).toBe('1');
+      expect(cookies.get('a')).toBe('2');
+    });
+
+    it('should accept a MappedListInit', () => {
+      expect(new CookieList({ a: '1' }).get('a')).toBe('1');
+      expect(new CookieList().size).toBe(0);
+    });
+  });
+
+  describe('validation', () => {
+    it('should reject invalid names', () => {
+      expect(() => new CookieList([['', '1']])).toThrow(TypeError);
+      expect(() => new CookieList([['a b', '1']])).toThrow(TypeError);
+      expect(() => new CookieList().append('a=', '1')).toThrow(TypeError);
+    });
+
+    it('should reject invalid values', () => {
+      for (const value of ['a b', 'a;b', 'a,b', 'a\\b', 'a"b', '"a', 'é', '\x7F']) {
+        expect(() => new CookieList().append('a', value)).toThrow(TypeError);
+      }
+    });
+  });
+
+  describe('.toString(...)', () => {
+    it('should serialize the cookies', () => {
+      const cookies = new CookieList([
+        ['a', '1'],
+        ['b', '"2"'],
+      ]);
+
+      expect(cookies.toString()).toBe('a=1; b="2"');
+      expect(new CookieList().toString()).toBe('');
+    });
+  });
+});
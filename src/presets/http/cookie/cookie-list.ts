@@ -0,0 +1,109 @@
+import { type MappedListInit } from '../../../mapped-list-constructor.js';
+import { type MappedListTuple } from '../../../mapped-list.js';
+import { mappedListFactory } from '../../../parameter-list-factory.js';
+import { isHttpToken } from '../http-token.js';
+import { trimWhitespace } from './cookie-parsing.private.js';
+
+/* VALIDATORS */
+
+/**
+ * Validates a cookie name: it must be a `token` (RFC 6265bis).
+ * Cookie names are case-sensitive, so the name is returned as is.
+ *
+ * @see https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis#name-syntax
+ *
+ * @param {string} name - The cookie name to validate.
+ * @return {string} The cookie name.
+ * @throws {TypeError} If `name` is not a valid cookie name.
+ */
+export function validateCookieName(name: string): string {
+  if (!isHttpToken(name)) {
+    throw new TypeError(`Invalid cookie name: ${JSON.stringify(name)}`);
+  }
+
+  return name;
+}
+
+const COOKIE_VALUE_REGEXP: RegExp =
+  /^(?:[\x21\x23-\x2B\x2D-\x3A\x3C-\x5B\x5D-\x7E]*|"[\x21\x23-\x2B\x2D-\x3A\x3C-\x5B\x5D-\x7E]*")$/;
+
+/**
+ * Validates a cookie value: it must be a sequence of `cookie-octet`, optionally surrounded by double quotes (RFC 6265bis).
+ *
+ * @see https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis#name-syntax
+ *
+ * @param {string} value - The cookie value to validate.
+ * @return {string} The cookie value.
+ * @throws {TypeError} If `value` is not a valid cookie value.
+ */
+export function validateCookieValue(value: string): string {
+  if (!COOKIE_VALUE_REGEXP.test(value)) {
+    throw new TypeError(`Invalid cookie value: ${JSON.stringify(value)}`);
+  }
+
+  return value;
+}
+
+/* PARSE */
+
+/**
+ * Parses a `Cookie` header leniently, as sent by browsers: pairs are separated by `;`,
+ * surrounding whitespace is ignored, and duplicated names are preserved in order.
+ * Pairs without `=`, or whose name or value is invalid, are skipped.
+ *
+ * @param {string} input - The value of the `Cookie` header.
+ * @return {MappedListTuple<string>[]} The list of cookies.
+ */
+export function parseCookieHeader(input: string): MappedListTuple<string>[] {
+  const output: MappedListTuple<string>[] = [];
+
+  for (const pair of input.split(';')) {
+    const index: number = pair.indexOf('=');
+
+    if (index === -1) {
+      continue;
+    }
+
+    const name: string = trimWhitespace(pair.slice(0, index));
+    const value: string = trimWhitespace(pair.slice(index + 1));
+
+    if (isHttpToken(name) && COOKIE_VALUE_REGEXP.test(value)) {
+      output.push([name, value]);
+    }
+  }
+
+  return output;
+}
+
+/* CLASS */
+
+/**
+ * A list of cookies, as sent in a `Cookie` header.
+ *
+ * It may be built from the value of a `Cookie` header, and `.toString()` serializes it back.
+ */
+export class CookieList extends mappedListFactory<string>({
+  validateKey: validateCookieName,
+  validateValue: validateCookieValue,
+}) {
+  constructor(init?: string | MappedListInit<string>) {
+    super(typeof init === 'string' ? parseCookieHeader(init) : init);
+  }
+
+  /**
+   * Returns the serialization of this list, as expected for a `Cookie` header (ex: `a=1; b=2`).
+   */
+  override toString(): string {
+    let output: string = '';
+
+    for (const [name, value] of this.entries()) {
+      if (output !== '') {
+        output += '; ';
+      }
+
+      output += `${name}=${value}`;
+    }
+
+    return output;
+  }
+}
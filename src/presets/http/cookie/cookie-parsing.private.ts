@@ -0,0 +1,8 @@
+/**
+ * Removes the leading and trailing spaces and tabs of `input`, as the cookie parsing algorithms do.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc6265#section-5.2
+ */
+export function trimWhitespace(input: string): string {
+  return input.replace(/^[\t ]+|[\t ]+$/g, '');
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { SetCookie } from './set-cookie.js';
+
+describe('SetCookie', () => {
+  describe('new(...)', () => {
+    it('should create and serialize a Set-Cookie', () => {
+      const setCookie = new SetCookie('id', 'a3fWa', {
+        'max-age': '2592000',
+        path: '/',
+        domain: 'example.com',
+        expires: new Date(Date.UTC(2015, 9, 21, 7, 28)).toUTCString(),
+        samesite: 'lax',
+        secure: '',
+        httponly: '',
+        partitioned: '',
+      });
+
+      expect(setCookie.toString()).toBe(
+        'id=a3fWa; Max-Age=2592000; Path=/; Domain=example.com; Expires=Wed, 21 Oct 2015 07:28:00 GMT; SameSite=Lax; Secure; HttpOnly; Partitioned',
+      );
+    });
+
+    it('should reject invalid names and values', () => {
+      expect(() => new SetCookie('a b', '1')).toThrow(TypeError);
+      expect(() => new SetCookie('a', '1;2')).toThrow(TypeError);
+    });
+
+    it('should reject unknown attributes', () => {
+      expect(() => new SetCookie('a', '1', { Priority: 'High' })).toThrow(TypeError);
+    });
+
+    it.each([
+      ['Secure', 'true'],
+      ['HttpOnly', 'x'],
+      ['Partitioned', ' '],
+      ['Max-Age', '-1'],
+      ['Max-Age', '01'],
+      ['Max-Age', ''],
+      ['Expires', '2015-10-21'],
+      ['SameSite', 'Default'],
+      ['Path', ''],
+      ['Path', '/a;b'],
+      ['Domain', 'a\x7Fb'],
+    ])('should reject the attribute %s=%j', (name: string, value: string) => {
+      expect(() => new SetCookie('a', '1', [[name, value]])).toThrow(TypeError);
+    });
+  });
+
+  describe('accessors', () => {
+    it('should update and validate the name and value', () => {
+      const setCookie = new SetCookie('a', '1');
+
+      setCookie.name = 'b';
+      setCookie.value = '"2"';
+      expect(setCookie.toString()).toBe('b="2"');
+
+      expect(() => (setCookie.name = '')).toThrow(TypeError);
+      expect(() => (setCookie.value = ' ')).toThrow(TypeError);
+      expect(setCookie.name).toBe('b');
+      expect(setCookie.value).toBe('"2"');
+    });
+
+    it('should update the attributes', () => {
+      const setCookie = new SetCookie('a', '1');
+
+      setCookie.attributes.set('PATH', '/').append('secure', '');
+      expect(setCookie.toString()).toBe('a=1; Path=/; Secure');
+    });
+  });
+
+  describe('.parse(...)', () => {
+    it('should parse a Set-Cookie', () => {
+      const setCookie = SetCookie.parse(
+        ' id = a3fWa ; max-age=2592000; PATH=/docs ; domain=.Example.COM; SameSite=strict; Secure; HttpOnly=1; Partitioned',
+      );
+
+      expect(setCookie.name).toBe('id');
+      expect(setCookie.value).toBe('a3fWa');
+      expect(Array.from(setCookie.attributes)).toEqual([
+        ['Max-Age', '2592000'],
+        ['Path', '/docs'],
+        ['Domain', 'example.com'],
+        ['SameSite', 'Strict'],
+        ['Secure', ''],
+        ['HttpOnly', ''],
+        ['Partitioned', ''],
+      ]);
+    });
+
+    it('should keep the last occurrence of an attribute', () => {
+      expect(SetCookie.parse('a=1; Path=/a; Path=/b').toString()).toBe('a=1; Path=/b');
+    });
+
+    it('should normalize Max-Age and Expires', () => {
+      expect(SetCookie.parse('a=1; Max-Age=-5').attributes.get('max-age')).toBe('0');
+      expect(SetCookie.parse('a=1; Max-Age=007').attributes.get('max-age')).toBe('7');
+      expect(SetCookie.parse('a=1; Expires=2015-10-21T07:28:00Z').attributes.get('expires')).toBe(
+        'Wed, 21 Oct 2015 07:28:00 GMT',
+      );
+    });
+
+    it('should ignore unknown and invalid attributes', () => {
+      expect(
+        SetCookie.parse(
+          'a=1; Priority=High; Max-Age=1d; Expires=never; Path=docs; Domain=; Domain=.; SameSite=Default; ; =x',
+        ).toString(),
+      ).toBe('a=1');
+    });
+
+    it.each(['', 'a', '=1', 'a b=1', 'a=1 2', 'a=1\n; Path=/', 'a=\x001'])(
+      'should reject %j',
+      (input: string) => {
+        expect(() => SetCookie.parse(input)).toThrow(TypeError);
+        expect(SetCookie.parseOptional(input)).toBe(undefined);
+      },
+    );
+  });
+});
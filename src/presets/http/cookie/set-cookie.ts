@@ -0,0 +1,297 @@
+import { type MappedListInit } from '../../../mapped-list-constructor.js';
+import { mappedListFactory } from '../../../parameter-list-factory.js';
+import { validateCookieName, validateCookieValue } from './cookie-list.js';
+import { trimWhitespace } from './cookie-parsing.private.js';
+
+/* ATTRIBUTES */
+
+export type SetCookieAttributeName =
+  'Path' | 'Domain' | 'Max-Age' | 'Expires' | 'SameSite' | 'Secure' | 'HttpOnly' | 'Partitioned';
+
+const SET_COOKIE_ATTRIBUTE_NAMES: ReadonlyMap<string, SetCookieAttributeName> = new Map(
+  (
+    [
+      'Path',
+      'Domain',
+      'Max-Age',
+      'Expires',
+      'SameSite',
+      'Secure',
+      'HttpOnly',
+      'Partitioned',
+    ] satisfies SetCookieAttributeName[]
+  ).map((name: SetCookieAttributeName): [string, SetCookieAttributeName] => [
+    name.toLowerCase(),
+    name,
+  ]),
+);
+
+const SAME_SITE_VALUES: ReadonlyMap<string, string> = new Map([
+  ['strict', 'Strict'],
+  ['lax', 'Lax'],
+  ['none', 'None'],
+]);
+
+const MAX_AGE_REGEXP: RegExp = /^(?:0|[1-9][0-9]*)$/;
+
+const IMF_FIXDATE_REGEXP: RegExp =
+  /^(?:Mon|Tue|Wed|Thu|Fri|Sat|Sun), [0-9]{2} (?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec) [0-9]{4} [0-9]{2}:[0-9]{2}:[0-9]{2} GMT$/;
+
+const ATTRIBUTE_VALUE_REGEXP: RegExp = /^[\x20-\x3A\x3C-\x7E]+$/;
+
+/**
+ * Validates and normalizes the name of a `Set-Cookie` attribute:
+ * it is matched case-insensitively against the known attributes, and returned in its canonical case (ex: `Max-Age`).
+ *
+ * @param {string} name - The attribute name to validate.
+ * @return {SetCookieAttributeName} The canonical attribute name.
+ * @throws {TypeError} If `name` is not a known attribute.
+ */
+export function normalizeSetCookieAttributeName(name: string): SetCookieAttributeName {
+  const normalized: SetCookieAttributeName | undefined = SET_COOKIE_ATTRIBUTE_NAMES.get(
+    name.toLowerCase(),
+  );
+
+  if (normalized === undefined) {
+    throw new TypeError(`Unknown Set-Cookie attribute: ${JSON.stringify(name)}`);
+  }
+
+  return normalized;
+}
+
+/**
+ * Validates and normalizes the value of a `Set-Cookie` attribute, according to the attribute `name`:
+ *
+ * - `Secure`, `HttpOnly` and `Partitioned` are flags: their value must be empty.
+ * - `Max-Age` must be a non-negative integer.
+ * - `Expires` must be an IMF-fixdate (as returned by `Date.prototype.toUTCString()`).
+ * - `SameSite` must be `Strict`, `Lax` or `None` (case-insensitive, returned in its canonical case).
+ * - `Path` and `Domain` must be non-empty, without control characters or `;`.
+ *
+ * @see https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis#name-syntax
+ *
+ * @param {string} value - The attribute value to validate.
+ * @param {string} name - The canonical attribute name.
+ * @return {string} The normalized attribute value.
+ * @throws {TypeError} If `value` is not valid for this attribute.
+ */
+export function validateSetCookieAttributeValue(value: string, name: string): string {
+  let valid: boolean;
+
+  switch (name) {
+    case 'Secure':
+    case 'HttpOnly':
+    case 'Partitioned':
+      valid = value === '';
+      break;
+    case 'Max-Age':
+      valid = MAX_AGE_REGEXP.test(value);
+      break;
+    case 'Expires':
+      valid = IMF_FIXDATE_REGEXP.test(value);
+      break;
+    case 'SameSite': {
+      const normalized: string | undefined = SAME_SITE_VALUES.get(value.toLowerCase());
+
+      if (normalized !== undefined) {
+        return normalized;
+      }
+
+      valid = false;
+      break;
+    }
+    default:
+      valid = ATTRIBUTE_VALUE_REGEXP.test(value);
+      break;
+  }
+
+  if (!valid) {
+    throw new TypeError(`Invalid ${name} attribute value: ${JSON.stringify(value)}`);
+  }
+
+  return value;
+}
+
+/**
+ * The list of attributes of a `Set-Cookie` header.
+ * Flags (`Secure`, `HttpOnly` and `Partitioned`) have an empty value.
+ */
+export class SetCookieAttributes extends mappedListFactory<string>({
+  validateKey: normalizeSetCookieAttributeName,
+  validateValue: validateSetCookieAttributeValue,
+}) {}
+
+/* CLASS */
+
+const SET_COOKIE_FORBIDDEN_CHARS_REGEXP: RegExp = /[\x00-\x08\x0A-\x1F\x7F]/;
+
+/**
+ * Represents the value of a `Set-Cookie` header: a cookie name and value, followed by a list of attributes.
+ *
+ * @see https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis
+ */
+export class SetCookie {
+  /**
+   * Parses the value of a `Set-Cookie` header.
+   *
+   * @param {string} input - The string to parse.
+   * @return {SetCookie} The parsed `Set-Cookie`.
+   * @throws {TypeError} If `input` is not a valid `Set-Cookie` header.
+   */
+  static parse(input: string): SetCookie {
+    const setCookie: SetCookie | undefined = this.parseOptional(input);
+
+    if (setCookie === undefined) {
+      throw new TypeError(`Invalid Set-Cookie: ${JSON.stringify(input)}`);
+    } else {
+      return setCookie;
+    }
+  }
+
+  /**
+   * Parses the value of a `Set-Cookie` header, following the parsing algorithm of user agents:
+   * unknown and invalid attributes are ignored, and the last occurrence of an attribute wins.
+   *
+   * @see https://datatracker.ietf.org/doc/html/draft-ietf-httpbis-rfc6265bis#name-the-set-cookie-header-field
+   *
+   * @param {string} input - The string to parse.
+   * @return {SetCookie | undefined} The parsed `Set-Cookie` if `input` is valid, otherwise undefined.
+   */
+  static parseOptional(input: string): SetCookie | undefined {
+    if (SET_COOKIE_FORBIDDEN_CHARS_REGEXP.test(input)) {
+      return undefined;
+    }
+
+    const [nameValuePair, ...unparsedAttributes]: string[] = input.split(';');
+
+    const index: number = nameValuePair.indexOf('=');
+
+    if (index === -1) {
+      return undefined;
+    }
+
+    let setCookie: SetCookie;
+
+    try {
+      setCookie = new SetCookie(
+        trimWhitespace(nameValuePair.slice(0, index)),
+        trimWhitespace(nameValuePair.slice(index + 1)),
+      );
+    } catch {
+      return undefined;
+    }
+
+    for (const unparsedAttribute of unparsedAttributes) {
+      const index: number = unparsedAttribute.indexOf('=');
+
+      const name: string = trimWhitespace(
+        index === -1 ? unparsedAttribute : unparsedAttribute.slice(0, index),
+      );
+      const value: string | undefined = parseSetCookieAttributeValue(
+        name.toLowerCase(),
+        index === -1 ? '' : trimWhitespace(unparsedAttribute.slice(index + 1)),
+      );
+
+      if (value !== undefined) {
+        try {
+          setCookie.attributes.set(name, value);
+        } catch {
+          // unknown or invalid attributes are ignored
+        }
+      }
+    }
+
+    return setCookie;
+  }
+
+  #name: string;
+  #value: string;
+  readonly #attributes: SetCookieAttributes;
+
+  /**
+   * Creates a `Set-Cookie` from its components.
+   *
+   * @param {string} name - The name of the cookie.
+   * @param {string} value - The value of the cookie.
+   * @param {MappedListInit<string>} [attributes] - The attributes (ex: `{ Path: '/', Secure: '' }`).
+   * @throws {TypeError} If one of the components is invalid.
+   */
+  constructor(name: string, value: string, attributes?: MappedListInit<string>) {
+    this.#name = validateCookieName(name);
+    this.#value = validateCookieValue(value);
+    this.#attributes = new SetCookieAttributes(attributes);
+  }
+
+  /**
+   * The name of the cookie.
+   */
+  get name(): string {
+    return this.#name;
+  }
+
+  set name(value: string) {
+    this.#name = validateCookieName(value);
+  }
+
+  /**
+   * The value of the cookie.
+   */
+  get value(): string {
+    return this.#value;
+  }
+
+  set value(value: string) {
+    this.#value = validateCookieValue(value);
+  }
+
+  /**
+   * The attributes of the cookie.
+   */
+  get attributes(): SetCookieAttributes {
+    return this.#attributes;
+  }
+
+  /**
+   * Serializes this `Set-Cookie` (ex: `id=a3fWa; Max-Age=2592000; Secure`).
+   */
+  toString(): string {
+    let output: string = `${this.#name}=${this.#value}`;
+
+    for (const [name, value] of this.#attributes) {
+      output += value === '' ? `; ${name}` : `; ${name}=${value}`;
+    }
+
+    return output;
+  }
+}
+
+/* HELPERS */
+
+/**
+ * Converts the value of a parsed attribute into its serialized form, as interpreted by user agents.
+ *
+ * @return {string | undefined} The value to store, or `undefined` if the attribute must be ignored.
+ */
+function parseSetCookieAttributeValue(name: string, value: string): string | undefined {
+  switch (name) {
+    case 'max-age':
+      if (!/^-?[0-9]+$/.test(value)) {
+        return undefined;
+      }
+      return value.startsWith('-') ? '0' : BigInt(value).toString();
+    case 'expires': {
+      const timestamp: number = Date.parse(value);
+      return Number.isNaN(timestamp) ? undefined : new Date(timestamp).toUTCString();
+    }
+    case 'domain':
+      return (value.startsWith('.') ? value.slice(1) : value).toLowerCase();
+    case 'path':
+      return value.startsWith('/') ? value : undefined;
+    case 'secure':
+    case 'httponly':
+    case 'partitioned':
+      return '';
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { mappedListFactory } from '../../../parameter-list-factory.js';
+import {
+  HTTP_REQUEST_HEADERS_GUARD,
+  HTTP_RESPONSE_HEADERS_GUARD,
+  isForbiddenHttpRequestHeader,
+} from './http-header-guards.js';
+import { normalizeHttpHeaderName, normalizeHttpHeaderValue } from './http-headers-list.js';
+
+const RequestHeaders = mappedListFactory<string>({
+  validateKey: normalizeHttpHeaderName,
+  validateValue: normalizeHttpHeaderValue,
+  guard: HTTP_REQUEST_HEADERS_GUARD,
+});
+
+const ResponseHeaders = mappedListFactory<string>({
+  validateKey: normalizeHttpHeaderName,
+  validateValue: normalizeHttpHeaderValue,
+  guard: HTTP_RESPONSE_HEADERS_GUARD,
+});
+
+describe('isForbiddenHttpRequestHeader', () => {
+  it('should forbid the listed names', () => {
+    expect(isForbiddenHttpRequestHeader('host', 'a.com')).toBe(true);
+    expect(isForbiddenHttpRequestHeader('set-cookie', 'a=b')).toBe(true);
+    expect(isForbiddenHttpRequestHeader('content-type', 'text/plain')).toBe(false);
+  });
+
+  it('should forbid the proxy- and sec- prefixes', () => {
+    expect(isForbiddenHttpRequestHeader('proxy-authorization', 'a')).toBe(true);
+    expect(isForbiddenHttpRequestHeader('sec-fetch-mode', 'cors')).toBe(true);
+    expect(isForbiddenHttpRequestHeader('secret', 'a')).toBe(false);
+  });
+
+  it('should forbid the method overrides listing a forbidden method', () => {
+    expect(isForbiddenHttpRequestHeader('x-http-method-override', 'GET, trace')).toBe(true);
+    expect(isForbiddenHttpRequestHeader('x-method-override', 'CONNECT')).toBe(true);
+    expect(isForbiddenHttpRequestHeader('x-http-method', 'PATCH')).toBe(false);
+  });
+});
+
+describe('HTTP_REQUEST_HEADERS_GUARD', () => {
+  it('should drop the forbidden request-headers', () => {
+    const headers = new RequestHeaders([
+      ['Host', 'a.com'],
+      ['Accept', '*/*'],
+      ['Sec-Fetch-Mode', 'cors'],
+    ]);
+
+    headers.append('Cookie', 'a=b');
+    headers.set('X-HTTP-Method-Override', 'TRACE');
+
+    expect(headers.toArray()).toEqual([['accept', '*/*']]);
+  });
+});
+
+describe('HTTP_RESPONSE_HEADERS_GUARD', () => {
+  it('should drop the forbidden response-headers', () => {
+    const headers = new ResponseHeaders([
+      ['Set-Cookie', 'a=b'],
+      ['Cookie', 'a=b'],
+    ]);
+
+    headers.append('Set-Cookie2', 'a=b');
+
+    expect(headers.toArray()).toEqual([['cookie', 'a=b']]);
+  });
+});
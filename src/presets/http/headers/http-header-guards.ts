@@ -0,0 +1,101 @@
+import { type MappedListGuard } from '../../../mapped-list-guard.js';
+
+/* NAMES */
+
+/**
+ * The forbidden request-header names of the Fetch spec (lowercased).
+ * The names starting with `proxy-` or `sec-` are forbidden too (see `isForbiddenHttpRequestHeader`).
+ *
+ * @see https://fetch.spec.whatwg.org/#forbidden-request-header
+ */
+export const FORBIDDEN_HTTP_REQUEST_HEADER_NAMES: ReadonlySet<string> = new Set([
+  'accept-charset',
+  'accept-encoding',
+  'access-control-request-headers',
+  'access-control-request-method',
+  'connection',
+  'content-length',
+  'cookie',
+  'cookie2',
+  'date',
+  'dnt',
+  'expect',
+  'host',
+  'keep-alive',
+  'origin',
+  'referer',
+  'set-cookie',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'via',
+]);
+
+/**
+ * The forbidden response-header names of the Fetch spec (lowercased).
+ *
+ * @see https://fetch.spec.whatwg.org/#forbidden-response-header-name
+ */
+export const FORBIDDEN_HTTP_RESPONSE_HEADER_NAMES: ReadonlySet<string> = new Set([
+  'set-cookie',
+  'set-cookie2',
+]);
+
+const METHOD_OVERRIDE_HEADER_NAMES: ReadonlySet<string> = new Set([
+  'x-http-method',
+  'x-http-method-override',
+  'x-method-override',
+]);
+
+const FORBIDDEN_METHODS: ReadonlySet<string> = new Set(['connect', 'trace', 'track']);
+
+/* PREDICATES */
+
+/**
+ * Returns `true` if the header `name`/`value` is a forbidden request-header, as defined by the Fetch spec:
+ * a forbidden name, a name starting with `proxy-` or `sec-`,
+ * or a method override header (ex: `x-http-method-override`) whose value lists a forbidden method (ex: `TRACE`).
+ *
+ * @see https://fetch.spec.whatwg.org/#forbidden-request-header
+ *
+ * @param {string} name - The lowercased header name.
+ * @param {string} value - The normalized header value.
+ * @return {boolean} `true` if the header is forbidden.
+ */
+export function isForbiddenHttpRequestHeader(name: string, value: string): boolean {
+  if (
+    FORBIDDEN_HTTP_REQUEST_HEADER_NAMES.has(name) ||
+    name.startsWith('proxy-') ||
+    name.startsWith('sec-')
+  ) {
+    return true;
+  }
+
+  return (
+    METHOD_OVERRIDE_HEADER_NAMES.has(name) &&
+    value
+      .split(',')
+      .some((method: string): boolean => FORBIDDEN_METHODS.has(method.trim().toLowerCase()))
+  );
+}
+
+/* GUARDS */
+
+/**
+ * Silently drops the forbidden request-headers, like a `Headers` object with the `request` guard.
+ * Meant to be used with `normalizeHttpHeaderName` as `validateKey`, so the names are lowercased.
+ */
+export const HTTP_REQUEST_HEADERS_GUARD: MappedListGuard<string> = {
+  forbiddenKeys: isForbiddenHttpRequestHeader,
+  onForbidden: 'drop',
+};
+
+/**
+ * Silently drops the forbidden response-headers, like a `Headers` object with the `response` guard.
+ * Meant to be used with `normalizeHttpHeaderName` as `validateKey`, so the names are lowercased.
+ */
+export const HTTP_RESPONSE_HEADERS_GUARD: MappedListGuard<string> = {
+  forbiddenKeys: FORBIDDEN_HTTP_RESPONSE_HEADER_NAMES,
+  onForbidden: 'drop',
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { HttpHeadersList } from './http-headers-list.js';
+
+describe('HttpHeadersList', () => {
+  describe('names', () => {
+    it('should be case-insensitive', () => {
+      const headers = new HttpHeadersList([['Content-Type', 'text/plain']]);
+
+      expect(headers.get('content-type')).toBe('text/plain');
+      expect(headers.get('CONTENT-TYPE')).toBe('text/plain');
+      expect(Array.from(headers.keys())).toEqual(['content-type']);
+    });
+
+    it('should accept every token character', () => {
+      expect(() => new HttpHeadersList([["!#$%&'*+-.^_`|~09AZaz", 'a']])).not.toThrow();
+    });
+
+    it('should reject invalid names', () => {
+      expect(() => new HttpHeadersList([['', 'a']])).toThrow(TypeError);
+      expect(() => new HttpHeadersList([['a b', 'a']])).toThrow(TypeError);
+      expect(() => new HttpHeadersList([['a:', 'a']])).toThrow(TypeError);
+      expect(() => new HttpHeadersList([['é', 'a']])).toThrow(TypeError);
+      expect(() => new HttpHeadersList().append('(a)', 'a')).toThrow(TypeError);
+    });
+  });
+
+  describe('values', () => {
+    it('should strip leading and trailing whitespace', () => {
+      const headers = new HttpHeadersList([['a', ' \t\r\n b  c \n\t']]);
+
+      expect(headers.get('a')).toBe('b  c');
+      expect(headers.has('a', '  b  c')).toBe(true);
+    });
+
+    it('should reject NUL, CR and LF', () => {
+      expect(() => new HttpHeadersList([['a', 'b\0c']])).toThrow(TypeError);
+      expect(() => new HttpHeadersList([['a', 'b\rc']])).toThrow(TypeError);
+      expect(() => new HttpHeadersList([['a', 'b\nc']])).toThrow(TypeError);
+    });
+
+    it('should reject the characters above U+00FF', () => {
+      expect(() => new HttpHeadersList([['a', 'caf\u0100']])).toThrow(TypeError);
+      expect(() => new HttpHeadersList([['a', '\uD83D\uDE00']])).toThrow(TypeError);
+      expect(new HttpHeadersList([['a', 'caf\u00e9']]).get('a')).toBe('caf\u00e9');
+    });
+  });
+
+  describe('.getCombined(...)', () => {
+    it('should combine the values', () => {
+      const headers = new HttpHeadersList([
+        ['Accept', 'text/html'],
+        ['accept', 'application/json'],
+      ]);
+
+      expect(headers.getCombined('accept')).toBe('text/html, application/json');
+    });
+
+    it('should return undefined if the header does not exist', () => {
+      expect(new HttpHeadersList().getCombined('accept')).toBe(undefined);
+    });
+  });
+
+  describe('.getSetCookie(...)', () => {
+    it('should keep the Set-Cookie values separated', () => {
+      const headers = new HttpHeadersList([
+        ['Set-Cookie', 'a=1; Path=/'],
+        ['Content-Type', 'text/plain'],
+        ['set-cookie', 'b=2, c=3'],
+      ]);
+
+      expect(headers.getSetCookie()).toEqual(['a=1; Path=/', 'b=2, c=3']);
+      expect(new HttpHeadersList().getSetCookie()).toEqual([]);
+    });
+  });
+
+  describe('.entries(...)', () => {
+    it('should keep the duplicated entries', () => {
+      const headers = new HttpHeadersList([
+        ['Accept', 'text/html'],
+        ['Accept', 'application/json'],
+      ]);
+
+      expect(Array.from(headers.entries())).toEqual([
+        ['accept', 'text/html'],
+        ['accept', 'application/json'],
+      ]);
+    });
+  });
+});
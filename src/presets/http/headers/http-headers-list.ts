@@ -0,0 +1,76 @@
+import { mappedListFactory } from '../../../parameter-list-factory.js';
+import { isHttpToken } from '../http-token.js';
+
+/* VALIDATORS */
+
+/**
+ * Validates and normalizes an HTTP header name: it must be a `token` (RFC 9110), and is lowercased.
+ *
+ * @param {string} name - The header name to validate.
+ * @return {string} The lowercased header name.
+ * @throws {TypeError} If `name` is not a valid header name.
+ */
+export function normalizeHttpHeaderName(name: string): string {
+  if (!isHttpToken(name)) {
+    throw new TypeError(`Invalid header name: ${JSON.stringify(name)}`);
+  }
+
+  return name.toLowerCase();
+}
+
+const HTTP_WHITESPACE_TRIM_REGEXP: RegExp = /^[\t\n\r ]+|[\t\n\r ]+$/g;
+
+const HTTP_HEADER_VALUE_FORBIDDEN_CHARS_REGEXP: RegExp = /[\0\n\r\u0100-\uffff]/;
+
+/**
+ * Validates and normalizes an HTTP header value, as the Fetch spec does:
+ * leading and trailing HTTP whitespace are removed, and the value must not contain NUL, CR or LF.
+ * Like the values of `Headers`, it must also be a ByteString: the characters above U+00FF are rejected.
+ *
+ * @see https://fetch.spec.whatwg.org/#concept-header-value-normalize
+ *
+ * @param {string} value - The header value to validate.
+ * @return {string} The normalized header value.
+ * @throws {TypeError} If `value` is not a valid header value.
+ */
+export function normalizeHttpHeaderValue(value: string): string {
+  value = value.replace(HTTP_WHITESPACE_TRIM_REGEXP, '');
+
+  if (HTTP_HEADER_VALUE_FORBIDDEN_CHARS_REGEXP.test(value)) {
+    throw new TypeError(`Invalid header value: ${JSON.stringify(value)}`);
+  }
+
+  return value;
+}
+
+/* CLASS */
+
+/**
+ * A list of HTTP headers, with case-insensitive names.
+ *
+ * Unlike `Headers`, duplicated headers are kept as distinct entries and visible through `.entries()`.
+ */
+export class HttpHeadersList extends mappedListFactory<string>({
+  validateKey: normalizeHttpHeaderName,
+  validateValue: normalizeHttpHeaderValue,
+}) {
+  /**
+   * Returns all the values associated with the header `name`, combined with `", "`.
+   *
+   * @param {string} name - The name of the header.
+   * @return {string | undefined} The combined value if the header exists, otherwise `undefined`.
+   */
+  getCombined(name: string): string | undefined {
+    const values: string[] = this.getAll(name);
+    return values.length === 0 ? undefined : values.join(', ');
+  }
+
+  /**
+   * Returns the values of the `Set-Cookie` headers, kept separated.
+   *
+   * @return {string[]} The list of `Set-Cookie` values.
+   */
+  getSetCookie(): string[] {
+    return this.getAll('set-cookie');
+  }
+}
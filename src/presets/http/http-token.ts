@@ -0,0 +1,15 @@
+/* TOKEN */
+
+const HTTP_TOKEN_REGEXP: RegExp = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+
+/**
+ * Returns `true` if `input` matches the `token` grammar of RFC 9110.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9110#name-tokens
+ *
+ * @param {string} input - The string to test.
+ * @return {boolean} `true` if `input` is a non-empty sequence of `tchar`.
+ */
+export function isHttpToken(input: string): boolean {
+  return HTTP_TOKEN_REGEXP.test(input);
+}
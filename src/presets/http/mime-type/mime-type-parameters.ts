@@ -0,0 +1,59 @@
+import { mappedListFactory } from '../../../parameter-list-factory.js';
+import { isHttpToken } from '../http-token.js';
+
+/* VALIDATORS */
+
+/**
+ * Validates and normalizes a MIME type token (type, subtype or parameter name):
+ * it must be a `token` (RFC 9110), and is lowercased.
+ *
+ * @param {string} token - The token to validate.
+ * @return {string} The lowercased token.
+ * @throws {TypeError} If `token` is not a valid MIME type token.
+ */
+export function validateMimeTypeToken(token: string): string {
+  if (!isHttpToken(token)) {
+    throw new TypeError(`Invalid MIME type token: ${JSON.stringify(token)}`);
+  }
+
+  return token.toLowerCase();
+}
+
+const HTTP_QUOTED_STRING_TOKEN_REGEXP: RegExp = /^[\t -~\u0080-\u00FF]*$/;
+
+/**
+ * Returns `true` if `input` only contains HTTP quoted-string token code points.
+ *
+ * @see https://mimesniff.spec.whatwg.org/#http-quoted-string-token-code-point
+ *
+ * @param {string} input - The string to test.
+ * @return {boolean} `true` if `input` may be used as a MIME type parameter value.
+ */
+export function isHttpQuotedStringTokenCodePoints(input: string): boolean {
+  return HTTP_QUOTED_STRING_TOKEN_REGEXP.test(input);
+}
+
+/**
+ * Validates a MIME type parameter value: it must only contain HTTP quoted-string token code points.
+ *
+ * @param {string} value - The value to validate.
+ * @return {string} The value.
+ * @throws {TypeError} If `value` is not a valid MIME type parameter value.
+ */
+export function validateMimeTypeParameterValue(value: string): string {
+  if (!isHttpQuotedStringTokenCodePoints(value)) {
+    throw new TypeError(`Invalid MIME type parameter value: ${JSON.stringify(value)}`);
+  }
+
+  return value;
+}
+
+/* CLASS */
+
+/**
+ * The list of parameters of a MIME type, with case-insensitive names.
+ */
+export class MimeTypeParameters extends mappedListFactory<string>({
+  validateKey: validateMimeTypeToken,
+  validateValue: validateMimeTypeParameterValue,
+}) {}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { MimeType } from './mime-type.js';
+
+describe('MimeType', () => {
+  describe('.parse(...)', () => {
+    it.each([
+      ['text/html;charset=gbk', 'text/html;charset=gbk'],
+      ['TEXT/HTML;CHARSET=GBK', 'text/html;charset=GBK'],
+      ['\n\r\t text/html \t', 'text/html'],
+      ['text/html ; charset=gbk', 'text/html;charset=gbk'],
+      ['text/html;charset="gbk"', 'text/html;charset=gbk'],
+      ['text/html;charset=gbk;charset=windows-1255', 'text/html;charset=gbk'],
+      ['text/html;charset=";charset=foo";charset=GBK', 'text/html;charset=";charset=foo"'],
+      ['text/html;charset="\\""', 'text/html;charset="\\""'],
+      ['text/html;charset="gbk', 'text/html;charset=gbk'],
+      ['text/html;charset="gbk"x;a=b', 'text/html;charset=gbk;a=b'],
+      ['text/html;charset="\\', 'text/html;charset="\\\\"'],
+      ['text/html;charset="g\\bk"', 'text/html;charset=gbk'],
+      ['text/html;charset=;charset=foo', 'text/html;charset=foo'],
+      ['text/html;charset=""', 'text/html;charset=""'],
+      ['text/html;charset= gbk', 'text/html;charset=" gbk"'],
+      ['text/html;charset=gbk \t', 'text/html;charset=gbk'],
+      ['text/html;charset ="gbk"', 'text/html'],
+      ['text/html;;;;charset=gbk', 'text/html;charset=gbk'],
+      ['text/html;charset', 'text/html'],
+      ['text/html;charset=', 'text/html'],
+      ['text/html;=gbk', 'text/html'],
+      ['text/html;a=ÿ', 'text/html;a="ÿ"'],
+      ['text/html;a=Ā;b=c', 'text/html;b=c'],
+      ['multipart/form-data; boundary=x', 'multipart/form-data;boundary=x'],
+    ])('should parse %j', (input: string, expected: string) => {
+      expect(MimeType.parse(input).toString()).toBe(expected);
+    });
+
+    it.each(['', 'text', 'text/', '/html', 'te xt/html', 'text/ht ml', 'text/html\0', 'é/html'])(
+      'should reject %j',
+      (input: string) => {
+        expect(() => MimeType.parse(input)).toThrow(TypeError);
+        expect(MimeType.parseOptional(input)).toBe(undefined);
+      },
+    );
+
+    it('should expose the components', () => {
+      const mimeType = MimeType.parse('Text/HTML; Charset="utf-8"; boundary=x');
+
+      expect(mimeType.type).toBe('text');
+      expect(mimeType.subtype).toBe('html');
+      expect(mimeType.essence).toBe('text/html');
+      expect(Array.from(mimeType.parameters)).toEqual([
+        ['charset', 'utf-8'],
+        ['boundary', 'x'],
+      ]);
+    });
+  });
+
+  describe('new(...)', () => {
+    it('should create and serialize a MIME type', () => {
+      const mimeType = new MimeType('Text', 'Plain', { Charset: 'utf-8', boundary: 'a "b"' });
+
+      expect(mimeType.parameters.get('charset')).toBe('utf-8');
+      expect(mimeType.toString()).toBe('text/plain;charset=utf-8;boundary="a \\"b\\""');
+    });
+
+    it('should reject invalid tokens', () => {
+      expect(() => new MimeType('te xt', 'plain')).toThrow(TypeError);
+      expect(() => new MimeType('text', '')).toThrow(TypeError);
+      expect(() => new MimeType('text', 'plain', { 'a=': 'b' })).toThrow(TypeError);
+      expect(() => new MimeType('text', 'plain', { a: 'Ā' })).toThrow(TypeError);
+    });
+  });
+
+  describe('accessors', () => {
+    it('should update and validate the type and subtype', () => {
+      const mimeType = new MimeType('text', 'plain');
+
+      mimeType.type = 'APPLICATION';
+      mimeType.subtype = 'JSON';
+      expect(mimeType.toString()).toBe('application/json');
+
+      expect(() => (mimeType.type = 'a/b')).toThrow(TypeError);
+      expect(() => (mimeType.subtype = '')).toThrow(TypeError);
+      expect(mimeType.essence).toBe('application/json');
+    });
+
+    it('should update the parameters', () => {
+      const mimeType = MimeType.parse('text/plain');
+
+      mimeType.parameters.set('Charset', 'utf-8');
+      expect(mimeType.toString()).toBe('text/plain;charset=utf-8');
+      expect(() => mimeType.parameters.append('a b', 'c')).toThrow(TypeError);
+    });
+  });
+});
@@ -0,0 +1,250 @@
+import { type MappedListInit } from '../../../mapped-list-constructor.js';
+import { isHttpToken } from '../http-token.js';
+import {
+  isHttpQuotedStringTokenCodePoints,
+  MimeTypeParameters,
+  validateMimeTypeToken,
+} from './mime-type-parameters.js';
+
+/* CLASS */
+
+/**
+ * Represents a MIME type (ex: `text/html; charset=utf-8`), as defined by the WHATWG MIME Sniffing standard.
+ *
+ * @see https://mimesniff.spec.whatwg.org/#understanding-mime-types
+ */
+export class MimeType {
+  /**
+   * Parses a MIME type.
+   *
+   * @param {string} input - The string to parse.
+   * @return {MimeType} The parsed MIME type.
+   * @throws {TypeError} If `input` is not a valid MIME type.
+   */
+  static parse(input: string): MimeType {
+    const mimeType: MimeType | undefined = this.parseOptional(input);
+
+    if (mimeType === undefined) {
+      throw new TypeError(`Invalid MIME type: ${JSON.stringify(input)}`);
+    } else {
+      return mimeType;
+    }
+  }
+
+  /**
+   * Parses a MIME type, following the _parse a MIME type_ algorithm.
+   *
+   * @see https://mimesniff.spec.whatwg.org/#parse-a-mime-type
+   *
+   * @param {string} input - The string to parse.
+   * @return {MimeType | undefined} The parsed MIME type if `input` is valid, otherwise undefined.
+   */
+  static parseOptional(input: string): MimeType | undefined {
+    input = trimHttpWhitespace(input);
+
+    let position: number = input.indexOf('/');
+
+    if (position === -1) {
+      return undefined;
+    }
+
+    const type: string = input.slice(0, position);
+
+    position++;
+
+    let end: number = input.indexOf(';', position);
+    if (end === -1) {
+      end = input.length;
+    }
+
+    const subtype: string = trimTrailingHttpWhitespace(input.slice(position, end));
+
+    if (!isHttpToken(type) || !isHttpToken(subtype)) {
+      return undefined;
+    }
+
+    const mimeType: MimeType = new MimeType(type, subtype);
+
+    position = end;
+
+    while (position < input.length) {
+      // skips the `;` and the following whitespaces
+      position++;
+      while (position < input.length && isHttpWhitespace(input[position])) {
+        position++;
+      }
+
+      const nameStart: number = position;
+      while (position < input.length && input[position] !== ';' && input[position] !== '=') {
+        position++;
+      }
+      const name: string = input.slice(nameStart, position).toLowerCase();
+
+      if (position < input.length) {
+        if (input[position] === ';') {
+          continue;
+        }
+
+        // skips the `=`
+        position++;
+      }
+
+      if (position >= input.length) {
+        break;
+      }
+
+      let value: string;
+
+      if (input[position] === '"') {
+        [value, position] = collectHttpQuotedString(input, position);
+
+        while (position < input.length && input[position] !== ';') {
+          position++;
+        }
+      } else {
+        const valueStart: number = position;
+        while (position < input.length && input[position] !== ';') {
+          position++;
+        }
+        value = trimTrailingHttpWhitespace(input.slice(valueStart, position));
+
+        if (value === '') {
+          continue;
+        }
+      }
+
+      if (
+        isHttpToken(name) &&
+        isHttpQuotedStringTokenCodePoints(value) &&
+        !mimeType.parameters.has(name)
+      ) {
+        mimeType.parameters.append(name, value);
+      }
+    }
+
+    return mimeType;
+  }
+
+  #type: string;
+  #subtype: string;
+  readonly #parameters: MimeTypeParameters;
+
+  /**
+   * Creates a MIME type from its components.
+   *
+   * @param {string} type - The type (ex: `text`).
+   * @param {string} subtype - The subtype (ex: `html`).
+   * @param {MappedListInit<string>} [parameters] - The parameters (ex: `{ charset: 'utf-8' }`).
+   * @throws {TypeError} If one of the components is invalid.
+   */
+  constructor(type: string, subtype: string, parameters?: MappedListInit<string>) {
+    this.#type = validateMimeTypeToken(type);
+    this.#subtype = validateMimeTypeToken(subtype);
+    this.#parameters = new MimeTypeParameters(parameters);
+  }
+
+  /**
+   * The type of this MIME type (ex: `text`), lowercased.
+   */
+  get type(): string {
+    return this.#type;
+  }
+
+  set type(value: string) {
+    this.#type = validateMimeTypeToken(value);
+  }
+
+  /**
+   * The subtype of this MIME type (ex: `html`), lowercased.
+   */
+  get subtype(): string {
+    return this.#subtype;
+  }
+
+  set subtype(value: string) {
+    this.#subtype = validateMimeTypeToken(value);
+  }
+
+  /**
+   * The essence of this MIME type: its type and subtype, without the parameters (ex: `text/html`).
+   */
+  get essence(): string {
+    return `${this.#type}/${this.#subtype}`;
+  }
+
+  /**
+   * The parameters of this MIME type.
+   */
+  get parameters(): MimeTypeParameters {
+    return this.#parameters;
+  }
+
+  /**
+   * Serializes this MIME type, following the _serialize a MIME type_ algorithm:
+   * parameter values that are empty or not tokens are quoted.
+   *
+   * @see https://mimesniff.spec.whatwg.org/#serialize-a-mime-type
+   */
+  toString(): string {
+    let output: string = this.essence;
+
+    for (const [name, value] of this.#parameters) {
+      output += `;${name}=${serializeMimeTypeParameterValue(value)}`;
+    }
+
+    return output;
+  }
+}
+
+/* HELPERS */
+
+function isHttpWhitespace(char: string): boolean {
+  return char === ' ' || char === '\t' || char === '\n' || char === '\r';
+}
+
+function trimHttpWhitespace(input: string): string {
+  return input.replace(/^[\t\n\r ]+|[\t\n\r ]+$/g, '');
+}
+
+function trimTrailingHttpWhitespace(input: string): string {
+  return input.replace(/[\t\n\r ]+$/, '');
+}
+
+/**
+ * Collects an HTTP quoted string starting at `position` (which must be a `"`), extracting its value.
+ *
+ * @see https://fetch.spec.whatwg.org/#collect-an-http-quoted-string
+ *
+ * @return {[value: string, position: number]} The unescaped value, and the position following the string.
+ */
+function collectHttpQuotedString(input: string, position: number): [string, number] {
+  let value: string = '';
+
+  // skips the opening `"`
+  position++;
+
+  while (position < input.length) {
+    const char: string = input[position];
+    position++;
+
+    if (char === '"') {
+      break;
+    } else if (char === '\\') {
+      if (position >= input.length) {
+        value += '\\';
+        break;
+      }
+
+      value += input[position];
+      position++;
+    } else {
+      value += char;
+    }
+  }
+
+  return [value, position];
+}
+
+function serializeMimeTypeParameterValue(value: string): string {
+  return value !== '' && isHttpToken(value) ? value : `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
@@ -0,0 +1,124 @@
+import { type MappedListTuple } from '../../mapped-list.js';
+
+/* PARSE */
+
+const UTF8_ENCODER: TextEncoder = new TextEncoder();
+const UTF8_DECODER: TextDecoder = new TextDecoder('utf-8', { ignoreBOM: true });
+
+/**
+ * Parses an `application/x-www-form-urlencoded` string into a list of key/value pairs.
+ *
+ * @see https://url.spec.whatwg.org/#concept-urlencoded-parser
+ *
+ * @param {string} input - The string to parse (without leading `?`).
+ * @return {MappedListTuple<string>[]} The list of key/value pairs, in order of appearance.
+ */
+export function parseFormUrlencoded(input: string): MappedListTuple<string>[] {
+  const output: MappedListTuple<string>[] = [];
+
+  for (const sequence of input.split('&')) {
+    if (sequence === '') {
+      continue;
+    }
+
+    const index: number = sequence.indexOf('=');
+
+    const [key, value]: [string, string] =
+      index === -1 ? [sequence, ''] : [sequence.slice(0, index), sequence.slice(index + 1)];
+
+    output.push([decodeFormUrlencodedComponent(key), decodeFormUrlencodedComponent(value)]);
+  }
+
+  return output;
+}
+
+/**
+ * Decodes a name or a value of an `application/x-www-form-urlencoded` string:
+ * `+` are replaced by spaces, then the string is percent-decoded and UTF-8 decoded (without BOM).
+ *
+ * @param {string} input - The string to decode.
+ * @return {string} The decoded string.
+ */
+export function decodeFormUrlencodedComponent(input: string): string {
+  input = input.replaceAll('+', ' ');
+
+  if (!input.includes('%')) {
+    return input.toWellFormed();
+  }
+
+  const bytes: Uint8Array = UTF8_ENCODER.encode(input);
+  const decoded: Uint8Array = new Uint8Array(bytes.length);
+  let length: number = 0;
+
+  for (let i: number = 0; i < bytes.length; i++) {
+    const byte: number = bytes[i];
+
+    if (byte === 0x25 /* % */ && i + 2 < bytes.length) {
+      const high: number = hexDigitToNumber(bytes[i + 1]);
+      const low: number = hexDigitToNumber(bytes[i + 2]);
+
+      if (high !== -1 && low !== -1) {
+        decoded[length++] = (high << 4) | low;
+        i += 2;
+        continue;
+      }
+    }
+
+    decoded[length++] = byte;
+  }
+
+  return UTF8_DECODER.decode(decoded.subarray(0, length));
+}
+
+function hexDigitToNumber(byte: number): number {
+  if (byte >= 0x30 /* 0 */ && byte <= 0x39 /* 9 */) {
+    return byte - 0x30;
+  } else if (byte >= 0x41 /* A */ && byte <= 0x46 /* F */) {
+    return byte - 0x37;
+  } else if (byte >= 0x61 /* a */ && byte <= 0x66 /* f */) {
+    return byte - 0x57;
+  } else {
+    return -1;
+  }
+}
+
+/* SERIALIZE */
+
+/**
+ * Serializes a list of key/value pairs into an `application/x-www-form-urlencoded` string.
+ *
+ * @see https://url.spec.whatwg.org/#concept-urlencoded-serializer
+ *
+ * @param {Iterable<MappedListTuple<string>>} entries - The key/value pairs to serialize.
+ * @return {string} The serialized string (without leading `?`).
+ */
+export function serializeFormUrlencoded(entries: Iterable<MappedListTuple<string>>): string {
+  let output: string = '';
+
+  for (const [key, value] of entries) {
+    if (output !== '') {
+      output += '&';
+    }
+
+    output += `${encodeFormUrlencodedComponent(key)}=${encodeFormUrlencodedComponent(value)}`;
+  }
+
+  return output;
+}
+
+/**
+ * Encodes a name or a value using the `application/x-www-form-urlencoded` percent-encode set:
+ * lone surrogates are replaced by U+FFFD, spaces are replaced by `+`,
+ * and every code point except ASCII alphanumerics, `*`, `-`, `.` and `_` is percent-encoded.
+ *
+ * @param {string} input - The string to encode.
+ * @return {string} The encoded string.
+ */
+export function encodeFormUrlencodedComponent(input: string): string {
+  return encodeURIComponent(input.toWellFormed()).replace(
+    /%20|[!'()~]/g,
+    (match: string): string => {
+      return match === '%20' ? '+' : `%${match.charCodeAt(0).toString(16).toUpperCase()}`;
+    },
+  );
+}
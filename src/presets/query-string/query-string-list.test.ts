@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { type MappedListTuple } from '../../mapped-list.js';
+import { QueryStringList } from './query-string-list.js';
+
+const QUERY_STRINGS: readonly string[] = [
+  '',
+  '?',
+  '??a=b',
+  'a=b',
+  '?a=b&c=d',
+  'a=b&a=c&a=',
+  '&&a&&=b&',
+  '=',
+  '=b',
+  'a=b=c',
+  'a+b=c+d',
+  'a%20b=c%2Bd',
+  '%zz=%4',
+  '%=%%25',
+  'a=%C3%A9%C3',
+  'a=%c3%a9',
+  'a=%F0%9F%98%80',
+  '%EF%BB%BFa=b',
+  'é=ü&😀=😀',
+  'a=\uD800&\uDC00=b',
+  'q=!\'()*-._~`"<>{}|^[]:/?#@$,;',
+];
+
+const ENTRIES: readonly (readonly MappedListTuple<string>[])[] = [
+  [],
+  [['a', 'b']],
+  [
+    ['a', 'b c'],
+    ['a', 'd+e'],
+  ],
+  [['&=?#', '%25']],
+  [['é', '😀']],
+  [['\uD800', 'a\uDC00b']],
+  [[' !"#$%&\'()*+,-./:;<=>?@[\\]^_`{|}~', '\u007F\u0080ÿĀ￿']],
+];
+
+function toEntries(iterable: Iterable<readonly [string, string]>): [string, string][] {
+  return Array.from(iterable, ([key, value]: readonly [string, string]): [string, string] => [
+    key,
+    value,
+  ]);
+}
+
+describe('QueryStringList', () => {
+  describe('matches URLSearchParams', () => {
+    it.each(QUERY_STRINGS)('when parsing %j', (input: string) => {
+      const expected = new URLSearchParams(input);
+      const actual = new QueryStringList(input);
+
+      expect(toEntries(actual)).toEqual(toEntries(expected));
+      expect(actual.toString()).toBe(expected.toString());
+    });
+
+    it.each(ENTRIES)('when serializing %j', (...entries: MappedListTuple<string>[]) => {
+      const expected = new URLSearchParams(entries as [string, string][]);
+      const actual = new QueryStringList(entries);
+
+      expect(toEntries(actual)).toEqual(toEntries(expected));
+      expect(actual.toString()).toBe(expected.toString());
+    });
+
+    it('when serializing every BMP code point', () => {
+      let input: string = '';
+      for (let i: number = 0; i <= 0xffff; i++) {
+        input += String.fromCharCode(i);
+      }
+
+      const expected = new URLSearchParams([[input, input]]);
+      const actual = new QueryStringList([[input, input]]);
+
+      expect(actual.toString()).toBe(expected.toString());
+    });
+
+    it('when round-tripping through the serialization', () => {
+      for (const input of QUERY_STRINGS) {
+        const serialized: string = new QueryStringList(input).toString();
+
+        expect(new QueryStringList(serialized).toString()).toBe(
+          new URLSearchParams(serialized).toString(),
+        );
+      }
+    });
+
+    it('when built from a key/value object', () => {
+      const init = { 'a b': 'c&d', e: '' };
+
+      expect(new QueryStringList(init).toString()).toBe(new URLSearchParams(init).toString());
+    });
+
+    it('when mutated', () => {
+      const expected = new URLSearchParams('b=1&a=2&b=3');
+      const actual = new QueryStringList('b=1&a=2&b=3');
+
+      expected.append('c', '\uD83D');
+      actual.append('c', '\uD83D');
+      expect(actual.toString()).toBe(expected.toString());
+
+      expected.set('b', 'x y');
+      actual.set('b', 'x y');
+      expect(actual.toString()).toBe(expected.toString());
+
+      expected.sort();
+      actual.sort();
+      expect(actual.toString()).toBe(expected.toString());
+
+      expected.delete('a');
+      actual.delete('a');
+      expect(actual.toString()).toBe(expected.toString());
+    });
+  });
+
+  it('works with no input', () => {
+    expect(new QueryStringList().size).toBe(0);
+    expect(new QueryStringList().toString()).toBe('');
+  });
+});
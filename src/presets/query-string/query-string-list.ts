@@ -0,0 +1,47 @@
+import { type MappedListInit } from '../../mapped-list-constructor.js';
+import { type MappedListSetOptions } from '../../mapped-list.js';
+import { mappedListFactory } from '../../parameter-list-factory.js';
+import { parseFormUrlencoded, serializeFormUrlencoded } from './form-urlencoded.js';
+
+/* CLASS */
+
+/**
+ * Converts a string into a USVString: lone surrogates are replaced by U+FFFD.
+ */
+function toUSVString(input: string): string {
+  return input.toWellFormed();
+}
+
+/**
+ * A list of query string parameters, behaving like `URLSearchParams`.
+ *
+ * It may be built from a query string (with or without a leading `?`), and `.toString()`
+ * serializes it as an `application/x-www-form-urlencoded` string.
+ */
+export class QueryStringList extends mappedListFactory<string>({
+  validateKey: toUSVString,
+  validateValue: toUSVString,
+}) {
+  constructor(init?: string | MappedListInit<string>) {
+    super(
+      typeof init === 'string'
+        ? parseFormUrlencoded(init.startsWith('?') ? init.slice(1) : init)
+        : init,
+    );
+  }
+
+  /**
+   * Like `URLSearchParams.set`, the new entry takes the position of the first entry of `key`,
+   * unless `keepPosition` is `false`.
+   */
+  override set(key: string, value: string, options?: MappedListSetOptions): this {
+    return super.set(key, value, { keepPosition: true, ...options });
+  }
+
+  /**
+   * Returns the `application/x-www-form-urlencoded` serialization of this list (without leading `?`).
+   */
+  override toString(): string {
+    return serializeFormUrlencoded(this);
+  }
+}
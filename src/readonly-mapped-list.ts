@@ -0,0 +1,117 @@
+import { type MappedListTuple } from './mapped-list.js';
+
+/* CLASS */
+
+/**
+ * Represents the read-only side of a mapped list of key/value pairs.
+ * This interface provides operations to retrieve, and iterate over the entries in the list.
+ *
+ * @template GValue The type of the values stored in the mapped list.
+ */
+export interface ReadonlyMappedList<GValue> extends Iterable<MappedListTuple<GValue>> {
+  /**
+   * Returns the number of entries present in this list.
+   *
+   * @returns {number} The number of entries.
+   */
+  readonly size: number;
+
+  /**
+   * Returns the first value associated with the specified key.
+   *
+   * @param {string} key - The key identifying the entry to retrieve.
+   * @return {GValue} The value associated with the given key.
+   */
+  get(key: string): GValue;
+
+  /**
+   * Retrieves all values associated with the specified key.
+   *
+   * @param {string} key - The key identifying the entries to retrieve.
+   * @return {GValue[]} An array of values associated with the given key.
+   */
+  getAll(key: string): GValue[];
+
+  /**
+   * Retrieves the first and optional value associated with the given key.
+   *
+   * @param {string} key - The key identifying the entry to retrieve.
+   * @return {GValue | undefined} The value associated with the given key if any, otherwise undefined.
+   */
+  getOptional(key: string): GValue | undefined;
+
+  /**
+   * Checks if a specified key exists in the list and optionally verifies if it is associated with a given value.
+   *
+   * @param {string} key - The key to check for existence in the list.
+   * @param {GValue} [value] - Optional. The value to match against the key in the list.
+   * @return {boolean} Returns true if the key exists and matches the value (if provided), otherwise false.
+   */
+  has(key: string, value?: GValue): boolean;
+
+  /**
+   * Checks if an entry matching both the specified key and value exists in the list.
+   * Unlike `.has(key, value)`, an `undefined` value is compared like any other value.
+   *
+   * @param {string} key - The key to check for existence in the list.
+   * @param {GValue} value - The value to match against the key in the list.
+   * @return {boolean} Returns true if such an entry exists, otherwise false.
+   */
+  hasEntry(key: string, value: GValue): boolean;
+
+  /**
+   * Returns the entry at the specified position.
+   * Negative indices count back from the end of the list (ex: `-1` is the last entry).
+   *
+   * @param {number} index - The position of the entry.
+   * @return {MappedListTuple<GValue> | undefined} The entry at this position if any, otherwise undefined.
+   */
+  at(index: number): MappedListTuple<GValue> | undefined;
+
+  /**
+   * Returns the position of the first entry with the specified key, and optionally the specified value.
+   *
+   * @param {string} key - The key of the entry to find.
+   * @param {GValue} [value] - Optional. The value to match against the key in the list.
+   * @return {number} The position of the entry if any, otherwise -1.
+   */
+  indexOf(key: string, value?: GValue): number;
+
+  /**
+   * Returns a `Generator` allowing iteration through all the keys contained in this list.
+   *
+   * @returns {Generator<string>}
+   */
+  keys(): Generator<string>;
+
+  /**
+   * Returns a `Generator` allowing iteration through all the values contained in this list.
+   *
+   * @returns {Generator<GValue>}
+   */
+  values(): Generator<GValue>;
+
+  /**
+   * Returns an `Generator` allowing iteration through all the key/value pairs contained in this list.
+   * The iterator returns key/value pairs in the same order as they appear in the list.
+   *
+   * @returns {Generator<[key: string, value: string]>}
+   */
+  entries(): Generator<MappedListTuple<GValue>>;
+
+  /**
+   * Alias of `.entries()`.
+   *
+   * @see ReadonlyMappedList.entries
+   */
+  [Symbol.iterator](): IterableIterator<MappedListTuple<GValue>>;
+
+  /**
+   * Executes a provided callback function once for each entry in the list, in insertion order.
+   *
+   * @param {function} callback - A function that is called for each entry in the list. It receives two arguments:
+   * the entry's value and key. The value is provided as the first parameter, and the key as the second.
+   * @return {void} Does not return a value.
+   */
+  forEach(callback: (value: GValue, key: string) => void): void;
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { type ExpiringMappedList } from './expiring-mapped-list.js';
+import { schemaMappedListFactory } from './schema-mapped-list-factory.js';
+
+function validatePort(value: number): number {
+  if (!Number.isInteger(value) || value < 0 || value > 65535) {
+    throw new RangeError('Invalid port');
+  }
+  return value;
+}
+
+function validateHost(value: string): string {
+  return value.toLowerCase();
+}
+
+describe('schemaMappedListFactory', () => {
+  describe('known keys', () => {
+    const ConfigList = schemaMappedListFactory({
+      validateKey: (key: string): string => key.toLowerCase(),
+      schema: {
+        host: validateHost,
+        port: validatePort,
+      },
+    });
+
+    it('should validate the values per key', () => {
+      const instance = new ConfigList([
+        ['HOST', 'Example.COM'],
+        ['port', 80],
+      ]);
+
+      expect(instance.get('host')).toBe('example.com');
+      expect(instance.getAll('port')).toEqual([80]);
+      expect(instance.getOptional('port')).toBe(80);
+      expect(() => instance.set('port', 70000)).toThrow('Invalid port');
+      expect(() => instance.append('port', 1.5)).toThrow('Invalid port');
+      expect(() => instance.insertAt(0, 'port', -1)).toThrow('Invalid port');
+      expect(() => instance.splice(0, 0, ['port', -1])).toThrow('Invalid port');
+    });
+
+    it('should type the values per key', () => {
+      const instance = new ConfigList();
+
+      const port: number | undefined = instance.set('port', 8080).getOptional('port');
+      const host: string[] = instance.append('host', 'localhost').getAll('host');
+      expect(port).toBe(8080);
+      expect(host).toEqual(['localhost']);
+
+      // @ts-expect-error - `port` expects a number
+      expect(() => instance.set('port', '8080')).toThrow();
+      // @ts-expect-error - `host` is a string
+      const invalid: number = instance.get('host');
+      expect(invalid).toBe('localhost');
+    });
+
+    it('should reject the unknown keys by default', () => {
+      expect(() => new ConfigList({ user: 'root' } as any)).toThrow('Unknown key: user');
+
+      const instance = new ConfigList();
+
+      // @ts-expect-error - `user` is not a key of the schema
+      expect(() => instance.append('user', 'root')).toThrow('Unknown key: user');
+      expect(() => instance.has('user')).toThrow('Unknown key: user');
+      expect(() => instance.set('constructor' as 'host', 'a')).toThrow('Unknown key: constructor');
+    });
+  });
+
+  describe('unknown keys', () => {
+    it('should allow the unknown keys', () => {
+      const instance = new (schemaMappedListFactory({
+        schema: {
+          port: validatePort,
+        },
+        unknownKeys: 'allow',
+        validateUnknownValue: (value: string): string => value.trim(),
+      }))();
+
+      instance.append('user', ' root ').append('port', 22);
+
+      const user: string = instance.get('user');
+      expect(user).toBe('root');
+      expect(instance.get('port')).toBe(22);
+      expect(() => instance.set('port', -1)).toThrow('Invalid port');
+    });
+
+    it('should accept any value for the allowed unknown keys by default', () => {
+      const instance = new (schemaMappedListFactory<{ port: number }, unknown>({
+        schema: {
+          port: validatePort,
+        },
+        unknownKeys: 'allow',
+      }))();
+
+      const value = { id: 1 };
+      expect(instance.append('a', value).get('a')).toBe(value);
+    });
+
+    it('should strip the unknown keys', () => {
+      const instance = new (schemaMappedListFactory({
+        validateKey: (key: string): string => key.toLowerCase(),
+        schema: {
+          port: validatePort,
+        },
+        unknownKeys: 'strip',
+      }))({ PORT: 22, user: 'root' } as any);
+
+      expect(Array.from(instance)).toEqual([['port', 22]]);
+
+      instance.append('user' as 'port', 1);
+      instance.set('user' as 'port', 1);
+      instance.insertAt(0, 'user' as 'port', 1);
+      instance.replaceAt(0, 'user' as 'port', 1);
+      expect(Array.from(instance)).toEqual([['port', 22]]);
+
+      expect(instance.splice(0, 1, ['user' as 'port', 1], ['Port', 23])).toEqual([['port', 22]]);
+      expect(Array.from(instance)).toEqual([['port', 23]]);
+      expect(instance.has('user')).toBe(false);
+
+      instance.merge({ user: 'root', port: 24 } as any, { strategy: 'replace' });
+      expect(Array.from(instance)).toEqual([['port', 24]]);
+
+      instance.appendAll({ user: 'root', port: 25 } as any);
+      expect(Array.from(instance)).toEqual([
+        ['port', 24],
+        ['port', 25],
+      ]);
+      instance.setAll({ user: 'root', port: 26 } as any);
+      expect(Array.from(instance)).toEqual([['port', 26]]);
+
+      instance.makeImmutable();
+      expect(() => instance.append('user' as 'port', 1)).toThrow();
+      expect(() => instance.set('user' as 'port', 1)).toThrow();
+      expect(() => instance.insertAt(0, 'user' as 'port', 1)).toThrow();
+      expect(() => instance.replaceAt(0, 'user' as 'port', 1)).toThrow();
+    });
+  });
+
+  describe('expiry', () => {
+    it('should forward the expiry of the appended entries', () => {
+      let now: number = 1000;
+      const ConfigList = schemaMappedListFactory({
+        clock: (): number => now,
+        unknownKeys: 'strip',
+        schema: {
+          port: validatePort,
+        },
+      });
+      const instance = new ConfigList() as unknown as ExpiringMappedList<number>;
+
+      instance.append('port', 80, { ttl: 100 }).append('port', 443).append('user', 1, { ttl: 100 });
+      expect(Array.from(instance)).toEqual([
+        ['port', 80],
+        ['port', 443],
+      ]);
+
+      now = 1100;
+      expect(Array.from(instance)).toEqual([['port', 443]]);
+    });
+  });
+});
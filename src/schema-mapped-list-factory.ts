@@ -0,0 +1,190 @@
+import {
+  type ExpiringMappedListConstructor,
+  type MappedListExpiry,
+} from './expiring-mapped-list.js';
+import { type MappedListInit } from './mapped-list-constructor.js';
+import {
+  type MappedListMergeOptions,
+  type MappedListSetOptions,
+  type MappedListTuple,
+} from './mapped-list.js';
+import {
+  mappedListFactory,
+  type MappedListFactoryOptions,
+  type MappedListValidateValue,
+} from './parameter-list-factory.js';
+import {
+  type SchemaMappedListConstructor,
+  type SchemaMappedListUnknownKeys,
+  type SchemaMappedListValue,
+} from './schema-mapped-list.js';
+import { mappedListInitEntries, passthrough } from './shared.private.js';
+
+/* TYPES */
+
+/**
+ * Maps each key of a schema to the function validating its values.
+ */
+export type SchemaMappedListValidators<GSchema extends object> = {
+  readonly [GKey in keyof GSchema]: MappedListValidateValue<GSchema[GKey]>;
+};
+
+export interface SchemaMappedListFactoryOptions<GSchema extends object, GUnknownValue> extends Omit<
+  MappedListFactoryOptions<SchemaMappedListValue<GSchema, GUnknownValue>>,
+  'validateValue'
+> {
+  /**
+   * The known keys (after `validateKey`), with the function validating their values.
+   */
+  readonly schema: SchemaMappedListValidators<GSchema>;
+  /**
+   * How the keys missing from the schema are handled. Defaults to `reject`.
+   */
+  readonly unknownKeys?: SchemaMappedListUnknownKeys;
+  /**
+   * The function validating the values of the keys missing from the schema, when they are allowed.
+   * Defaults to accepting any value.
+   */
+  readonly validateUnknownValue?: MappedListValidateValue<GUnknownValue>;
+}
+
+/* FACTORY */
+
+/**
+ * Creates a `MappedList` class whose values are validated, and typed, per key.
+ *
+ * @example
+ * const ConfigList = schemaMappedListFactory({
+ *   schema: {
+ *     host: (value: string): string => value,
+ *     port: (value: number): number => value,
+ *   },
+ * });
+ *
+ * new ConfigList().set('port', 8080).get('port'); // typed as `number`
+ */
+export function schemaMappedListFactory<GSchema extends object, GUnknownValue = never>({
+  schema,
+  unknownKeys = 'reject',
+  validateUnknownValue = passthrough,
+  validateKey = passthrough,
+  ...options
+}: SchemaMappedListFactoryOptions<GSchema, GUnknownValue>): SchemaMappedListConstructor<
+  GSchema,
+  GUnknownValue
+> {
+  type GValue = SchemaMappedListValue<GSchema, GUnknownValue>;
+
+  // a `Map` prevents the keys from matching the properties inherited by `schema` (ex: `constructor`)
+  const validators: ReadonlyMap<string, MappedListValidateValue<GValue>> = new Map(
+    Object.entries(schema),
+  );
+
+  const isStripped = (key: string): boolean => {
+    if (unknownKeys !== 'strip') {
+      return false;
+    }
+
+    try {
+      return !validators.has(validateKey(key));
+    } catch {
+      // the invalid keys are not stripped: the list rejects them with a `MappedListInvalidKeyError`
+      return false;
+    }
+  };
+
+  // the list expires its entries if `options` has a clock, so `append` must forward their expiry
+  return class extends (mappedListFactory<GValue>({
+    ...options,
+    validateKey: (key: string): string => {
+      key = validateKey(key);
+
+      if (unknownKeys === 'reject' && !validators.has(key)) {
+        throw new Error(`Unknown key: ${key}`);
+      }
+
+      return key;
+    },
+    validateValue: (value: GValue, key: string): GValue => {
+      const validate: MappedListValidateValue<GValue> | undefined = validators.get(key);
+
+      return validate === undefined
+        ? validateUnknownValue(value as GUnknownValue, key)
+        : validate(value, key);
+    },
+  }) as ExpiringMappedListConstructor<GValue>) {
+    override append(key: string, value: GValue, expiry?: MappedListExpiry): this {
+      if (isStripped(key)) {
+        this.throwIfImmutable('append');
+        return this;
+      }
+
+      return super.append(key, value, expiry);
+    }
+
+    override set(key: string, value: GValue, options?: MappedListSetOptions): this {
+      if (isStripped(key)) {
+        this.throwIfImmutable('set');
+        return this;
+      }
+
+      return super.set(key, value, options);
+    }
+
+    override insertAt(index: number, key: string, value: GValue): this {
+      if (isStripped(key)) {
+        this.throwIfImmutable('insertAt');
+        return this;
+      }
+
+      return super.insertAt(index, key, value);
+    }
+
+    override replaceAt(index: number, key: string, value: GValue): this {
+      if (isStripped(key)) {
+        this.throwIfImmutable('replaceAt');
+        return this;
+      }
+
+      return super.replaceAt(index, key, value);
+    }
+
+    override splice(
+      start: number,
+      deleteCount?: number,
+      ...entries: readonly MappedListTuple<GValue>[]
+    ): MappedListTuple<GValue>[] {
+      return super.splice(
+        start,
+        deleteCount,
+        ...entries.filter(([key]: MappedListTuple<GValue>): boolean => !isStripped(key)),
+      );
+    }
+
+    override merge(source: MappedListInit<GValue>, options?: MappedListMergeOptions<GValue>): this {
+      return super.merge(
+        Array.from(mappedListInitEntries(source)).filter(
+          ([key]: MappedListTuple<GValue>): boolean => !isStripped(key),
+        ),
+        options,
+      );
+    }
+
+    override appendAll(init: MappedListInit<GValue>): this {
+      return super.appendAll(
+        Array.from(mappedListInitEntries(init)).filter(
+          ([key]: MappedListTuple<GValue>): boolean => !isStripped(key),
+        ),
+      );
+    }
+
+    override setAll(init: MappedListInit<GValue>, options?: MappedListSetOptions): this {
+      return super.setAll(
+        Array.from(mappedListInitEntries(init)).filter(
+          ([key]: MappedListTuple<GValue>): boolean => !isStripped(key),
+        ),
+        options,
+      );
+    }
+  } as SchemaMappedListConstructor<GSchema, GUnknownValue>;
+}
@@ -0,0 +1,90 @@
+import { type MappedListGroupedInit, type MappedListInit } from './mapped-list-constructor.js';
+import { type MappedList, type MappedListSetOptions } from './mapped-list.js';
+
+/* TYPES */
+
+/**
+ * The type of the values associated with the key `GKey`:
+ * - `GSchema[GKey]` if `GKey` is a key of the schema
+ * - `GUnknownValue` if `GKey` is another (literal) key
+ * - any value allowed by the list if `GKey` is not known at compile time (`string`)
+ */
+export type SchemaMappedListValue<
+  GSchema extends object,
+  GUnknownValue,
+  GKey extends string = string,
+> = string extends GKey
+  ? GSchema[keyof GSchema] | GUnknownValue
+  : GKey extends keyof GSchema
+    ? GSchema[GKey]
+    : GUnknownValue;
+
+/**
+ * Defines how the keys missing from the schema are handled:
+ * - `allow`: the entries are kept, and their values are validated by `validateUnknownValue`
+ * - `reject`: the keys are invalid (they throw like any invalid key)
+ * - `strip`: the entries are silently ignored when added to the list
+ */
+export type SchemaMappedListUnknownKeys = 'allow' | 'reject' | 'strip';
+
+/* CLASS */
+
+/**
+ * A `MappedList` whose values are typed per key, according to a schema.
+ *
+ * @template GSchema An object type mapping each known key to the type of its values.
+ * @template GUnknownValue The type of the values associated with the keys missing from the schema.
+ */
+export interface SchemaMappedList<GSchema extends object, GUnknownValue = never> extends MappedList<
+  SchemaMappedListValue<GSchema, GUnknownValue>
+> {
+  /**
+   * Like `MappedList.get`, with the values typed according to `key`.
+   */
+  get<GKey extends string>(key: GKey): SchemaMappedListValue<GSchema, GUnknownValue, GKey>;
+
+  /**
+   * Like `MappedList.getAll`, with the values typed according to `key`.
+   */
+  getAll<GKey extends string>(key: GKey): SchemaMappedListValue<GSchema, GUnknownValue, GKey>[];
+
+  /**
+   * Like `MappedList.getOptional`, with the values typed according to `key`.
+   */
+  getOptional<GKey extends string>(
+    key: GKey,
+  ): SchemaMappedListValue<GSchema, GUnknownValue, GKey> | undefined;
+
+  /**
+   * Like `MappedList.append`, with the values typed according to `key`.
+   */
+  append<GKey extends string>(
+    key: GKey,
+    value: SchemaMappedListValue<GSchema, GUnknownValue, GKey>,
+  ): this;
+
+  /**
+   * Like `MappedList.set`, with the values typed according to `key`.
+   */
+  set<GKey extends string>(
+    key: GKey,
+    value: SchemaMappedListValue<GSchema, GUnknownValue, GKey>,
+    options?: MappedListSetOptions,
+  ): this;
+}
+
+/* CONSTRUCTOR */
+
+export interface SchemaMappedListConstructor<GSchema extends object, GUnknownValue = never> {
+  new (
+    init?: MappedListInit<SchemaMappedListValue<GSchema, GUnknownValue>>,
+  ): SchemaMappedList<GSchema, GUnknownValue>;
+
+  /**
+   * Like `MappedListConstructor.fromGrouped`.
+   */
+  fromGrouped<GInstance>(
+    this: new (init: MappedListInit<SchemaMappedListValue<GSchema, GUnknownValue>>) => GInstance,
+    grouped: MappedListGroupedInit<SchemaMappedListValue<GSchema, GUnknownValue>>,
+  ): GInstance;
+}
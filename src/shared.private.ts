@@ -0,0 +1,187 @@
+import { type MappedListGroupedInit, type MappedListInit } from './mapped-list-constructor.js';
+import { MappedListInvalidKeyError, MappedListInvalidValueError } from './mapped-list-errors.js';
+import { type MappedListKeyQuery } from './mapped-list-key-query.js';
+import { type MappedListTuple } from './mapped-list.js';
+import {
+  type MappedListValidateKey,
+  type MappedListValidateValue,
+} from './parameter-list-factory.js';
+
+export const passthrough: <GValue>(value: GValue) => GValue = <GValue>(value: GValue): GValue =>
+  value;
+
+/**
+ * Returns the key/value pairs described by a `MappedListInit`.
+ */
+export function mappedListInitEntries<GValue>(
+  init: MappedListInit<GValue>,
+): Iterable<MappedListTuple<GValue>> {
+  return Symbol.iterator in init ? init : Object.entries(init);
+}
+
+/**
+ * Returns the key/value pairs described by a `MappedListGroupedInit`.
+ */
+export function* mappedListGroupedEntries<GValue>(
+  grouped: MappedListGroupedInit<GValue>,
+): Generator<MappedListTuple<GValue>> {
+  for (const [key, values] of Symbol.iterator in grouped ? grouped : Object.entries(grouped)) {
+    for (let i: number = 0; i < values.length; i++) {
+      yield [key, values[i]];
+    }
+  }
+}
+
+/**
+ * A `validateKey` throwing a `MappedListInvalidKeyError` describing the failed `operation`.
+ */
+export interface CheckedValidateKey {
+  (key: string, operation: string, index?: number): string;
+}
+
+/**
+ * A `validateValue` throwing a `MappedListInvalidValueError` describing the failed `operation`.
+ */
+export interface CheckedValidateValue<GValue> {
+  (value: GValue, key: string, operation: string, index?: number): GValue;
+}
+
+/**
+ * Wraps the errors thrown by `validateKey` into a `MappedListInvalidKeyError`.
+ */
+export function checkedValidateKey(validateKey: MappedListValidateKey): CheckedValidateKey {
+  return (key: string, operation: string, index?: number): string => {
+    try {
+      return validateKey(key);
+    } catch (error: unknown) {
+      throw new MappedListInvalidKeyError(key, { operation, index, cause: error });
+    }
+  };
+}
+
+/**
+ * Wraps the errors thrown by `validateValue` into a `MappedListInvalidValueError`.
+ */
+export function checkedValidateValue<GValue>(
+  validateValue: MappedListValidateValue<GValue>,
+): CheckedValidateValue<GValue> {
+  return (value: GValue, key: string, operation: string, index?: number): GValue => {
+    try {
+      return validateValue(value, key);
+    } catch (error: unknown) {
+      throw new MappedListInvalidValueError(key, value, { operation, index, cause: error });
+    }
+  };
+}
+
+/**
+ * A compiled `MappedListKeyQuery`: the matching keys are all in the range [`lower`, `upper`),
+ * so a list sorted by key only has to scan this range.
+ */
+export interface MappedListKeyMatcher {
+  readonly lower: string;
+  /**
+   * `undefined` if the range has no upper bound.
+   */
+  readonly upper: string | undefined;
+  readonly test: (key: string) => boolean;
+}
+
+const GLOB_SPECIAL_CHARS_REGEXP: RegExp = /[*?]/;
+
+const REGEXP_SPECIAL_CHARS_REGEXP: RegExp = /[.*+?^${}()|[\]\\]/g;
+
+/**
+ * Compiles `query` into a `MappedListKeyMatcher`.
+ */
+export function mappedListKeyMatcher(query: MappedListKeyQuery): MappedListKeyMatcher {
+  if (query instanceof RegExp) {
+    return {
+      lower: '',
+      upper: undefined,
+      // unlike `.test()`, `.search()` ignores (and preserves) the `lastIndex` of the global and sticky expressions
+      test: (key: string): boolean => key.search(query) !== -1,
+    };
+  }
+
+  if ('prefix' in query) {
+    const { prefix } = query;
+
+    return {
+      lower: prefix,
+      upper: prefixUpperBound(prefix),
+      test: (key: string): boolean => key.startsWith(prefix),
+    };
+  }
+
+  if ('glob' in query) {
+    const { glob } = query;
+    const wildcard: number = glob.search(GLOB_SPECIAL_CHARS_REGEXP);
+    // the characters before the first wildcard are a prefix of all the matching keys
+    const prefix: string = wildcard === -1 ? glob : glob.slice(0, wildcard);
+    const regexp: RegExp = new RegExp(
+      `^${Array.from(glob, (char: string): string =>
+        char === '*'
+          ? '[\\s\\S]*'
+          : char === '?'
+            ? '[\\s\\S]'
+            : char.replace(REGEXP_SPECIAL_CHARS_REGEXP, '\\$&'),
+      ).join('')}$`,
+      'u',
+    );
+
+    return {
+      lower: prefix,
+      upper: prefixUpperBound(prefix),
+      test: (key: string): boolean => regexp.test(key),
+    };
+  }
+
+  const { start = '', end } = query;
+
+  return {
+    lower: start,
+    upper: end,
+    test: (key: string): boolean => key >= start && (end === undefined || key < end),
+  };
+}
+
+/**
+ * Returns the smallest string greater than all the strings starting with `prefix`,
+ * or `undefined` if there is none (ex: for an empty prefix).
+ */
+function prefixUpperBound(prefix: string): string | undefined {
+  let end: number = prefix.length;
+
+  // a trailing U+FFFF can't be incremented
+  while (end > 0 && prefix.charCodeAt(end - 1) === 0xffff) {
+    end--;
+  }
+
+  return end === 0
+    ? undefined
+    : prefix.slice(0, end - 1) + String.fromCharCode(prefix.charCodeAt(end - 1) + 1);
+}
+
+/**
+ * Returns the position of the first entry of `entries` (sorted by key) whose key is greater than or equal to `key`.
+ */
+export function lowerBoundByKey<GValue>(
+  entries: readonly MappedListTuple<GValue>[],
+  key: string,
+): number {
+  let low: number = 0;
+  let high: number = entries.length;
+
+  while (low < high) {
+    const middle: number = (low + high) >>> 1;
+
+    if (entries[middle][0] < key) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+}
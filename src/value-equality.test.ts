@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { deepEqual, sameValueZero, strictEqual } from './value-equality.js';
+
+describe('value equality', () => {
+  describe('strictEqual', () => {
+    it('should compare using ===', () => {
+      expect(strictEqual(1, 1)).toBe(true);
+      expect(strictEqual(0, -0)).toBe(true);
+      expect(strictEqual(NaN, NaN)).toBe(false);
+      expect(strictEqual({}, {})).toBe(false);
+    });
+  });
+
+  describe('sameValueZero', () => {
+    it('should compare using SameValueZero', () => {
+      expect(sameValueZero(1, 1)).toBe(true);
+      expect(sameValueZero(0, -0)).toBe(true);
+      expect(sameValueZero(NaN, NaN)).toBe(true);
+      expect(sameValueZero(NaN, 1)).toBe(false);
+      expect(sameValueZero('1', 1)).toBe(false);
+      expect(sameValueZero({}, {})).toBe(false);
+    });
+  });
+
+  describe('deepEqual', () => {
+    it('should compare primitives', () => {
+      expect(deepEqual(1, 1)).toBe(true);
+      expect(deepEqual(NaN, NaN)).toBe(true);
+      expect(deepEqual(undefined, undefined)).toBe(true);
+      expect(deepEqual(null, undefined)).toBe(false);
+      expect(deepEqual(1, '1')).toBe(false);
+      expect(deepEqual(null, {})).toBe(false);
+      expect(deepEqual({}, null)).toBe(false);
+    });
+
+    it('should compare plain objects', () => {
+      expect(deepEqual({ id: 1, tags: ['a'] }, { tags: ['a'], id: 1 })).toBe(true);
+      expect(deepEqual({ id: 1 }, { id: 2 })).toBe(false);
+      expect(deepEqual({ id: 1 }, { id: 1, name: 'a' })).toBe(false);
+      expect(deepEqual({ id: 1, a: undefined }, { id: 1, b: undefined })).toBe(false);
+      expect(deepEqual({ [Symbol.for('a')]: 1 }, { [Symbol.for('a')]: 1 })).toBe(true);
+      expect(deepEqual({}, Object.create(null))).toBe(false);
+    });
+
+    it('should compare arrays and typed arrays', () => {
+      expect(deepEqual([1, [2, 3]], [1, [2, 3]])).toBe(true);
+      expect(deepEqual([1, 2], [1, 2, 3])).toBe(false);
+      expect(deepEqual([1, 2], [2, 1])).toBe(false);
+      expect(deepEqual(new Uint8Array([1, 2]), new Uint8Array([1, 2]))).toBe(true);
+      expect(deepEqual(new Uint8Array([1, 2]), new Uint8Array([1, 3]))).toBe(false);
+      expect(deepEqual(new Uint8Array([1]), [1])).toBe(false);
+    });
+
+    it('should compare dates and regexps', () => {
+      expect(deepEqual(new Date(1), new Date(1))).toBe(true);
+      expect(deepEqual(new Date(1), new Date(2))).toBe(false);
+      expect(deepEqual(/a/g, /a/g)).toBe(true);
+      expect(deepEqual(/a/g, /a/i)).toBe(false);
+      expect(deepEqual(/a/g, /b/g)).toBe(false);
+    });
+
+    it('should compare maps', () => {
+      expect(deepEqual(new Map([['a', { b: 1 }]]), new Map([['a', { b: 1 }]]))).toBe(true);
+      expect(deepEqual(new Map([['a', 1]]), new Map([['a', 2]]))).toBe(false);
+      expect(deepEqual(new Map([['a', 1]]), new Map([['b', 1]]))).toBe(false);
+      expect(deepEqual(new Map([['a', 1]]), new Map())).toBe(false);
+    });
+
+    it('should compare sets', () => {
+      expect(deepEqual(new Set([{ a: 1 }, { a: 2 }]), new Set([{ a: 2 }, { a: 1 }]))).toBe(true);
+      expect(deepEqual(new Set([{ a: 1 }, { a: 1 }]), new Set([{ a: 1 }, { a: 2 }]))).toBe(false);
+      expect(deepEqual(new Set([1]), new Set([1, 2]))).toBe(false);
+    });
+
+    it('should support circular references', () => {
+      const a: any = { id: 1 };
+      a.self = a;
+      const b: any = { id: 1 };
+      b.self = b;
+      const c: any = { id: 2 };
+      c.self = c;
+
+      expect(deepEqual(a, b)).toBe(true);
+      expect(deepEqual(a, c)).toBe(false);
+    });
+  });
+});
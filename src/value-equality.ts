@@ -0,0 +1,175 @@
+/* EQUALITY */
+
+/**
+ * Compares two values using strict equality (`===`).
+ * This is the default comparison of the lists.
+ *
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @return {boolean} `true` if `a === b`.
+ */
+export function strictEqual(a: unknown, b: unknown): boolean {
+  return a === b;
+}
+
+/**
+ * Compares two values using the `SameValueZero` algorithm (like `Array.prototype.includes`):
+ * it behaves like `===`, except that `NaN` is equal to `NaN`.
+ *
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @return {boolean} `true` if `a` and `b` are the same value.
+ */
+export function sameValueZero(a: unknown, b: unknown): boolean {
+  return a === b || (a !== a && b !== b);
+}
+
+/**
+ * Compares two values structurally.
+ *
+ * - primitives are compared using `SameValueZero`
+ * - arrays and typed arrays are equal if they have the same length and deeply equal items
+ * - `Date`s are equal if they represent the same time, and `RegExp`s if they have the same source and flags
+ * - `Map`s are equal if they have the same keys (compared with `SameValueZero`) and deeply equal values
+ * - `Set`s are equal if each value of one deeply equals a distinct value of the other
+ * - other objects are equal if they share the same prototype, and have the same own enumerable keys with deeply equal values
+ *
+ * Circular references are supported.
+ *
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @return {boolean} `true` if `a` and `b` are structurally equal.
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  return deepEqualWithStack(a, b, new Map());
+}
+
+/**
+ * @param stack - The pairs of objects currently being compared, used to detect circular references.
+ */
+function deepEqualWithStack(a: unknown, b: unknown, stack: Map<object, Set<object>>): boolean {
+  if (sameValueZero(a, b)) {
+    return true;
+  }
+
+  if (
+    typeof a !== 'object' ||
+    typeof b !== 'object' ||
+    a === null ||
+    b === null ||
+    Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)
+  ) {
+    return false;
+  }
+
+  let pairs: Set<object> | undefined = stack.get(a);
+
+  if (pairs === undefined) {
+    pairs = new Set();
+    stack.set(a, pairs);
+  } else if (pairs.has(b)) {
+    // the pair is already being compared: assume equality to break the cycle
+    return true;
+  }
+
+  pairs.add(b);
+
+  try {
+    return deepEqualObjects(a, b, stack);
+  } finally {
+    pairs.delete(b);
+  }
+}
+
+function deepEqualObjects(a: object, b: object, stack: Map<object, Set<object>>): boolean {
+  if (a instanceof Date) {
+    return a.getTime() === (b as Date).getTime();
+  }
+
+  if (a instanceof RegExp) {
+    return a.source === (b as RegExp).source && a.flags === (b as RegExp).flags;
+  }
+
+  if (Array.isArray(a) || ArrayBuffer.isView(a)) {
+    const itemsA: ArrayLike<unknown> = a as ArrayLike<unknown>;
+    const itemsB: ArrayLike<unknown> = b as ArrayLike<unknown>;
+
+    if (itemsA.length !== itemsB.length) {
+      return false;
+    }
+
+    for (let i: number = 0; i < itemsA.length; i++) {
+      if (!deepEqualWithStack(itemsA[i], itemsB[i], stack)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  if (a instanceof Map) {
+    const mapB: Map<unknown, unknown> = b as Map<unknown, unknown>;
+
+    if (a.size !== mapB.size) {
+      return false;
+    }
+
+    for (const [key, value] of a) {
+      if (!mapB.has(key) || !deepEqualWithStack(value, mapB.get(key), stack)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  if (a instanceof Set) {
+    const setB: Set<unknown> = b as Set<unknown>;
+
+    if (a.size !== setB.size) {
+      return false;
+    }
+
+    const remaining: unknown[] = Array.from(setB);
+
+    for (const value of a) {
+      const index: number = remaining.findIndex((candidate: unknown): boolean =>
+        deepEqualWithStack(value, candidate, stack),
+      );
+
+      if (index === -1) {
+        return false;
+      }
+
+      remaining.splice(index, 1);
+    }
+
+    return true;
+  }
+
+  const keysA: PropertyKey[] = ownEnumerableKeys(a);
+  const keysB: PropertyKey[] = ownEnumerableKeys(b);
+
+  if (keysA.length !== keysB.length) {
+    return false;
+  }
+
+  for (let i: number = 0; i < keysA.length; i++) {
+    const key: PropertyKey = keysA[i];
+
+    if (
+      !Object.prototype.propertyIsEnumerable.call(b, key) ||
+      !deepEqualWithStack(Reflect.get(a, key), Reflect.get(b, key), stack)
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function ownEnumerableKeys(input: object): PropertyKey[] {
+  return Reflect.ownKeys(input).filter((key: PropertyKey): boolean =>
+    Object.prototype.propertyIsEnumerable.call(input, key),
+  );
+}